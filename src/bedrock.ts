@@ -0,0 +1,263 @@
+import { readAll } from "./read.js";
+import { writeAll } from "./write.js";
+
+import type { NBTData } from "./format.js";
+import type { RootTag, RootTagLike } from "./tag.js";
+
+const ACTOR_PREFIX = "actorprefix";
+const DIGEST_PREFIX = "digp";
+
+/**
+ * The record type byte of a Bedrock chunk key, which follows the chunk coordinates and dimension.
+*/
+export enum ChunkRecordType {
+  DATA_3D = 43,
+  VERSION,
+  DATA_2D,
+  DATA_2D_LEGACY,
+  SUB_CHUNK_PREFIX,
+  LEGACY_TERRAIN,
+  BLOCK_ENTITY,
+  ENTITY,
+  PENDING_TICKS,
+  LEGACY_BLOCK_EXTRA_DATA,
+  BIOME_STATE,
+  FINALIZED_STATE,
+  CONVERSION_DATA,
+  BORDER_BLOCKS,
+  HARDCODED_SPAWNERS,
+  RANDOM_TICKS,
+  CHECKSUMS,
+  GENERATION_SEED,
+  GENERATED_PRE_CAVES_AND_CLIFFS_BLENDING,
+  BLENDING_BIOME_HEIGHT,
+  META_DATA_HASH,
+  BLENDING_DATA,
+  ACTOR_DIGEST_VERSION,
+  LEGACY_VERSION = 118
+}
+
+Object.freeze(ChunkRecordType);
+
+export enum Dimension {
+  OVERWORLD = 0,
+  NETHER,
+  END
+}
+
+Object.freeze(Dimension);
+
+/**
+ * The chunk record types whose values are one or more adjacent little-endian NBT roots.
+*/
+const NBT_CHUNK_RECORD_TYPES: ReadonlySet<ChunkRecordType> = new Set([
+  ChunkRecordType.BLOCK_ENTITY,
+  ChunkRecordType.ENTITY,
+  ChunkRecordType.PENDING_TICKS,
+  ChunkRecordType.RANDOM_TICKS
+]);
+
+/**
+ * The named keys whose values are little-endian NBT.
+*/
+const NBT_RECORD_NAMES: ReadonlySet<string> = new Set([
+  "~local_player",
+  "AutonomousEntities",
+  "BiomeData",
+  "mobevents",
+  "Nether",
+  "Overworld",
+  "portals",
+  "scoreboard",
+  "schedulerWT",
+  "TheEnd"
+]);
+
+/**
+ * The prefixes of named keys whose values are little-endian NBT, such as `player_server_<uuid>` or `VILLAGE_<uuid>_INFO`.
+*/
+const NBT_RECORD_PREFIXES: readonly string[] = [
+  "dimension",
+  "map_",
+  "player_",
+  "structuretemplate_",
+  "tickingarea_",
+  "VILLAGE_"
+];
+
+export interface ChunkKey {
+  kind: "chunk";
+  x: number;
+  z: number;
+  dimension: Dimension;
+  type: ChunkRecordType;
+  /**
+   * The vertical index of the sub-chunk, only present for `SUB_CHUNK_PREFIX` records.
+  */
+  subChunk?: number;
+}
+
+/**
+ * The key of an entity's NBT, stored as `actorprefix` followed by the entity's unique ID.
+*/
+export interface ActorKey {
+  kind: "actor";
+  id: bigint;
+}
+
+/**
+ * The key of a chunk's actor digest, which lists the unique IDs of the entities within the chunk.
+*/
+export interface DigestKey {
+  kind: "digest";
+  x: number;
+  z: number;
+  dimension: Dimension;
+}
+
+/**
+ * Any other key, such as `~local_player`, `portals`, or `scoreboard`.
+*/
+export interface NamedKey {
+  kind: "named";
+  name: string;
+}
+
+export type BedrockKey = ChunkKey | ActorKey | DigestKey | NamedKey;
+
+/**
+ * Decodes the layout of a key from a Bedrock world's LevelDB database.
+ *
+ * Keys which don't match the chunk, actor, or digest layouts are returned as named keys.
+*/
+export function parseBedrockKey(key: Uint8Array): BedrockKey {
+  if (!(key instanceof Uint8Array)) {
+    key satisfies never;
+    throw new TypeError("First parameter must be a Uint8Array");
+  }
+
+  const view = new DataView(key.buffer, key.byteOffset, key.byteLength);
+  const name: string = new TextDecoder().decode(key);
+
+  if (name.startsWith(ACTOR_PREFIX) && key.byteLength === ACTOR_PREFIX.length + 8) {
+    return { kind: "actor", id: view.getBigInt64(ACTOR_PREFIX.length, true) };
+  }
+
+  if (name.startsWith(DIGEST_PREFIX) && (key.byteLength === DIGEST_PREFIX.length + 8 || key.byteLength === DIGEST_PREFIX.length + 12)) {
+    const byteOffset: number = DIGEST_PREFIX.length;
+    const dimension: number = key.byteLength === byteOffset + 12 ? view.getInt32(byteOffset + 8, true) : Dimension.OVERWORLD;
+    if (dimension in Dimension) {
+      return { kind: "digest", x: view.getInt32(byteOffset, true), z: view.getInt32(byteOffset + 4, true), dimension };
+    }
+  }
+
+  const dimensioned: boolean = key.byteLength >= 13;
+  const typeOffset: number = dimensioned ? 12 : 8;
+  const type: number | undefined = key[typeOffset];
+  const byteLength: number = typeOffset + (type === ChunkRecordType.SUB_CHUNK_PREFIX ? 2 : 1);
+
+  if (type !== undefined && type in ChunkRecordType && key.byteLength === byteLength) {
+    const dimension: number = dimensioned ? view.getInt32(8, true) : Dimension.OVERWORLD;
+    if (dimension in Dimension) {
+      const chunk: ChunkKey = { kind: "chunk", x: view.getInt32(0, true), z: view.getInt32(4, true), dimension, type };
+      if (type === ChunkRecordType.SUB_CHUNK_PREFIX) {
+        chunk.subChunk = view.getInt8(typeOffset + 1);
+      }
+      return chunk;
+    }
+  }
+
+  return { kind: "named", name };
+}
+
+/**
+ * Encodes a key for a Bedrock world's LevelDB database. The dimension is left out of the key for the Overworld, as Bedrock does.
+*/
+export function createBedrockKey(key: BedrockKey): Uint8Array {
+  switch (key.kind) {
+    case "chunk": {
+      const { x, z, dimension, type, subChunk } = key;
+      if (type === ChunkRecordType.SUB_CHUNK_PREFIX && subChunk === undefined) {
+        throw new TypeError("Sub-chunk index must be specified for sub-chunk prefix records");
+      }
+      const coordinates: Uint8Array = createCoordinates(x, z, dimension);
+      const result = new Uint8Array(coordinates.byteLength + (type === ChunkRecordType.SUB_CHUNK_PREFIX ? 2 : 1));
+      result.set(coordinates, 0);
+      result[coordinates.byteLength] = type;
+      if (type === ChunkRecordType.SUB_CHUNK_PREFIX) {
+        new DataView(result.buffer).setInt8(coordinates.byteLength + 1, subChunk!);
+      }
+      return result;
+    }
+    case "actor": {
+      const result = new Uint8Array(ACTOR_PREFIX.length + 8);
+      result.set(new TextEncoder().encode(ACTOR_PREFIX), 0);
+      new DataView(result.buffer).setBigInt64(ACTOR_PREFIX.length, BigInt.asIntN(64, key.id), true);
+      return result;
+    }
+    case "digest": {
+      const coordinates: Uint8Array = createCoordinates(key.x, key.z, key.dimension);
+      const result = new Uint8Array(DIGEST_PREFIX.length + coordinates.byteLength);
+      result.set(new TextEncoder().encode(DIGEST_PREFIX), 0);
+      result.set(coordinates, DIGEST_PREFIX.length);
+      return result;
+    }
+    case "named": return new TextEncoder().encode(key.name);
+    default: {
+      key satisfies never;
+      throw new TypeError("Key kind must be 'chunk', 'actor', 'digest', or 'named'");
+    }
+  }
+}
+
+function createCoordinates(x: number, z: number, dimension: Dimension): Uint8Array {
+  if (!Number.isInteger(x) || !Number.isInteger(z)) {
+    throw new TypeError("Chunk coordinates must be integers");
+  }
+  if (!(dimension in Dimension)) {
+    throw new TypeError("Dimension must be a valid dimension type");
+  }
+
+  const result = new Uint8Array(dimension === Dimension.OVERWORLD ? 8 : 12);
+  const view = new DataView(result.buffer);
+  view.setInt32(0, x, true);
+  view.setInt32(4, z, true);
+  if (dimension !== Dimension.OVERWORLD) {
+    view.setInt32(8, dimension, true);
+  }
+  return result;
+}
+
+/**
+ * Checks whether the value of a Bedrock key is stored as NBT.
+ *
+ * Chunk block entities, entities, and tick lists, actor records, and the known named records are NBT, while the remaining chunk records, actor digests, and named records such as `game_flatworldlayers` use their own layouts.
+*/
+export function isNBTRecord(key: Uint8Array | BedrockKey): boolean {
+  const parsed: BedrockKey = key instanceof Uint8Array ? parseBedrockKey(key) : key;
+  switch (parsed.kind) {
+    case "chunk": return NBT_CHUNK_RECORD_TYPES.has(parsed.type);
+    case "actor": return true;
+    case "digest": return false;
+    case "named": return NBT_RECORD_NAMES.has(parsed.name) || NBT_RECORD_PREFIXES.some(prefix => parsed.name.startsWith(prefix));
+  }
+}
+
+/**
+ * Reads the NBT roots of a Bedrock record value, which are uncompressed little-endian NBT written one after another.
+*/
+export async function readBedrockRecord<T extends RootTagLike = RootTag>(key: Uint8Array | BedrockKey, value: Uint8Array): Promise<NBTData<T>[]> {
+  if (!isNBTRecord(key)) {
+    throw new TypeError("Record value for this key isn't stored as NBT");
+  }
+  if (value.byteLength === 0) return [];
+
+  return readAll<T>(value, { rootName: true, endian: "little", compression: null, bedrockLevel: false });
+}
+
+/**
+ * Writes NBT roots as a Bedrock record value, in the uncompressed little-endian format.
+*/
+export async function writeBedrockRecord<T extends RootTagLike = RootTag>(data: (T | NBTData<T>)[]): Promise<Uint8Array> {
+  return writeAll<T>(data, { endian: "little", compression: null, bedrockLevel: false });
+}
\ No newline at end of file
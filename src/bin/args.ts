@@ -1,36 +1,61 @@
+import { isCompression } from "../index.js";
+
 import type { NBTDataOptions, StringifyOptions } from "../index.js";
 
 const NBT_PATTERN = /^--nbt$/;
 const SNBT_PATTERN = /^--snbt$/;
 const JSON_PATTERN = /^--json$/;
+const TYPED_JSON_PATTERN = /^--typed-json$/;
 const ROOT_NAME_PATTERN = /^--root-name=/;
 const ENDIAN_PATTERN = /^--endian=/;
 const COMPRESSION_PATTERN = /^--compression=/;
 const BEDROCK_LEVEL_PATTERN = /^(?:--bedrock-level$|--bedrock-level=)/;
+const STRING_ENCODING_PATTERN = /^--string-encoding=/;
+const HEADER_VERSION_PATTERN = /^--header-version=/;
 const SPACE_PATTERN = /^--space=/;
 
 const args: string[] = process.argv.slice(2);
 
+export const command: "dump" | "savegame" | null = (args[0] === "dump") ? (args.shift(), "dump") : (args[0] === "savegame") ? (args.shift(), "savegame") : null;
+
 process.on("uncaughtException", error => {
   console.error(`${error}`);
   process.exit(1);
 });
 
-export const file: string | typeof process.stdin.fd = !process.stdin.isTTY
+export const action: "list" | "extract" | "pack" | null = (command === "savegame") ? (() => {
+  const value: string | undefined = args.shift();
+  if (value !== "list" && value !== "extract" && value !== "pack") {
+    throw new TypeError("Savegame action must be 'list', 'extract', or 'pack'");
+  }
+  return value;
+})() : null;
+
+// Packing reads from a directory, so it can't take its input from stdin.
+export const file: string | typeof process.stdin.fd = !process.stdin.isTTY && action !== "pack"
   ? process.stdin.fd
   : args.shift() ?? (() => {
     throw new TypeError("Missing argument 'input'");
   })();
 
+export const directory: string | null = (action === "extract")
+  ? args.shift() ?? (() => {
+    throw new TypeError("Missing argument 'directory'");
+  })()
+  : null;
+
 for (const arg of args) {
   switch (true) {
     case NBT_PATTERN.test(arg):
     case SNBT_PATTERN.test(arg):
     case JSON_PATTERN.test(arg):
+    case TYPED_JSON_PATTERN.test(arg):
     case ROOT_NAME_PATTERN.test(arg):
     case ENDIAN_PATTERN.test(arg):
     case COMPRESSION_PATTERN.test(arg):
     case BEDROCK_LEVEL_PATTERN.test(arg):
+    case STRING_ENCODING_PATTERN.test(arg):
+    case HEADER_VERSION_PATTERN.test(arg):
     case SPACE_PATTERN.test(arg):
       break;
     default:
@@ -47,6 +72,9 @@ export const snbt: boolean = args
 export const json: boolean = args
   .some(arg => JSON_PATTERN.test(arg));
 
+export const typedJson: boolean = args
+  .some(arg => TYPED_JSON_PATTERN.test(arg));
+
 const rootName: NBTDataOptions["rootName"] = args
   .find(arg => ROOT_NAME_PATTERN.test(arg))
   ?.replace(ROOT_NAME_PATTERN, "");
@@ -66,7 +94,7 @@ const compression: NBTDataOptions["compression"] = (() => {
   const value: string | undefined = args
     .find(arg => COMPRESSION_PATTERN.test(arg))
     ?.replace(COMPRESSION_PATTERN, "");
-  if (value !== undefined && value !== "deflate" && value !== "deflate-raw" && value !== "gzip" && value !== "null") {
+  if (value !== undefined && value !== "null" && !isCompression(value)) {
     value satisfies string;
     throw new TypeError("Compression option must be a valid compression type");
   }
@@ -86,7 +114,28 @@ const bedrockLevel: NBTDataOptions["bedrockLevel"] = (() => {
   }
 })();
 
-export const format: NBTDataOptions = { rootName, endian, compression, bedrockLevel };
+const stringEncoding: NBTDataOptions["stringEncoding"] = (() => {
+  const value: string | undefined = args
+    .find(arg => STRING_ENCODING_PATTERN.test(arg))
+    ?.replace(STRING_ENCODING_PATTERN, "");
+  if (value !== undefined && value !== "mutf-8" && value !== "utf-8") {
+    value satisfies string;
+    throw new TypeError("String Encoding option must be 'mutf-8' or 'utf-8'");
+  }
+  return value;
+})();
+
+const headerVersion: NBTDataOptions["headerVersion"] = (() => {
+  const value: string | undefined = args
+    .find(arg => HEADER_VERSION_PATTERN.test(arg))
+    ?.replace(HEADER_VERSION_PATTERN, "");
+  if (value !== undefined && !/^\d+$/.test(value)) {
+    throw new TypeError("Header Version option must be a non-negative integer");
+  }
+  return value !== undefined ? Number(value) : value;
+})();
+
+export const format: NBTDataOptions = { rootName, endian, compression, bedrockLevel, stringEncoding, headerVersion };
 
 export const space: StringifyOptions["space"] = (() => {
   const space: string | undefined = args
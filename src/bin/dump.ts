@@ -0,0 +1,144 @@
+import { read, decompress, get, TAG } from "../index.js";
+
+import type { NBTData, NBTDataOptions, SourceMap, SourceMapEntry, Tag } from "../index.js";
+
+const BYTES_PER_LINE = 16;
+const MAX_LINES_PER_REGION = 4;
+
+interface Region {
+  byteOffset: number;
+  byteLength: number;
+  depth: number;
+  label: string;
+}
+
+interface Container {
+  type: TAG.LIST | TAG.COMPOUND;
+  end: number;
+}
+
+/**
+ * Renders the decompressed bytes of an NBT file as a hex dump, with each region of the binary format annotated.
+*/
+export async function dump(buffer: Uint8Array, format: NBTDataOptions): Promise<string> {
+  const result: NBTData = await read(buffer, { ...format, strict: false, sourceMap: true });
+  const data: Uint8Array = (result.compression !== null) ? await decompress(buffer, result.compression) : buffer;
+  const sourceMap: SourceMap = result.sourceMap!;
+  const [start, end] = result.byteRange!;
+  const varint: boolean = result.endian === "little-varint";
+  const regions: Region[] = [];
+  const stack: Container[] = [];
+
+  const close = (byteOffset: number): void => {
+    while (stack.length !== 0 && stack.at(-1)!.end <= byteOffset) {
+      const { type, end } = stack.pop()!;
+      if (type === TAG.COMPOUND) {
+        regions.push({ byteOffset: end - 1, byteLength: 1, depth: stack.length + 1, label: "End tag" });
+      }
+    }
+  };
+
+  if (result.bedrockLevel) {
+    regions.push({ byteOffset: start, byteLength: 4, depth: 0, label: `Bedrock Level header, storage version ${result.headerVersion}` });
+    regions.push({ byteOffset: start + 4, byteLength: 4, depth: 0, label: "Bedrock Level header, byte length" });
+  }
+
+  for (const [path, entry] of sourceMap) {
+    const { type, headerOffset, payloadOffset, byteLength }: SourceMapEntry = entry;
+    close(headerOffset ?? payloadOffset);
+    const depth: number = stack.length;
+    const name: string = (path === "") ? "(root)" : path;
+
+    if (headerOffset !== null) {
+      regions.push({ byteOffset: headerOffset, byteLength: 1, depth, label: `Tag type ${TAG[type]}, ${name}` });
+      if (payloadOffset > headerOffset + 1) {
+        const prefixLength: number = varint ? varintLength(data, headerOffset + 1) : 2;
+        const nameOffset: number = headerOffset + 1 + prefixLength;
+        regions.push({ byteOffset: headerOffset + 1, byteLength: prefixLength, depth, label: `Name length ${payloadOffset - nameOffset}` });
+        regions.push({ byteOffset: nameOffset, byteLength: payloadOffset - nameOffset, depth, label: `Name ${JSON.stringify(new TextDecoder().decode(data.subarray(nameOffset, payloadOffset)))}` });
+      }
+    }
+
+    switch (type) {
+      case TAG.LIST: {
+        const itemType: TAG = data[payloadOffset]!;
+        const prefixLength: number = varint ? varintLength(data, payloadOffset + 1) : 4;
+        const value: Tag[] | undefined = (path === "") ? result.data as Tag[] : get<Tag[]>(result, path);
+        regions.push({ byteOffset: payloadOffset, byteLength: 1 + prefixLength, depth, label: `List header, ${value?.length ?? 0} ${TAG[itemType]} items${headerOffset === null ? `, ${name}` : ""}` });
+        stack.push({ type, end: payloadOffset + byteLength });
+        break;
+      }
+      case TAG.COMPOUND: {
+        if (headerOffset === null) {
+          regions.push({ byteOffset: payloadOffset, byteLength: 0, depth, label: `Compound, ${name}` });
+        }
+        stack.push({ type, end: payloadOffset + byteLength });
+        break;
+      }
+      case TAG.STRING:
+      case TAG.BYTE_ARRAY:
+      case TAG.INT_ARRAY:
+      case TAG.LONG_ARRAY: {
+        const prefixLength: number = varint ? varintLength(data, payloadOffset) : (type === TAG.STRING) ? 2 : 4;
+        const value: Tag | undefined = get(result, path);
+        const label: string = (headerOffset === null) ? `${name} ` : "";
+        regions.push({ byteOffset: payloadOffset, byteLength: prefixLength, depth, label: `${label}Length ${typeof value === "string" ? byteLength - prefixLength : (value as ArrayLike<unknown>).length}` });
+        regions.push({ byteOffset: payloadOffset + prefixLength, byteLength: byteLength - prefixLength, depth, label: `${label}Payload ${describe(value!)}` });
+        break;
+      }
+      default: {
+        const value: Tag | undefined = get(result, path);
+        regions.push({ byteOffset: payloadOffset, byteLength, depth, label: `${headerOffset === null ? `${name} ` : ""}Payload ${describe(value!)}` });
+      }
+    }
+  }
+
+  close(Infinity);
+
+  if (end < data.byteLength) {
+    regions.push({ byteOffset: end, byteLength: data.byteLength - end, depth: 0, label: "Unread bytes" });
+  }
+
+  return regions.map(region => formatRegion(data, region)).join("\n");
+}
+
+function varintLength(data: Uint8Array, byteOffset: number): number {
+  let byteLength: number = 1;
+  while ((data[byteOffset + byteLength - 1]! & 0x80) !== 0 && byteOffset + byteLength < data.byteLength) {
+    byteLength++;
+  }
+  return byteLength;
+}
+
+function describe(value: Tag): string {
+  switch (typeof value) {
+    case "string": return JSON.stringify(value.length > 48 ? `${value.slice(0, 48)}...` : value);
+    case "bigint": return `${value}l`;
+    case "number": return `${value}d`;
+    case "boolean": return `${value}`;
+  }
+  if (ArrayBuffer.isView(value)) {
+    return `${value.constructor.name}(${value.length})`;
+  }
+  const suffix: string = { Int8: "b", Int16: "s", Int32: "", Float32: "f" }[(value as object)[Symbol.toStringTag as keyof object] as string] ?? "";
+  return `${value.valueOf()}${suffix}`;
+}
+
+function formatRegion(data: Uint8Array, { byteOffset, byteLength, depth, label }: Region): string {
+  const lines: string[] = [];
+  const lineCount: number = Math.max(1, Math.ceil(byteLength / BYTES_PER_LINE));
+  const shown: number = Math.min(lineCount, MAX_LINES_PER_REGION);
+
+  for (let i: number = 0; i < shown; i++) {
+    const offset: number = byteOffset + i * BYTES_PER_LINE;
+    const bytes: Uint8Array = data.subarray(offset, Math.min(offset + BYTES_PER_LINE, byteOffset + byteLength));
+    const hex: string = Array.from(bytes, byte => byte.toString(16).padStart(2, "0")).join(" ");
+    lines.push(`${offset.toString(16).padStart(8, "0")}  ${hex.padEnd(BYTES_PER_LINE * 3 - 1)}  ${i === 0 ? `${"  ".repeat(depth)}${label}` : ""}`.trimEnd());
+  }
+
+  if (lineCount > shown) {
+    lines.push(`${" ".repeat(8)}  ... ${byteLength - shown * BYTES_PER_LINE} more bytes`);
+  }
+
+  return lines.join("\n");
+}
\ No newline at end of file
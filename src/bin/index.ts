@@ -3,18 +3,38 @@
 import { extname } from "node:path";
 import { readFileSync } from "node:fs";
 import { inspect, promisify } from "node:util";
-import { read, write, parse, stringify, NBTData } from "../index.js";
-import { file, nbt, snbt, json, format, space } from "./args.js";
+import { read, write, parse, stringify, toJSON, fromJSON, NBTData, SNBTSyntaxError } from "../index.js";
+import { dump } from "./dump.js";
+import { list, extract, pack } from "./savegame.js";
+import { command, action, file, directory, nbt, snbt, json, typedJson, format, space } from "./args.js";
 
-import type { RootTag } from "../index.js";
+import type { RootTag, JSONNBTData } from "../index.js";
 
 if (file === undefined) {
   file satisfies never;
   throw new TypeError("Missing argument 'input'");
 }
 
+const SNBT_START_PATTERN = /^\s*[{[]/;
+
+const stdoutWriteAsync = promisify(process.stdout.write.bind(process.stdout));
+
+if (command === "savegame") {
+  switch (action) {
+    case "list": await stdoutWriteAsync(`${await list(readFileSync(file), format)}\n`); break;
+    case "extract": await extract(readFileSync(file), directory!, format); break;
+    case "pack": await stdoutWriteAsync(await pack(file as string, format)); break;
+  }
+  process.exit(0);
+}
+
 const buffer: Buffer = readFileSync(file);
 
+if (command === "dump") {
+  await stdoutWriteAsync(`${await dump(buffer, format)}\n`);
+  process.exit(0);
+}
+
 let input: RootTag | NBTData;
 
 if (file === 0) {
@@ -22,7 +42,8 @@ if (file === 0) {
 } else {
   try {
     input = await readExtension(buffer, file);
-  } catch {
+  } catch (error) {
+    if (error instanceof SNBTSyntaxError) throw error;
     input = await readBuffer(buffer);
   }
 }
@@ -30,7 +51,7 @@ if (file === 0) {
 async function readExtension(buffer: Buffer, file: string): Promise<RootTag | NBTData> {
   const extension: string = extname(file);
   switch (extension) {
-    case ".json": return JSON.parse(buffer.toString("utf-8")) as RootTag;
+    case ".json": return readJSON(buffer);
     case ".snbt": return parse(buffer.toString("utf-8"));
     default: return read(buffer);
   }
@@ -38,27 +59,40 @@ async function readExtension(buffer: Buffer, file: string): Promise<RootTag | NB
 
 async function readBuffer(buffer: Buffer): Promise<RootTag | NBTData> {
   try {
-    return JSON.parse(buffer.toString("utf-8")) as RootTag;
+    return readJSON(buffer);
   } catch {
+    const text: string = buffer.toString("utf-8");
     try {
-      return parse(buffer.toString("utf-8"));
-    } catch {
+      return parse(text);
+    } catch (error) {
+      // Text which opens like SNBT is reported with its syntax error, rather than the error from reading it as binary NBT.
+      if (error instanceof SNBTSyntaxError && SNBT_START_PATTERN.test(text)) throw error;
       return read(buffer);
     }
   }
 }
 
+function readJSON(buffer: Buffer): RootTag | NBTData {
+  const json: RootTag | JSONNBTData = JSON.parse(buffer.toString("utf-8"));
+  return isTypedJSON(json) ? fromJSON(json) : json as RootTag;
+}
+
+function isTypedJSON(json: RootTag | JSONNBTData): json is JSONNBTData {
+  const { data } = json as Partial<JSONNBTData>;
+  return "endian" in json && typeof data === "object" && data !== null && (data.type === "compound" || data.type === "list" || (json as Partial<JSONNBTData>).anyRoot === true);
+}
+
 const output: NBTData = new NBTData(input, format);
 
-if (!nbt && !snbt && !json) {
+if (!nbt && !snbt && !json && !typedJson) {
   console.log(inspect(output, { colors: true, depth: null }));
   process.exit(0);
 }
 
-const stdoutWriteAsync = promisify(process.stdout.write.bind(process.stdout));
-
 const result: string | Uint8Array = json
   ? `${JSON.stringify(output.data, null, space)}\n`
+  : typedJson
+  ? `${JSON.stringify(toJSON(output), null, space)}\n`
   : snbt
   ? `${stringify(output, { space })}\n`
   : await write(output);
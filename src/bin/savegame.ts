@@ -0,0 +1,95 @@
+import { mkdir, readFile, readdir, utimes, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+import { SaveGame, readSaveGame, writeSaveGame } from "../index.js";
+
+import type { NBTDataOptions, SaveGameEndian, SaveGameFile, SaveGameOptions } from "../index.js";
+
+/**
+ * The file which records the archive's format and file order when it's extracted, so it can be packed again as it was.
+*/
+const MANIFEST_NAME = "savegame.json";
+
+interface Manifest extends Required<SaveGameOptions> {
+  files: Omit<SaveGameFile, "data">[];
+}
+
+/**
+ * Lists the files of a `savegame.dat` archive, with their byte lengths and timestamps.
+*/
+export async function list(buffer: Uint8Array, format: NBTDataOptions): Promise<string> {
+  const save: SaveGame = await readSaveGame(buffer, getOptions(format));
+  const lines: string[] = [`${save.endian} endian, ${save.compression ?? "uncompressed"}, version ${save.originalVersion}/${save.version}`];
+
+  for (const { name, data, timestamp } of save) {
+    lines.push(`${String(data.byteLength).padStart(10)}  ${new Date(timestamp).toISOString()}  ${name}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Writes each file of a `savegame.dat` archive to a directory, along with a manifest of the archive's format.
+*/
+export async function extract(buffer: Uint8Array, directory: string, format: NBTDataOptions): Promise<void> {
+  const save: SaveGame = await readSaveGame(buffer, getOptions(format));
+  const { endian, compression, originalVersion, version } = save;
+  const manifest: Manifest = { endian, compression, originalVersion, version, files: [] };
+
+  for (const { name, data, timestamp } of save) {
+    const path: string = resolvePath(directory, name);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+    await utimes(path, new Date(timestamp), new Date(timestamp));
+    manifest.files.push({ name, timestamp });
+  }
+
+  await writeFile(join(directory, MANIFEST_NAME), `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
+/**
+ * Packs a directory into a `savegame.dat` archive. The manifest written by `extract()` is used when it's present, otherwise every file in the directory is added.
+*/
+export async function pack(directory: string, format: NBTDataOptions): Promise<Uint8Array> {
+  const manifest: Manifest | null = await readFile(join(directory, MANIFEST_NAME), "utf-8")
+    .then(text => JSON.parse(text) as Manifest)
+    .catch(() => null);
+
+  const entries: Omit<SaveGameFile, "data">[] = manifest?.files ?? await readdir(directory, { recursive: true, withFileTypes: true })
+    .then(entries => entries
+      .filter(entry => entry.isFile() && !(entry.parentPath === directory && entry.name === MANIFEST_NAME))
+      .map(entry => ({ name: relative(directory, join(entry.parentPath, entry.name)).split("\\").join("/"), timestamp: Date.now() })));
+
+  const files: SaveGameFile[] = await Promise.all(entries.map(async ({ name, timestamp }) => {
+    const data: Buffer = await readFile(resolvePath(directory, name));
+    return { name, data: new Uint8Array(data.buffer, data.byteOffset, data.byteLength), timestamp };
+  }));
+
+  const { endian, compression } = getOptions(format);
+  const save = new SaveGame(files, {
+    endian: endian ?? manifest?.endian,
+    compression: compression !== undefined ? compression : manifest?.compression,
+    originalVersion: manifest?.originalVersion,
+    version: manifest?.version
+  });
+
+  return writeSaveGame(save);
+}
+
+function getOptions({ endian, compression }: NBTDataOptions): Pick<SaveGameOptions, "endian" | "compression"> {
+  if (endian !== undefined && endian !== "big" && endian !== "little") {
+    throw new TypeError("Endian option must be 'big' or 'little' for save archives");
+  }
+  return { endian: endian satisfies SaveGameEndian | undefined, compression };
+}
+
+/**
+ * Resolves the path of an archive file within a directory, rejecting names which would escape it.
+*/
+function resolvePath(directory: string, name: string): string {
+  const path: string = resolve(directory, name);
+  const inner: string = relative(resolve(directory), path);
+  if (inner === "" || inner.startsWith("..") || isAbsolute(inner)) {
+    throw new Error(`File name '${name}' is outside of the archive directory`);
+  }
+  return path;
+}
\ No newline at end of file
@@ -1,17 +1,219 @@
+import { compressLZ4BlockStream, compressLZ4Frame, decompressLZ4BlockStream, decompressLZ4Frame, hasLZ4BlockStreamHeader, hasLZ4FrameHeader } from "./lz4.js";
+
+import type { ZlibOptions } from "node:zlib";
+
+/**
+ * The names of the registered compression codecs. Custom codecs can be added to this interface through declaration merging, so their names are accepted by the `compression` options.
+*/
+export interface CompressionCodecs {
+  "gzip": CompressionCodec;
+  "deflate": CompressionCodec;
+  "deflate-raw": CompressionCodec;
+  /**
+   * The LZ4 frame format, as written by the `lz4` command line tool.
+  */
+  "lz4": CompressionCodec;
+  /**
+   * The block stream format of lz4-java, which Java Edition uses for LZ4 region chunks since 1.20.5.
+  */
+  "lz4-block": CompressionCodec;
+}
+
+export type CompressionName = keyof CompressionCodecs & string;
+
+export type CompressionStrategy = "default" | "filtered" | "huffman-only" | "rle" | "fixed";
+
+export interface CompressionOptions {
+  /**
+   * The compression level, from `0` to `9` for the Deflate based formats. Codecs which don't have levels ignore it.
+  */
+  level?: number;
+  /**
+   * The Deflate strategy, which tunes the compressor for specific kinds of data.
+  */
+  strategy?: CompressionStrategy;
+}
+
+export interface CompressionCodec {
+  compress(data: Uint8Array, options: CompressionOptions): Uint8Array | Promise<Uint8Array>;
+  decompress(data: Uint8Array): Uint8Array | Promise<Uint8Array>;
+  /**
+   * Decompresses a stream incrementally. Codecs without it are given the whole stream at once by `decompressStream()`.
+  */
+  decompressStream?(readable: ReadableStream<Uint8Array>): ReadableStream<Uint8Array>;
+  /**
+   * Checks whether a buffer starts with the header of this format, allowing it to be detected automatically.
+  */
+  hasHeader?(data: Uint8Array): boolean;
+}
+
+const codecs = new Map<string, CompressionCodec>();
+
+/**
+ * Registers a compression codec, making it available to `compress()`, `decompress()`, and the `compression` option of the reading and writing functions.
+ *
+ * Registering a codec under an existing name replaces it, including the built-in codecs.
+*/
+export function registerCompression<K extends CompressionName>(name: K, codec: CompressionCodecs[K]): void {
+  if (typeof name !== "string" || name.length === 0) {
+    throw new TypeError("Compression name must be a non-empty string");
+  }
+  if (typeof codec?.compress !== "function" || typeof codec.decompress !== "function") {
+    throw new TypeError("Compression codec must have compress and decompress functions");
+  }
+  codecs.set(name, codec);
+}
+
+/**
+ * Removes a registered compression codec, returning whether it was present.
+*/
+export function unregisterCompression(name: CompressionName): boolean {
+  return codecs.delete(name);
+}
+
+/**
+ * Checks whether a value is the name of a registered compression codec.
+*/
+export function isCompression(value: unknown): value is CompressionName {
+  return typeof value === "string" && codecs.has(value);
+}
+
+/**
+ * Returns the name of the first registered codec whose header the buffer starts with, or `null` if none match.
+*/
+export function detectCompression(data: Uint8Array): CompressionName | null {
+  for (const [name, codec] of codecs) {
+    if (codec.hasHeader?.(data)) {
+      return name as CompressionName;
+    }
+  }
+  return null;
+}
+
 /**
  * Compresses a Uint8Array using a specific compression format.
 */
-export async function compress(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
-  const compressionStream = new CompressionStream(format);
-  return pipeThroughCompressionStream(data, compressionStream);
+export async function compress(data: Uint8Array, format: CompressionName, options: CompressionOptions = {}): Promise<Uint8Array> {
+  return getCodec(format).compress(data, options);
 }
 
 /**
  * Decompresses a Uint8Array using a specific decompression format.
 */
-export async function decompress(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
-  const decompressionStream = new DecompressionStream(format);
-  return pipeThroughCompressionStream(data, decompressionStream);
+export async function decompress(data: Uint8Array, format: CompressionName): Promise<Uint8Array> {
+  return getCodec(format).decompress(data);
+}
+
+/**
+ * Decompresses a ReadableStream using a specific decompression format.
+*/
+export function decompressStream(readable: ReadableStream<Uint8Array>, format: CompressionName): ReadableStream<Uint8Array> {
+  const codec: CompressionCodec = getCodec(format);
+  if (codec.decompressStream !== undefined) {
+    return codec.decompressStream(readable);
+  }
+
+  const reader: ReadableStreamDefaultReader<Uint8Array> = readable.getReader();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunks: Uint8Array[] = [];
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+      }
+      controller.enqueue(await codec.decompress(concat(chunks)));
+      controller.close();
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+    }
+  });
+}
+
+function getCodec(format: CompressionName): CompressionCodec {
+  const codec: CompressionCodec | undefined = codecs.get(format);
+  if (codec === undefined) {
+    throw new TypeError(`Compression format '${format}' isn't registered`);
+  }
+  return codec;
+}
+
+/**
+ * Creates a codec for one of the Deflate based formats. The web compression streams are used when they are available, otherwise `node:zlib` is loaded on demand. The level and strategy options are only supported by `node:zlib`.
+*/
+function createDeflateCodec(format: CompressionFormat, hasHeader: (data: Uint8Array) => boolean): CompressionCodec {
+  return {
+    async compress(data, { level, strategy }) {
+      if (level === undefined && strategy === undefined && typeof CompressionStream !== "undefined") {
+        return pipeThroughCompressionStream(data, new CompressionStream(format));
+      }
+      const zlib: typeof import("node:zlib") = await loadZlib();
+      const options: ZlibOptions = {};
+      if (level !== undefined) {
+        if (!Number.isInteger(level) || level < -1 || level > 9) {
+          throw new TypeError("Compression level option must be an integer between -1 and 9");
+        }
+        options.level = level;
+      }
+      if (strategy !== undefined) {
+        options.strategy = getZlibStrategy(zlib, strategy);
+      }
+      switch (format) {
+        case "gzip": return callZlib(callback => zlib.gzip(data, options, callback));
+        case "deflate": return callZlib(callback => zlib.deflate(data, options, callback));
+        case "deflate-raw": return callZlib(callback => zlib.deflateRaw(data, options, callback));
+      }
+    },
+    async decompress(data) {
+      if (typeof DecompressionStream !== "undefined") {
+        return pipeThroughCompressionStream(data, new DecompressionStream(format));
+      }
+      const zlib: typeof import("node:zlib") = await loadZlib();
+      switch (format) {
+        case "gzip": return callZlib(callback => zlib.gunzip(data, callback));
+        case "deflate": return callZlib(callback => zlib.inflate(data, callback));
+        case "deflate-raw": return callZlib(callback => zlib.inflateRaw(data, callback));
+      }
+    },
+    decompressStream: (typeof DecompressionStream !== "undefined") ? readable => readable.pipeThrough(new DecompressionStream(format)) : undefined,
+    hasHeader
+  };
+}
+
+async function loadZlib(): Promise<typeof import("node:zlib")> {
+  try {
+    return await import("node:zlib");
+  } catch {
+    throw new Error("Couldn't load node:zlib, which is needed when compression streams are unavailable, or when a compression level or strategy is specified");
+  }
+}
+
+function callZlib(run: (callback: (error: Error | null, result: Uint8Array) => void) => void): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    run((error, result) => {
+      if (error !== null) {
+        reject(error);
+      } else {
+        resolve(new Uint8Array(result.buffer, result.byteOffset, result.byteLength));
+      }
+    });
+  });
+}
+
+function getZlibStrategy({ constants }: typeof import("node:zlib"), strategy: CompressionStrategy): number {
+  switch (strategy) {
+    case "default": return constants.Z_DEFAULT_STRATEGY;
+    case "filtered": return constants.Z_FILTERED;
+    case "huffman-only": return constants.Z_HUFFMAN_ONLY;
+    case "rle": return constants.Z_RLE;
+    case "fixed": return constants.Z_FIXED;
+    default: {
+      strategy satisfies never;
+      throw new TypeError("Compression strategy option must be 'default', 'filtered', 'huffman-only', 'rle', or 'fixed'");
+    }
+  }
 }
 
 async function pipeThroughCompressionStream(data: Uint8Array, { readable, writable }: CompressionStream | DecompressionStream): Promise<Uint8Array> {
@@ -21,16 +223,18 @@ async function pipeThroughCompressionStream(data: Uint8Array, { readable, writab
   writer.close().catch(() => {});
 
   const chunks: Uint8Array[] = [];
-  let byteLength: number = 0;
 
   const iterator: AsyncIterable<Uint8Array> = readableStreamToAsyncIterable(readable);
 
   for await (const chunk of iterator) {
     chunks.push(chunk);
-    byteLength += chunk.byteLength;
   }
 
-  const result = new Uint8Array(byteLength);
+  return concat(chunks);
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((byteLength, chunk) => byteLength + chunk.byteLength, 0));
   let byteOffset: number = 0;
 
   for (const chunk of chunks) {
@@ -59,4 +263,10 @@ async function* readableStreamToAsyncGenerator<T>(readable: ReadableStream<T>):
   } finally {
     reader.releaseLock();
   }
-}
\ No newline at end of file
+}
+
+registerCompression("gzip", createDeflateCodec("gzip", data => data[0] === 0x1F && data[1] === 0x8B));
+registerCompression("deflate", createDeflateCodec("deflate", data => data[0] === 0x78));
+registerCompression("deflate-raw", createDeflateCodec("deflate-raw", () => false));
+registerCompression("lz4", { compress: compressLZ4Frame, decompress: decompressLZ4Frame, hasHeader: hasLZ4FrameHeader });
+registerCompression("lz4-block", { compress: compressLZ4BlockStream, decompress: decompressLZ4BlockStream, hasHeader: hasLZ4BlockStreamHeader });
\ No newline at end of file
@@ -0,0 +1,327 @@
+import { NBTData } from "./format.js";
+import { Int32 } from "./primitive.js";
+import { parsePath, formatPath } from "./path.js";
+import { TAG, TAG_TYPE, isTag, getTagType, cloneTag, isTagEqual } from "./tag.js";
+
+import type { NBTPath } from "./path.js";
+import type { Tag, RootTag, RootTagLike, IntTag, ListTag, CompoundTag, ByteArrayTag, IntArrayTag, LongArrayTag } from "./tag.js";
+
+export type DiffOperation = AddOperation | RemoveOperation | ReplaceOperation | TypeChangeOperation | ListInsertOperation | ListDeleteOperation;
+
+/**
+ * Adds a new key to a Compound tag.
+*/
+export interface AddOperation extends CompoundTag {
+  op: "add";
+  path: string;
+  value: Tag;
+}
+
+/**
+ * Removes a key from a Compound tag.
+*/
+export interface RemoveOperation extends CompoundTag {
+  op: "remove";
+  path: string;
+}
+
+/**
+ * Replaces a tag with a different value of the same tag type.
+*/
+export interface ReplaceOperation extends CompoundTag {
+  op: "replace";
+  path: string;
+  value: Tag;
+}
+
+/**
+ * Replaces a tag with a value of a different tag type.
+*/
+export interface TypeChangeOperation extends CompoundTag {
+  op: "type-change";
+  path: string;
+  value: Tag;
+}
+
+/**
+ * Inserts an item into the List tag at the path.
+*/
+export interface ListInsertOperation extends CompoundTag {
+  op: "list-insert";
+  path: string;
+  index: IntTag;
+  value: Tag;
+}
+
+/**
+ * Deletes an item from the List tag at the path.
+*/
+export interface ListDeleteOperation extends CompoundTag {
+  op: "list-delete";
+  path: string;
+  index: IntTag;
+}
+
+type ArrayTag = ByteArrayTag | IntArrayTag | LongArrayTag;
+
+/**
+ * The largest List tag size product which will be aligned item-by-item, larger List tags are replaced as a whole.
+*/
+const MAX_LIST_ALIGNMENT = 1_000_000;
+
+/**
+ * Compares two NBT objects, and returns the operations which turn the first into the second.
+ *
+ * Paths use the NBT path syntax, and the operations are plain Compound tags, so they can be stored with `stringify()` or `write()`.
+*/
+export function diff<T extends RootTagLike = RootTag>(a: T | NBTData<T>, b: T | NBTData<T>): DiffOperation[] {
+  if (a instanceof NBTData) {
+    a = a.data;
+  }
+  if (b instanceof NBTData) {
+    b = b.data;
+  }
+
+  if (typeof a !== "object" || a === null || typeof b !== "object" || b === null) {
+    throw new TypeError("Both parameters must be objects or arrays");
+  }
+
+  const operations: DiffOperation[] = [];
+  diffTag(a as RootTag, b as RootTag, [], operations);
+  return operations;
+}
+
+function diffTag(a: Tag, b: Tag, path: (string | number)[], operations: DiffOperation[]): void {
+  const type: TAG = getTagType(a);
+
+  if (getTagType(b) !== type) {
+    operations.push({ op: "type-change", path: formatPath(path), value: cloneTag(b) });
+    return;
+  }
+
+  switch (type) {
+    case TAG.COMPOUND: return diffCompound(a as CompoundTag, b as CompoundTag, path, operations);
+    case TAG.LIST: return diffList(a as ListTag<Tag>, b as ListTag<Tag>, path, operations);
+    default: {
+      if (isTagEqual(a, b)) return;
+      operations.push({ op: "replace", path: formatPath(path), value: cloneTag(b) });
+    }
+  }
+}
+
+function diffCompound(a: CompoundTag, b: CompoundTag, path: (string | number)[], operations: DiffOperation[]): void {
+  for (const [key, entry] of Object.entries(a)) {
+    if (!isTag(entry)) continue;
+    const other: Tag | undefined = b[key];
+    if (!isTag(other)) {
+      operations.push({ op: "remove", path: formatPath([...path, key]) });
+    } else {
+      diffTag(entry, other, [...path, key], operations);
+    }
+  }
+
+  for (const [key, entry] of Object.entries(b)) {
+    if (!isTag(entry) || isTag(a[key])) continue;
+    operations.push({ op: "add", path: formatPath([...path, key]), value: cloneTag(entry) });
+  }
+}
+
+function diffList(a: ListTag<Tag>, b: ListTag<Tag>, path: (string | number)[], operations: DiffOperation[]): void {
+  const x: Tag[] = a.filter(isTag);
+  const y: Tag[] = b.filter(isTag);
+  const xType: TAG = (x[0] !== undefined) ? getTagType(x[0]) : a[TAG_TYPE] ?? TAG.END;
+  const yType: TAG = (y[0] !== undefined) ? getTagType(y[0]) : b[TAG_TYPE] ?? TAG.END;
+
+  // The item type of a List tag can't change one item at a time, as the List would be mixed in between.
+  if (xType !== yType || x.length * y.length > MAX_LIST_ALIGNMENT) {
+    operations.push({ op: xType !== yType ? "type-change" : "replace", path: formatPath(path), value: cloneTag(b) });
+    return;
+  }
+
+  if (x.length === y.length) {
+    for (const [i, entry] of x.entries()) {
+      diffTag(entry, y[i]!, [...path, i], operations);
+    }
+    return;
+  }
+
+  const { deleted, inserted } = alignList(x, y);
+  const location: string = formatPath(path);
+
+  for (const index of deleted.toReversed()) {
+    operations.push({ op: "list-delete", path: location, index: new Int32(index) });
+  }
+  for (const index of inserted) {
+    operations.push({ op: "list-insert", path: location, index: new Int32(index), value: cloneTag(y[index]!) });
+  }
+}
+
+/**
+ * Finds the longest common subsequence of two List tags, and returns the indices of the items which aren't a part of it.
+*/
+function alignList(x: Tag[], y: Tag[]): { deleted: number[]; inserted: number[]; } {
+  const width: number = y.length + 1;
+  const lengths = new Uint32Array((x.length + 1) * width);
+
+  for (let i: number = x.length - 1; i >= 0; i--) {
+    for (let j: number = y.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = isTagEqual(x[i]!, y[j]!)
+        ? lengths[(i + 1) * width + j + 1]! + 1
+        : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+    }
+  }
+
+  const deleted: number[] = [];
+  const inserted: number[] = [];
+  let i: number = 0;
+  let j: number = 0;
+
+  while (i < x.length && j < y.length) {
+    if (isTagEqual(x[i]!, y[j]!)) {
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+      deleted.push(i++);
+    } else {
+      inserted.push(j++);
+    }
+  }
+  while (i < x.length) deleted.push(i++);
+  while (j < y.length) inserted.push(j++);
+
+  return { deleted, inserted };
+}
+
+/**
+ * Applies the operations from `diff()` to an NBT object, in order. The object is changed in place and returned.
+ *
+ * A new object is returned only when the root tag itself is replaced.
+*/
+export function patch<T extends RootTagLike = RootTag>(data: T, operations: readonly DiffOperation[]): T;
+export function patch<T extends RootTagLike = RootTag>(data: NBTData<T>, operations: readonly DiffOperation[]): NBTData<T>;
+export function patch<T extends RootTagLike = RootTag>(data: T | NBTData<T>, operations: readonly DiffOperation[]): T | NBTData<T> {
+  if (!Array.isArray(operations)) {
+    throw new TypeError("Operations must be an array");
+  }
+
+  if (data instanceof NBTData) {
+    data.data = patch(data.data, operations);
+    return data;
+  }
+
+  let root: Tag = data as RootTag;
+
+  for (const operation of operations) {
+    root = applyOperation(root, operation);
+  }
+
+  return root as T;
+}
+
+function applyOperation(root: Tag, operation: DiffOperation): Tag {
+  const { op, path } = operation;
+  const nodes: NBTPath = parsePath(path);
+
+  if (nodes.some(node => node.type !== "key" && node.type !== "index")) {
+    throw new Error(`Expected a path of only keys and indices for '${op}' operation, encountered '${path}'`);
+  }
+
+  const keys: (string | number)[] = nodes.map(node => node.type === "key" ? node.name : (node as { index: number; }).index);
+
+  if (op === "list-insert" || op === "list-delete") {
+    const list: Tag | undefined = locate(root, keys, path);
+    if (!Array.isArray(list)) {
+      throw new TypeError(`Expected a List tag at '${path}' for '${op}' operation`);
+    }
+    const index: number = Number(operation.index.valueOf());
+    if (!Number.isInteger(index) || index < 0 || index > list.length - (op === "list-delete" ? 1 : 0)) {
+      throw new RangeError(`Index ${index} is out of bounds for the List tag at '${path}'`);
+    }
+    if (op === "list-insert") {
+      list.splice(index, 0, cloneTag(operation.value));
+    } else {
+      list.splice(index, 1);
+    }
+    return root;
+  }
+
+  const key: string | number | undefined = keys.pop();
+
+  if (key === undefined) {
+    if (op !== "replace" && op !== "type-change") {
+      throw new TypeError(`Cannot apply '${op}' operation to the root tag`);
+    }
+    return cloneTag(operation.value);
+  }
+
+  const parent: Tag | undefined = locate(root, keys, path);
+
+  if (typeof key === "number") {
+    if (!Array.isArray(parent) && !isArrayTag(parent)) {
+      throw new TypeError(`Expected a List or Array tag as the parent of '${path}'`);
+    }
+    if (op !== "replace" && op !== "type-change") {
+      throw new TypeError(`Cannot apply '${op}' operation to a List item, use 'list-insert' or 'list-delete' instead`);
+    }
+    if (key < 0 || key >= parent.length) {
+      throw new RangeError(`Index ${key} is out of bounds for the parent of '${path}'`);
+    }
+    if (Array.isArray(parent)) {
+      parent[key] = cloneTag(operation.value);
+    } else if (parent instanceof BigInt64Array || parent instanceof BigUint64Array) {
+      parent[key] = operation.value as bigint;
+    } else {
+      parent[key] = Number(operation.value.valueOf());
+    }
+    return root;
+  }
+
+  if (getTagType(parent) !== TAG.COMPOUND) {
+    throw new TypeError(`Expected a Compound tag as the parent of '${path}'`);
+  }
+
+  const compound = parent as CompoundTag;
+
+  switch (op) {
+    case "add": {
+      if (isTag(compound[key])) {
+        throw new Error(`Cannot add '${path}', as it already exists`);
+      }
+      compound[key] = cloneTag(operation.value);
+      break;
+    }
+    case "remove": {
+      if (!isTag(compound[key])) {
+        throw new Error(`Cannot remove '${path}', as it doesn't exist`);
+      }
+      delete compound[key];
+      break;
+    }
+    case "replace":
+    case "type-change": {
+      if (!isTag(compound[key])) {
+        throw new Error(`Cannot replace '${path}', as it doesn't exist`);
+      }
+      compound[key] = cloneTag(operation.value);
+      break;
+    }
+  }
+
+  return root;
+}
+
+function locate(root: Tag, keys: (string | number)[], path: string): Tag | undefined {
+  let value: Tag | undefined = root;
+  for (const key of keys) {
+    value = (value as CompoundTag | ListTag<Tag> | undefined)?.[key as keyof typeof value];
+    if (!isTag(value)) {
+      throw new Error(`Path '${path}' doesn't exist in the NBT object`);
+    }
+  }
+  return value;
+}
+
+function isArrayTag(value: unknown): value is ArrayTag {
+  const type: TAG | null = getTagType(value);
+  return type === TAG.BYTE_ARRAY || type === TAG.INT_ARRAY || type === TAG.LONG_ARRAY;
+}
\ No newline at end of file
@@ -0,0 +1,18 @@
+/**
+ * Whether the platform stores multi-byte numbers in little-endian order, which determines whether typed arrays can view NBT bytes directly.
+*/
+export const HOST_LITTLE_ENDIAN: boolean = new Uint8Array(Uint32Array.of(1).buffer)[0] === 1;
+
+/**
+ * Reverses the byte order of each element in place, for elements of `byteSize` bytes.
+*/
+export function swapEndian(data: Uint8Array, byteSize: 2 | 4 | 8): Uint8Array {
+  for (let i: number = 0; i + byteSize <= data.byteLength; i += byteSize) {
+    for (let j: number = i, k: number = i + byteSize - 1; j < k; j++, k--) {
+      const byte: number = data[j]!;
+      data[j] = data[k]!;
+      data[k] = byte;
+    }
+  }
+  return data;
+}
\ No newline at end of file
@@ -1,8 +1,15 @@
-import type { RootTag, RootTagLike } from "./tag.js";
+import type { TAG, RootTag, AnyRootTagLike } from "./tag.js";
+import type { CompressionName } from "./compression.js";
+import type { Framing } from "./framing.js";
 
 export type RootName = string | null;
 export type Endian = "big" | "little" | "little-varint";
-export type Compression = CompressionFormat | null;
+export type Compression = CompressionName | null;
+
+/**
+ * The encoding of String tags and names. Java Edition uses Modified UTF-8, which stores supplementary characters as surrogate pairs and the null character as two bytes, while Bedrock Edition uses standard UTF-8.
+*/
+export type StringEncoding = "mutf-8" | "utf-8";
 export type BedrockLevel = boolean;
 
 export interface Format {
@@ -10,20 +17,79 @@ export interface Format {
   endian: Endian;
   compression: Compression;
   bedrockLevel: BedrockLevel;
+  stringEncoding: StringEncoding;
 }
 
-export interface NBTDataOptions extends Partial<Format> {}
+export interface NBTDataOptions extends Partial<Format> {
+  /**
+   * Allows the root to be any tag type, rather than only a List or Compound tag.
+  */
+  anyRoot?: boolean;
+  /**
+   * A custom header written before the root, such as a length prefix. The Bedrock Level header is used in its place when the `bedrockLevel` option is enabled.
+  */
+  framing?: Framing | null;
+  /**
+   * The version number stored in the Bedrock Level header, or in a custom header which has one. When writing a Bedrock Level header without it, the version is taken from the root's `StorageVersion` Int tag.
+  */
+  headerVersion?: number | null;
+}
+
+/**
+ * The format of Java Edition network NBT since 1.20.2, which has a nameless and uncompressed root of any tag type.
+*/
+export const NETWORK_FORMAT: Readonly<Format & { anyRoot: true; }> = Object.freeze({
+  rootName: null,
+  endian: "big",
+  compression: null,
+  bedrockLevel: false,
+  stringEncoding: "mutf-8",
+  anyRoot: true
+});
+
+/**
+ * Returns the string encoding used with an endian type when it isn't specified, which is Modified UTF-8 for Java Edition's big endian NBT, and UTF-8 for Bedrock Edition's little endian NBT.
+ *
+ * @internal
+*/
+export function getDefaultStringEncoding(endian: Endian): StringEncoding {
+  return endian === "big" ? "mutf-8" : "utf-8";
+}
+
+/**
+ * The byte offsets of each tag within the decompressed buffer it was read from, keyed by the tag's NBT path. The root tag has the empty path `""`.
+*/
+export type SourceMap = Map<string, SourceMapEntry>;
+
+export interface SourceMapEntry {
+  readonly type: TAG;
+  /**
+   * The offset of the tag type byte, or `null` for List tag items, which don't have a header.
+  */
+  readonly headerOffset: number | null;
+  readonly payloadOffset: number;
+  /**
+   * The byte length of the payload, not including the header.
+  */
+  readonly byteLength: number;
+}
 
 /**
  * A container which maintains how a given NBT object is formatted.
 */
-export class NBTData<T extends RootTagLike = RootTag> implements Format {
+export class NBTData<T extends AnyRootTagLike = RootTag> implements Format {
   data: T;
   rootName: RootName;
   endian: Endian;
   compression: Compression;
   bedrockLevel: BedrockLevel;
+  stringEncoding: StringEncoding;
+  anyRoot: boolean;
+  framing: Framing | null;
+  headerVersion: number | null;
   #byteOffset: typeof this.byteOffset = null;
+  #byteRange: typeof this.byteRange = null;
+  #sourceMap: typeof this.sourceMap = null;
 
   constructor(data: T | NBTData<T>, options: NBTDataOptions = {}) {
     if (data instanceof NBTData) {
@@ -39,16 +105,33 @@ export class NBTData<T extends RootTagLike = RootTag> implements Format {
       if (options.bedrockLevel === undefined) {
         options.bedrockLevel = data.bedrockLevel;
       }
+      // A new endian type brings its own default string encoding.
+      if (options.stringEncoding === undefined && options.endian === data.endian) {
+        options.stringEncoding = data.stringEncoding;
+      }
+      if (options.anyRoot === undefined) {
+        options.anyRoot = data.anyRoot;
+      }
+      if (options.framing === undefined) {
+        options.framing = data.framing;
+      }
+      if (options.headerVersion === undefined) {
+        options.headerVersion = data.headerVersion;
+      }
       data = data.data;
     }
 
-    const { rootName = "", endian = "big", compression = null, bedrockLevel = false } = options;
+    const { rootName = "", endian = "big", compression = null, bedrockLevel = false, stringEncoding = getDefaultStringEncoding(endian), anyRoot = false, framing = null, headerVersion = null } = options;
 
     this.data = data;
     this.rootName = rootName;
     this.endian = endian;
     this.compression = compression;
     this.bedrockLevel = bedrockLevel;
+    this.stringEncoding = stringEncoding;
+    this.anyRoot = anyRoot;
+    this.framing = framing;
+    this.headerVersion = headerVersion;
   }
 
   get byteOffset(): number | null {
@@ -62,6 +145,34 @@ export class NBTData<T extends RootTagLike = RootTag> implements Format {
     this.#byteOffset = value;
   }
 
+  /**
+   * The start and end byte offsets of the root within the buffer it was read from.
+  */
+  get byteRange(): readonly [start: number, end: number] | null {
+    return this.#byteRange;
+  }
+
+  /**
+   * @internal
+   */
+  set byteRange(value: typeof this.byteRange) {
+    this.#byteRange = value;
+  }
+
+  /**
+   * The source map of the tags within the buffer, when read with the `sourceMap` option.
+  */
+  get sourceMap(): SourceMap | null {
+    return this.#sourceMap;
+  }
+
+  /**
+   * @internal
+   */
+  set sourceMap(value: typeof this.sourceMap) {
+    this.#sourceMap = value;
+  }
+
   get [Symbol.toStringTag](): "NBTData" {
     return "NBTData";
   }
@@ -0,0 +1,137 @@
+/**
+ * A header which is written before an NBT root, such as the header of Bedrock Edition `level.dat` files, or the length prefix of a network message.
+ *
+ * The header is applied to the uncompressed NBT, and it's written again for each root of a buffer with multiple roots.
+*/
+export interface Framing {
+  /**
+   * Reads the header from the start of the buffer, which may extend past the end of the framed root.
+  */
+  readHeader(data: Uint8Array): FrameHeader;
+  /**
+   * Creates the header for a root of the given byte length. The version is the `headerVersion` of the written data, or `null` if it doesn't have one.
+  */
+  writeHeader(payloadLength: number, version: number | null): Uint8Array;
+}
+
+export interface FrameHeader {
+  /**
+   * The byte length of the header itself.
+  */
+  byteLength: number;
+  /**
+   * The byte length of the root which follows the header, or `null` if the header doesn't record it.
+  */
+  payloadLength: number | null;
+  /**
+   * The version number stored in the header, or `null` if the header doesn't have one.
+  */
+  version: number | null;
+}
+
+/**
+ * The header of Bedrock Edition `level.dat` files, which is the storage version followed by the byte length of the root, both as little endian unsigned ints.
+*/
+export const BEDROCK_LEVEL_FRAMING: Readonly<Framing> = Object.freeze({
+  readHeader(data: Uint8Array): FrameHeader {
+    if (data.byteLength < 8) {
+      throw new Error("Ran out of bytes to read, unexpectedly reached the end of the buffer");
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    return { byteLength: 8, payloadLength: view.getUint32(4, true), version: view.getUint32(0, true) };
+  },
+  writeHeader(payloadLength: number, version: number | null): Uint8Array {
+    if (version === null || !Number.isInteger(version) || version < 0 || version > 0xFFFFFFFF) {
+      throw new TypeError("Bedrock Level storage version must be an unsigned 32-bit integer");
+    }
+    const header = new Uint8Array(8);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, version, true);
+    view.setUint32(4, payloadLength, true);
+    return header;
+  }
+});
+
+export interface LengthPrefixOptions {
+  /**
+   * The byte length of the prefix, or `"varint"` for an unsigned LEB128 prefix.
+  */
+  byteLength: 1 | 2 | 4 | "varint";
+  /**
+   * The byte order of fixed length prefixes. Defaults to `"big"`.
+  */
+  endian?: "big" | "little";
+}
+
+/**
+ * Creates a framing which prefixes each root with its byte length.
+*/
+export function createLengthPrefixFraming(options: LengthPrefixOptions): Framing {
+  const { byteLength, endian = "big" } = options;
+
+  if (byteLength !== 1 && byteLength !== 2 && byteLength !== 4 && byteLength !== "varint") {
+    byteLength satisfies never;
+    throw new TypeError("Byte Length option must be 1, 2, 4, or 'varint'");
+  }
+  if (endian !== "big" && endian !== "little") {
+    endian satisfies never;
+    throw new TypeError("Endian option must be 'big' or 'little'");
+  }
+
+  const littleEndian: boolean = endian === "little";
+
+  if (byteLength === "varint") {
+    return {
+      readHeader(data) {
+        let payloadLength: number = 0;
+        for (let i: number = 0; i < 5; i++) {
+          if (i >= data.byteLength) {
+            throw new Error("Ran out of bytes to read, unexpectedly reached the end of the buffer");
+          }
+          const byte: number = data[i]!;
+          payloadLength += (byte & 0x7F) * 2 ** (i * 7);
+          if ((byte & 0x80) === 0) {
+            return { byteLength: i + 1, payloadLength, version: null };
+          }
+        }
+        throw new Error("Length prefix varint is longer than 5 bytes");
+      },
+      writeHeader(payloadLength) {
+        const bytes: number[] = [];
+        do {
+          let byte: number = payloadLength & 0x7F;
+          payloadLength = Math.floor(payloadLength / 0x80);
+          if (payloadLength !== 0) byte |= 0x80;
+          bytes.push(byte);
+        } while (payloadLength !== 0);
+        return new Uint8Array(bytes);
+      }
+    };
+  }
+
+  const max: number = 2 ** (byteLength * 8) - 1;
+
+  return {
+    readHeader(data) {
+      if (data.byteLength < byteLength) {
+        throw new Error("Ran out of bytes to read, unexpectedly reached the end of the buffer");
+      }
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      const payloadLength: number = (byteLength === 1) ? view.getUint8(0) : (byteLength === 2) ? view.getUint16(0, littleEndian) : view.getUint32(0, littleEndian);
+      return { byteLength, payloadLength, version: null };
+    },
+    writeHeader(payloadLength) {
+      if (payloadLength > max) {
+        throw new RangeError(`Root byte length ${payloadLength} doesn't fit within a ${byteLength} byte length prefix`);
+      }
+      const header = new Uint8Array(byteLength);
+      const view = new DataView(header.buffer);
+      switch (byteLength) {
+        case 1: view.setUint8(0, payloadLength); break;
+        case 2: view.setUint16(0, payloadLength, littleEndian); break;
+        case 4: view.setUint32(0, payloadLength, littleEndian); break;
+      }
+      return header;
+    }
+  };
+}
\ No newline at end of file
@@ -5,4 +5,19 @@ export * from "./stringify.js";
 export * from "./format.js";
 export * from "./tag.js";
 export * from "./primitive.js";
-export * from "./compression.js";
\ No newline at end of file
+export * from "./compression.js";
+export * from "./region.js";
+export * from "./stream.js";
+export * from "./path.js";
+export * from "./diff.js";
+export * from "./schema.js";
+export * from "./json.js";
+export * from "./leveldb.js";
+export * from "./bedrock.js";
+export * from "./lz4.js";
+export * from "./packed.js";
+export * from "./schematic.js";
+export * from "./subchunk.js";
+export * from "./framing.js";
+export * from "./savegame.js";
+export * from "./unicode.js";
\ No newline at end of file
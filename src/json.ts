@@ -0,0 +1,292 @@
+import { NBTData } from "./format.js";
+import { Int8, Int16, Int32, Float32 } from "./primitive.js";
+import { TAG, TAG_TYPE, isTag, getTagType } from "./tag.js";
+import { isCompression } from "./compression.js";
+
+import type { Format, StringEncoding } from "./format.js";
+import type { Tag, RootTag, AnyRootTagLike, ByteTag, ShortTag, IntTag, FloatTag, DoubleTag, ByteArrayTag, StringTag, ListTag, CompoundTag, IntArrayTag, LongArrayTag } from "./tag.js";
+
+/**
+ * The typed JSON encoding of an NBT object, along with its format.
+ *
+ * Every tag is an object of `{ type, value }`, where `type` is the lowercase tag type name. List tags also have an `itemType`, so empty List tags keep their item type. Long tags and Long Array items are decimal strings, and the float values `NaN`, `Infinity`, `-Infinity`, and `-0` are strings, as JSON can't represent them.
+ *
+ * ```json
+ * { "rootName": "", "endian": "big", "compression": null, "bedrockLevel": false, "stringEncoding": "mutf-8", "anyRoot": false, "headerVersion": null, "data": { "type": "compound", "value": { "Pos": { "type": "list", "itemType": "double", "value": [] } } } }
+ * ```
+*/
+export interface JSONNBTData extends Omit<Format, "stringEncoding"> {
+  /**
+   * Defaults to the string encoding of the endian type, for JSON written before this property was added.
+  */
+  stringEncoding?: StringEncoding;
+  /**
+   * Allows `data` to be any tag type, rather than only a List or Compound tag. Defaults to `false`, for JSON written before this property was added.
+  */
+  anyRoot?: boolean;
+  /**
+   * The version number of the Bedrock Level header, or of a custom header which has one. Defaults to `null`, for JSON written before this property was added.
+  */
+  headerVersion?: number | null;
+  data: JSONTag;
+}
+
+export type JSONTag = JSONByteTag | JSONShortTag | JSONIntTag | JSONLongTag | JSONFloatTag | JSONDoubleTag | JSONByteArrayTag | JSONStringTag | JSONListTag | JSONCompoundTag | JSONIntArrayTag | JSONLongArrayTag;
+
+export type JSONTagType = Lowercase<Exclude<keyof typeof TAG, "END">>;
+
+export type JSONFloat = number | "NaN" | "Infinity" | "-Infinity" | "-0";
+
+export interface JSONByteTag {
+  type: "byte";
+  value: number;
+}
+
+export interface JSONShortTag {
+  type: "short";
+  value: number;
+}
+
+export interface JSONIntTag {
+  type: "int";
+  value: number;
+}
+
+export interface JSONLongTag {
+  type: "long";
+  value: string;
+}
+
+export interface JSONFloatTag {
+  type: "float";
+  value: JSONFloat;
+}
+
+export interface JSONDoubleTag {
+  type: "double";
+  value: JSONFloat;
+}
+
+export interface JSONByteArrayTag {
+  type: "byte_array";
+  value: number[];
+}
+
+export interface JSONStringTag {
+  type: "string";
+  value: string;
+}
+
+export interface JSONListTag {
+  type: "list";
+  itemType: JSONTagType | "end";
+  value: JSONTag[];
+}
+
+export interface JSONCompoundTag {
+  type: "compound";
+  value: { [name: string]: JSONTag; };
+}
+
+export interface JSONIntArrayTag {
+  type: "int_array";
+  value: number[];
+}
+
+export interface JSONLongArrayTag {
+  type: "long_array";
+  value: string[];
+}
+
+/**
+ * Converts an NBT object into its typed JSON encoding, which keeps every tag type and the format of the data.
+ *
+ * Pass the result to `JSON.stringify()` to get the JSON text, and to `fromJSON()` to get the NBT object back.
+*/
+export function toJSON<T extends AnyRootTagLike = RootTag>(data: T | NBTData<T>): JSONNBTData {
+  const nbt: NBTData<T> = new NBTData(data);
+
+  if (!nbt.anyRoot && (typeof nbt.data !== "object" || nbt.data === null)) {
+    throw new TypeError("First parameter must be an object or array");
+  }
+
+  const { rootName, endian, compression, bedrockLevel, stringEncoding, anyRoot, headerVersion } = nbt;
+  return { rootName, endian, compression, bedrockLevel, stringEncoding, anyRoot, headerVersion, data: toJSONTag(nbt.data as Tag) };
+}
+
+function toJSONTag(value: Tag): JSONTag {
+  const type: TAG = getTagType(value);
+
+  switch (type) {
+    case TAG.BYTE: return { type: "byte", value: Number(value.valueOf()) };
+    case TAG.SHORT: return { type: "short", value: (value as ShortTag).valueOf() };
+    case TAG.INT: return { type: "int", value: (value as IntTag).valueOf() };
+    case TAG.LONG: return { type: "long", value: `${BigInt.asIntN(64, value as bigint)}` };
+    case TAG.FLOAT: return { type: "float", value: toJSONFloat((value as FloatTag).valueOf()) };
+    case TAG.DOUBLE: return { type: "double", value: toJSONFloat(value as DoubleTag) };
+    case TAG.BYTE_ARRAY: return { type: "byte_array", value: [...new Int8Array((value as ByteArrayTag).buffer, (value as ByteArrayTag).byteOffset, (value as ByteArrayTag).byteLength)] };
+    case TAG.STRING: return { type: "string", value: value as StringTag };
+    case TAG.LIST: {
+      const list = value as ListTag<Tag>;
+      const items: Tag[] = list.filter(isTag);
+      const itemType: TAG = list[TAG_TYPE] ?? (items[0] !== undefined ? getTagType(items[0]) : TAG.END);
+      return { type: "list", itemType: getJSONTagType(itemType), value: items.map(toJSONTag) };
+    }
+    case TAG.COMPOUND: {
+      const compound: JSONCompoundTag["value"] = {};
+      for (const [name, entry] of Object.entries(value as CompoundTag)) {
+        if (!isTag(entry)) continue;
+        compound[name] = toJSONTag(entry);
+      }
+      return { type: "compound", value: compound };
+    }
+    case TAG.INT_ARRAY: return { type: "int_array", value: [...new Int32Array((value as IntArrayTag).buffer, (value as IntArrayTag).byteOffset, (value as IntArrayTag).length)] };
+    case TAG.LONG_ARRAY: return { type: "long_array", value: Array.from(new BigInt64Array((value as LongArrayTag).buffer, (value as LongArrayTag).byteOffset, (value as LongArrayTag).length), entry => `${entry}`) };
+    default: throw new Error(`Encountered unsupported tag type '${type}'`);
+  }
+}
+
+function toJSONFloat(value: number): JSONFloat {
+  if (Number.isNaN(value)) return "NaN";
+  if (Object.is(value, -0)) return "-0";
+  if (!Number.isFinite(value)) return value > 0 ? "Infinity" : "-Infinity";
+  return value;
+}
+
+function getJSONTagType(type: TAG): JSONTagType | "end" {
+  return TAG[type].toLowerCase() as JSONTagType | "end";
+}
+
+/**
+ * Converts the typed JSON encoding from `toJSON()`, either as an object or as JSON text, back into an NBT object.
+*/
+export function fromJSON<T extends AnyRootTagLike = RootTag>(json: JSONNBTData | string): NBTData<T> {
+  if (typeof json === "string") {
+    json = JSON.parse(json) as JSONNBTData;
+  }
+
+  if (typeof json !== "object" || json === null) {
+    throw new TypeError("First parameter must be an object or a JSON string");
+  }
+
+  const { rootName, endian, compression, bedrockLevel, stringEncoding, anyRoot, headerVersion, data } = json;
+
+  if (typeof rootName !== "string" && rootName !== null) {
+    rootName satisfies never;
+    throw new TypeError("Root Name must be a string or null");
+  }
+  if (endian !== "big" && endian !== "little" && endian !== "little-varint") {
+    endian satisfies never;
+    throw new TypeError("Endian must be a valid endian type");
+  }
+  if (compression !== null && !isCompression(compression)) {
+    compression satisfies never;
+    throw new TypeError("Compression must be a valid compression type");
+  }
+  if (typeof bedrockLevel !== "boolean") {
+    bedrockLevel satisfies never;
+    throw new TypeError("Bedrock Level must be a boolean");
+  }
+  if (stringEncoding !== undefined && stringEncoding !== "mutf-8" && stringEncoding !== "utf-8") {
+    stringEncoding satisfies never;
+    throw new TypeError("String Encoding must be 'mutf-8' or 'utf-8'");
+  }
+  if (anyRoot !== undefined && typeof anyRoot !== "boolean") {
+    anyRoot satisfies never;
+    throw new TypeError("Any Root must be a boolean");
+  }
+  if (headerVersion !== undefined && headerVersion !== null && (!Number.isInteger(headerVersion) || headerVersion < 0)) {
+    throw new TypeError("Header Version must be a non-negative integer or null");
+  }
+  if (!anyRoot && data?.type !== "compound" && data?.type !== "list") {
+    throw new TypeError("Root tag must be a Compound or List tag");
+  }
+
+  return new NBTData<T>(fromJSONTag(data, "") as T, { rootName, endian, compression, bedrockLevel, stringEncoding, anyRoot, headerVersion });
+}
+
+function fromJSONTag(tag: JSONTag, path: string): Tag {
+  if (typeof tag !== "object" || tag === null) {
+    throw new TypeError(`Expected a typed JSON tag at '${path}', encountered '${tag}'`);
+  }
+
+  const { type, value } = tag;
+
+  switch (type) {
+    case "byte": return new Int8(assertNumber(value, path)) as ByteTag;
+    case "short": return new Int16(assertNumber(value, path)) as ShortTag;
+    case "int": return new Int32(assertNumber(value, path)) as IntTag;
+    case "long": return BigInt.asIntN(64, BigInt(assertString(value, path)));
+    case "float": return new Float32(fromJSONFloat(value, path)) as FloatTag;
+    case "double": return fromJSONFloat(value, path);
+    case "byte_array": return Int8Array.from(assertArray(value, path), entry => assertNumber(entry, path));
+    case "string": return assertString(value, path);
+    case "list": {
+      const itemType: number = TAG[tag.itemType?.toUpperCase() as keyof typeof TAG];
+      if (itemType === undefined) {
+        throw new TypeError(`Encountered unsupported List item type '${tag.itemType}' at '${path}'`);
+      }
+      const list: ListTag<Tag> = assertArray(value, path).map((entry, i) => {
+        const entryType: unknown = (typeof entry === "object" && entry !== null) ? (entry as Partial<JSONTag>).type : undefined;
+        if (entryType !== tag.itemType) {
+          throw new TypeError(`Expected List item type '${tag.itemType}' at '${path}[${i}]', encountered '${entryType}'`);
+        }
+        return fromJSONTag(entry as JSONTag, `${path}[${i}]`);
+      });
+      Object.defineProperty(list, TAG_TYPE, {
+        configurable: true,
+        enumerable: false,
+        writable: true,
+        value: itemType
+      });
+      return list;
+    }
+    case "compound": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        throw new TypeError(`Expected an object for the Compound tag at '${path}'`);
+      }
+      const compound: CompoundTag = {};
+      for (const [name, entry] of Object.entries(value)) {
+        compound[name] = fromJSONTag(entry, path === "" ? name : `${path}.${name}`);
+      }
+      return compound;
+    }
+    case "int_array": return Int32Array.from(assertArray(value, path), entry => assertNumber(entry, path));
+    case "long_array": return BigInt64Array.from(assertArray(value, path), entry => BigInt.asIntN(64, BigInt(assertString(entry, path))));
+    default: {
+      tag satisfies never;
+      throw new TypeError(`Encountered unsupported tag type '${type}' at '${path}'`);
+    }
+  }
+}
+
+function fromJSONFloat(value: unknown, path: string): number {
+  switch (value) {
+    case "NaN": return NaN;
+    case "Infinity": return Infinity;
+    case "-Infinity": return -Infinity;
+    case "-0": return -0;
+    default: return assertNumber(value, path);
+  }
+}
+
+function assertNumber(value: unknown, path: string): number {
+  if (typeof value !== "number") {
+    throw new TypeError(`Expected a number at '${path}', encountered '${value}'`);
+  }
+  return value;
+}
+
+function assertString(value: unknown, path: string): string {
+  if (typeof value !== "string") {
+    throw new TypeError(`Expected a string at '${path}', encountered '${value}'`);
+  }
+  return value;
+}
+
+function assertArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new TypeError(`Expected an array at '${path}', encountered '${value}'`);
+  }
+  return value;
+}
\ No newline at end of file
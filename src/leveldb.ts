@@ -0,0 +1,722 @@
+import { compress, decompress } from "./compression.js";
+
+const LOG_BLOCK_LENGTH = 32768;
+const LOG_HEADER_LENGTH = 7;
+const TABLE_MAGIC = 0xdb4775248b80fb57n;
+const FOOTER_LENGTH = 48;
+const BLOCK_TRAILER_LENGTH = 5;
+const TARGET_BLOCK_LENGTH = 4096;
+const RESTART_INTERVAL = 16;
+const COMPARATOR = "leveldb.BytewiseComparator";
+
+export type LevelDBCompression = "deflate" | "deflate-raw" | null;
+
+export interface LevelDBWriteOptions {
+  /**
+   * The compression of the table's data blocks. Mojang's LevelDB uses `deflate-raw` (block type 4), and also reads `deflate` (block type 2).
+  */
+  compression?: LevelDBCompression;
+}
+
+enum LogRecordType {
+  ZERO = 0,
+  FULL,
+  FIRST,
+  MIDDLE,
+  LAST
+}
+
+enum ValueType {
+  DELETION = 0,
+  VALUE
+}
+
+enum VersionEditTag {
+  COMPARATOR = 1,
+  LOG_NUMBER,
+  NEXT_FILE_NUMBER,
+  LAST_SEQUENCE,
+  COMPACT_POINTER,
+  DELETED_FILE,
+  NEW_FILE,
+  PREV_LOG_NUMBER = 9
+}
+
+interface BlockHandle {
+  byteOffset: number;
+  byteLength: number;
+}
+
+interface InternalEntry {
+  sequence: number;
+  value: Uint8Array | null;
+}
+
+/**
+ * The key-value contents of a LevelDB database, such as the `db` directory of a Bedrock Edition world.
+ *
+ * Keys are ordered with LevelDB's bytewise comparator. String keys are encoded as UTF-8. Use `readLevelDB()` to load the files of a database, and `writeLevelDB()` to save it as a compacted table.
+*/
+export class LevelDB {
+  /**
+   * The last sequence number used by the database, which is kept when it's written back.
+  */
+  sequence: number = 0;
+  /**
+   * The next file number of the database, which the files from `writeLevelDB()` are numbered from, so they come after the files it was read from.
+  */
+  fileNumber: number = 1;
+  #entries = new Map<string, Uint8Array>();
+
+  constructor(entries: Iterable<readonly [Uint8Array, Uint8Array]> = []) {
+    for (const [key, value] of entries) {
+      this.set(key, value);
+    }
+  }
+
+  get size(): number {
+    return this.#entries.size;
+  }
+
+  has(key: Uint8Array | string): boolean {
+    return this.#entries.has(toKeyString(key));
+  }
+
+  get(key: Uint8Array | string): Uint8Array | undefined {
+    return this.#entries.get(toKeyString(key));
+  }
+
+  set(key: Uint8Array | string, value: Uint8Array): this {
+    if (!(value instanceof Uint8Array)) {
+      value satisfies never;
+      throw new TypeError("Value must be a Uint8Array");
+    }
+    this.#entries.set(toKeyString(key), value);
+    return this;
+  }
+
+  delete(key: Uint8Array | string): boolean {
+    return this.#entries.delete(toKeyString(key));
+  }
+
+  clear(): void {
+    this.#entries.clear();
+  }
+
+  /**
+   * Lists the keys of the database in comparator order.
+  */
+  *keys(): IterableIterator<Uint8Array> {
+    for (const [key] of this.entries()) {
+      yield key;
+    }
+  }
+
+  /**
+   * Lists the entries of the database in comparator order.
+  */
+  *entries(): IterableIterator<[Uint8Array, Uint8Array]> {
+    const keys: string[] = [...this.#entries.keys()].sort(compareKeys);
+    for (const key of keys) {
+      yield [fromKeyString(key), this.#entries.get(key)!];
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[Uint8Array, Uint8Array]> {
+    return this.entries();
+  }
+
+  get [Symbol.toStringTag](): "LevelDB" {
+    return "LevelDB";
+  }
+}
+
+/**
+ * Reads a LevelDB database from its files, keyed by their file name (`CURRENT`, `MANIFEST-000001`, `000005.ldb`, `000006.log`, ...).
+ *
+ * The tables listed by the current manifest are merged with the write batches of the live log files, so the result reflects the latest state of every key.
+*/
+export async function readLevelDB(files: Map<string, Uint8Array>): Promise<LevelDB> {
+  if (!(files instanceof Map)) {
+    files satisfies never;
+    throw new TypeError("First parameter must be a Map of file names to Uint8Arrays");
+  }
+
+  const current: Uint8Array | undefined = files.get("CURRENT");
+  if (current === undefined) {
+    throw new Error("Missing LevelDB file 'CURRENT'");
+  }
+
+  const manifestName: string = new TextDecoder().decode(current).trim();
+  const manifest: Uint8Array | undefined = files.get(manifestName);
+  if (manifest === undefined) {
+    throw new Error(`Missing LevelDB manifest file '${manifestName}'`);
+  }
+
+  const tables = new Set<number>();
+  let logNumber: number = 0;
+  let prevLogNumber: number = 0;
+  let sequence: number = 0;
+  let fileNumber: number = 1;
+
+  for (const name of files.keys()) {
+    const match: RegExpMatchArray | null = /^(?:MANIFEST-)?(\d+)(?:\.\w+)?$/.exec(name);
+    if (match === null) continue;
+    fileNumber = Math.max(fileNumber, parseInt(match[1]!) + 1);
+  }
+
+  for (const record of readLogRecords(manifest)) {
+    const reader = new ByteReader(record);
+    while (reader.remaining > 0) {
+      const tag: VersionEditTag = reader.varint();
+      switch (tag) {
+        case VersionEditTag.COMPARATOR: {
+          const comparator: string = new TextDecoder().decode(reader.lengthPrefixed());
+          if (comparator !== COMPARATOR) {
+            throw new Error(`Encountered unsupported LevelDB comparator '${comparator}'`);
+          }
+          break;
+        }
+        case VersionEditTag.LOG_NUMBER: logNumber = reader.varint(); break;
+        case VersionEditTag.NEXT_FILE_NUMBER: fileNumber = Math.max(fileNumber, reader.varint()); break;
+        case VersionEditTag.LAST_SEQUENCE: sequence = reader.varint(); break;
+        case VersionEditTag.COMPACT_POINTER: reader.varint(); reader.lengthPrefixed(); break;
+        case VersionEditTag.DELETED_FILE: reader.varint(); tables.delete(reader.varint()); break;
+        case VersionEditTag.NEW_FILE: {
+          reader.varint();
+          tables.add(reader.varint());
+          reader.varint();
+          reader.lengthPrefixed();
+          reader.lengthPrefixed();
+          break;
+        }
+        case VersionEditTag.PREV_LOG_NUMBER: prevLogNumber = reader.varint(); break;
+        default: throw new Error(`Encountered unsupported LevelDB manifest tag '${tag}'`);
+      }
+    }
+  }
+
+  const entries = new Map<string, InternalEntry>();
+
+  const apply = (key: Uint8Array, entrySequence: number, value: Uint8Array | null): void => {
+    const name: string = toKeyString(key);
+    const previous: InternalEntry | undefined = entries.get(name);
+    if (previous !== undefined && previous.sequence > entrySequence) return;
+    entries.set(name, { sequence: entrySequence, value });
+    sequence = Math.max(sequence, entrySequence);
+  };
+
+  for (const fileNumber of tables) {
+    const name: string = getFileName(fileNumber, "ldb");
+    const table: Uint8Array | undefined = files.get(name) ?? files.get(getFileName(fileNumber, "sst"));
+    if (table === undefined) {
+      throw new Error(`Missing LevelDB table file '${name}'`);
+    }
+    for (const [internalKey, value] of await readTable(table)) {
+      const view = new DataView(internalKey.buffer, internalKey.byteOffset, internalKey.byteLength);
+      const trailer: bigint = view.getBigUint64(internalKey.byteLength - 8, true);
+      const type: ValueType = Number(trailer & 0xFFn);
+      apply(internalKey.subarray(0, -8), Number(trailer >> 8n), type === ValueType.VALUE ? value : null);
+    }
+  }
+
+  const logs: string[] = [...files.keys()]
+    .filter(name => /^\d+\.log$/.test(name))
+    .filter(name => parseInt(name) >= logNumber || parseInt(name) === prevLogNumber)
+    .sort((a, b) => parseInt(a) - parseInt(b));
+
+  for (const name of logs) {
+    for (const batch of readLogRecords(files.get(name)!)) {
+      const reader = new ByteReader(batch);
+      let batchSequence: number = Number(reader.uint64());
+      const count: number = reader.uint32();
+      for (let i: number = 0; i < count; i++) {
+        const type: ValueType = reader.uint8();
+        switch (type) {
+          case ValueType.VALUE: apply(reader.lengthPrefixed(), batchSequence++, reader.lengthPrefixed()); break;
+          case ValueType.DELETION: apply(reader.lengthPrefixed(), batchSequence++, null); break;
+          default: throw new Error(`Encountered unsupported LevelDB write batch record type '${type}'`);
+        }
+      }
+    }
+  }
+
+  const db = new LevelDB();
+  const names: string[] = [...entries.keys()].sort(compareKeys);
+  for (const name of names) {
+    const { value } = entries.get(name)!;
+    if (value === null) continue;
+    db.set(fromKeyString(name), value);
+  }
+  db.sequence = sequence;
+  db.fileNumber = fileNumber;
+  return db;
+}
+
+/**
+ * Writes a LevelDB database as a single compacted table, returning its files keyed by their file name.
+ *
+ * The result contains `CURRENT`, a manifest that lists the table, the table itself, and an empty log file. They're numbered from the database's `fileNumber`, and the manifest's log number is the new log file, so they can be written into the directory that `readLevelDB()` read without LevelDB replaying its older logs. A database which wasn't read from that directory should replace all of its files instead.
+*/
+export async function writeLevelDB(db: LevelDB, options: LevelDBWriteOptions = {}): Promise<Map<string, Uint8Array>> {
+  if (!(db instanceof LevelDB)) {
+    db satisfies never;
+    throw new TypeError("First parameter must be a LevelDB");
+  }
+
+  const { compression = "deflate-raw" } = options;
+
+  if (compression !== "deflate" && compression !== "deflate-raw" && compression !== null) {
+    compression satisfies never;
+    throw new TypeError("Compression option must be a valid LevelDB compression type");
+  }
+
+  if (!Number.isSafeInteger(db.fileNumber) || db.fileNumber < 1) {
+    throw new TypeError("File Number must be a positive integer");
+  }
+
+  const manifestNumber: number = db.fileNumber;
+  const tableNumber: number = manifestNumber + 1;
+  const logNumber: number = manifestNumber + 2;
+  const files = new Map<string, Uint8Array>();
+  const edit = new ByteWriter();
+
+  edit.varint(VersionEditTag.COMPARATOR).lengthPrefixed(new TextEncoder().encode(COMPARATOR));
+  edit.varint(VersionEditTag.LOG_NUMBER).varint(logNumber);
+  edit.varint(VersionEditTag.PREV_LOG_NUMBER).varint(0);
+  edit.varint(VersionEditTag.NEXT_FILE_NUMBER).varint(logNumber + 1);
+  edit.varint(VersionEditTag.LAST_SEQUENCE).varint(db.sequence);
+
+  if (db.size !== 0) {
+    const entries: [Uint8Array, Uint8Array][] = [...db.entries()].map(([key, value]) => [createInternalKey(key, db.sequence), value]);
+    const table: Uint8Array = await writeTable(entries, compression);
+    files.set(getFileName(tableNumber, "ldb"), table);
+    edit.varint(VersionEditTag.NEW_FILE).varint(0).varint(tableNumber).varint(table.byteLength);
+    edit.lengthPrefixed(entries[0]![0]).lengthPrefixed(entries.at(-1)![0]);
+  }
+
+  const manifestName: string = `MANIFEST-${getFileName(manifestNumber)}`;
+  files.set("CURRENT", new TextEncoder().encode(`${manifestName}\n`));
+  files.set(manifestName, writeLogRecords([edit.toUint8Array()]));
+  files.set(getFileName(logNumber, "log"), new Uint8Array(0));
+
+  return files;
+}
+
+function readLogRecords(data: Uint8Array): Uint8Array[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const records: Uint8Array[] = [];
+  let fragments: Uint8Array[] | null = null;
+  let byteOffset: number = 0;
+
+  while (byteOffset + LOG_HEADER_LENGTH <= data.byteLength) {
+    const blockRemaining: number = LOG_BLOCK_LENGTH - byteOffset % LOG_BLOCK_LENGTH;
+    if (blockRemaining < LOG_HEADER_LENGTH) {
+      byteOffset += blockRemaining;
+      continue;
+    }
+
+    const checksum: number = view.getUint32(byteOffset, true);
+    const byteLength: number = view.getUint16(byteOffset + 4, true);
+    const type: LogRecordType = view.getUint8(byteOffset + 6);
+
+    if (type === LogRecordType.ZERO && byteLength === 0) {
+      byteOffset += blockRemaining;
+      continue;
+    }
+
+    const payloadOffset: number = byteOffset + LOG_HEADER_LENGTH;
+    // A torn or corrupted record marks the end of what was durably written.
+    if (payloadOffset + byteLength > data.byteLength || byteLength > blockRemaining - LOG_HEADER_LENGTH) break;
+    if (unmaskChecksum(checksum) !== crc32c(data.subarray(byteOffset + 6, payloadOffset + byteLength))) break;
+
+    const payload: Uint8Array = data.subarray(payloadOffset, payloadOffset + byteLength);
+    byteOffset = payloadOffset + byteLength;
+
+    switch (type) {
+      case LogRecordType.FULL: records.push(payload); fragments = null; break;
+      case LogRecordType.FIRST: fragments = [payload]; break;
+      case LogRecordType.MIDDLE: fragments?.push(payload); break;
+      case LogRecordType.LAST: {
+        if (fragments === null) break;
+        fragments.push(payload);
+        records.push(concat(fragments));
+        fragments = null;
+        break;
+      }
+      default: throw new Error(`Encountered unsupported LevelDB log record type '${type}'`);
+    }
+  }
+
+  return records;
+}
+
+function writeLogRecords(records: Uint8Array[]): Uint8Array {
+  const writer = new ByteWriter();
+
+  for (const record of records) {
+    let byteOffset: number = 0;
+    let first: boolean = true;
+
+    do {
+      let blockRemaining: number = LOG_BLOCK_LENGTH - writer.byteLength % LOG_BLOCK_LENGTH;
+      if (blockRemaining < LOG_HEADER_LENGTH) {
+        writer.bytes(new Uint8Array(blockRemaining));
+        blockRemaining = LOG_BLOCK_LENGTH;
+      }
+
+      const byteLength: number = Math.min(record.byteLength - byteOffset, blockRemaining - LOG_HEADER_LENGTH);
+      const last: boolean = byteOffset + byteLength === record.byteLength;
+      const type: LogRecordType = first && last ? LogRecordType.FULL : first ? LogRecordType.FIRST : last ? LogRecordType.LAST : LogRecordType.MIDDLE;
+      const payload: Uint8Array = record.subarray(byteOffset, byteOffset + byteLength);
+
+      writer.uint32(maskChecksum(crc32c(concat([Uint8Array.of(type), payload]))));
+      writer.uint16(byteLength).uint8(type).bytes(payload);
+      byteOffset += byteLength;
+      first = false;
+    } while (byteOffset < record.byteLength);
+  }
+
+  return writer.toUint8Array();
+}
+
+async function readTable(data: Uint8Array): Promise<[Uint8Array, Uint8Array][]> {
+  if (data.byteLength < FOOTER_LENGTH) {
+    throw new Error(`Expected a LevelDB table footer of ${FOOTER_LENGTH} bytes, encountered ${data.byteLength} bytes`);
+  }
+
+  const footer = new ByteReader(data.subarray(-FOOTER_LENGTH));
+  const magic: bigint = new DataView(data.buffer, data.byteOffset, data.byteLength).getBigUint64(data.byteLength - 8, true);
+  if (magic !== TABLE_MAGIC) {
+    throw new Error("Encountered invalid LevelDB table magic number");
+  }
+
+  footer.blockHandle();
+  const index: Uint8Array = await readBlock(data, footer.blockHandle());
+  const entries: [Uint8Array, Uint8Array][] = [];
+
+  for (const [, value] of readBlockEntries(index)) {
+    const block: Uint8Array = await readBlock(data, new ByteReader(value).blockHandle());
+    entries.push(...readBlockEntries(block));
+  }
+
+  return entries;
+}
+
+async function readBlock(data: Uint8Array, { byteOffset, byteLength }: BlockHandle): Promise<Uint8Array> {
+  if (byteOffset + byteLength + BLOCK_TRAILER_LENGTH > data.byteLength) {
+    throw new Error(`LevelDB block at offset ${byteOffset} is out of bounds`);
+  }
+
+  const contents: Uint8Array = data.subarray(byteOffset, byteOffset + byteLength);
+  const type: number = data[byteOffset + byteLength]!;
+  const checksum: number = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(byteOffset + byteLength + 1, true);
+
+  if (unmaskChecksum(checksum) !== crc32c(data.subarray(byteOffset, byteOffset + byteLength + 1))) {
+    throw new Error(`LevelDB block at offset ${byteOffset} has an invalid checksum`);
+  }
+
+  switch (type) {
+    case 0: return contents;
+    case 2: return decompress(contents, "deflate");
+    case 4: return decompress(contents, "deflate-raw");
+    default: throw new Error(`Encountered unsupported LevelDB block compression type '${type}'`);
+  }
+}
+
+function readBlockEntries(block: Uint8Array): [Uint8Array, Uint8Array][] {
+  const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+  const restartCount: number = view.getUint32(block.byteLength - 4, true);
+  const reader = new ByteReader(block.subarray(0, block.byteLength - 4 - restartCount * 4));
+  const entries: [Uint8Array, Uint8Array][] = [];
+  let key = new Uint8Array(0);
+
+  while (reader.remaining > 0) {
+    const shared: number = reader.varint();
+    const unshared: number = reader.varint();
+    const valueLength: number = reader.varint();
+    key = concat([key.subarray(0, shared), reader.bytes(unshared)]);
+    entries.push([key, reader.bytes(valueLength)]);
+  }
+
+  return entries;
+}
+
+async function writeTable(entries: [Uint8Array, Uint8Array][], compression: LevelDBCompression): Promise<Uint8Array> {
+  const writer = new ByteWriter();
+  const index = new BlockBuilder();
+  let block = new BlockBuilder();
+
+  const flush = async (): Promise<void> => {
+    const handle: BlockHandle = await writeBlock(writer, block.finish(), compression);
+    index.add(block.lastKey, new ByteWriter().blockHandle(handle).toUint8Array());
+    block = new BlockBuilder();
+  };
+
+  for (const [key, value] of entries) {
+    block.add(key, value);
+    if (block.byteLength >= TARGET_BLOCK_LENGTH) {
+      await flush();
+    }
+  }
+  if (block.count !== 0) {
+    await flush();
+  }
+
+  const metaIndexHandle: BlockHandle = await writeBlock(writer, new BlockBuilder().finish(), null);
+  const indexHandle: BlockHandle = await writeBlock(writer, index.finish(), null);
+  const footer = new ByteWriter().blockHandle(metaIndexHandle).blockHandle(indexHandle);
+
+  writer.bytes(footer.toUint8Array()).bytes(new Uint8Array(FOOTER_LENGTH - 8 - footer.byteLength)).uint64(TABLE_MAGIC);
+  return writer.toUint8Array();
+}
+
+async function writeBlock(writer: ByteWriter, contents: Uint8Array, compression: LevelDBCompression): Promise<BlockHandle> {
+  let type: number = 0;
+
+  if (compression !== null) {
+    const compressed: Uint8Array = await compress(contents, compression);
+    // Like LevelDB, keep the block uncompressed unless compression saves at least an eighth.
+    if (compressed.byteLength < contents.byteLength - contents.byteLength / 8) {
+      contents = compressed;
+      type = compression === "deflate" ? 2 : 4;
+    }
+  }
+
+  const handle: BlockHandle = { byteOffset: writer.byteLength, byteLength: contents.byteLength };
+  const trailer: Uint8Array = concat([contents, Uint8Array.of(type)]);
+  writer.bytes(trailer).uint32(maskChecksum(crc32c(trailer)));
+  return handle;
+}
+
+class BlockBuilder {
+  count: number = 0;
+  lastKey = new Uint8Array(0);
+  #writer = new ByteWriter();
+  #restarts: number[] = [0];
+
+  get byteLength(): number {
+    return this.#writer.byteLength + this.#restarts.length * 4 + 4;
+  }
+
+  add(key: Uint8Array, value: Uint8Array): void {
+    let shared: number = 0;
+    if (this.count % RESTART_INTERVAL === 0) {
+      if (this.count !== 0) {
+        this.#restarts.push(this.#writer.byteLength);
+      }
+    } else {
+      const length: number = Math.min(key.byteLength, this.lastKey.byteLength);
+      while (shared < length && key[shared] === this.lastKey[shared]) shared++;
+    }
+
+    this.#writer.varint(shared).varint(key.byteLength - shared).varint(value.byteLength);
+    this.#writer.bytes(key.subarray(shared)).bytes(value);
+    this.lastKey = key;
+    this.count++;
+  }
+
+  finish(): Uint8Array {
+    for (const restart of this.#restarts) {
+      this.#writer.uint32(restart);
+    }
+    return this.#writer.uint32(this.#restarts.length).toUint8Array();
+  }
+}
+
+class ByteReader {
+  #data: Uint8Array;
+  #view: DataView;
+  #byteOffset: number = 0;
+
+  constructor(data: Uint8Array) {
+    this.#data = data;
+    this.#view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get remaining(): number {
+    return this.#data.byteLength - this.#byteOffset;
+  }
+
+  #allocate(byteLength: number): number {
+    if (this.#byteOffset + byteLength > this.#data.byteLength) {
+      throw new Error("Ran out of bytes to read, unexpectedly reached the end of the LevelDB record");
+    }
+    const byteOffset: number = this.#byteOffset;
+    this.#byteOffset += byteLength;
+    return byteOffset;
+  }
+
+  uint8(): number {
+    return this.#view.getUint8(this.#allocate(1));
+  }
+
+  uint32(): number {
+    return this.#view.getUint32(this.#allocate(4), true);
+  }
+
+  uint64(): bigint {
+    return this.#view.getBigUint64(this.#allocate(8), true);
+  }
+
+  varint(): number {
+    let value: number = 0;
+    let scale: number = 1;
+    let byte: number;
+    do {
+      byte = this.uint8();
+      value += (byte & 0x7F) * scale;
+      scale *= 128;
+    } while ((byte & 0x80) !== 0);
+    return value;
+  }
+
+  bytes(byteLength: number): Uint8Array {
+    const byteOffset: number = this.#allocate(byteLength);
+    return this.#data.subarray(byteOffset, byteOffset + byteLength);
+  }
+
+  lengthPrefixed(): Uint8Array {
+    return this.bytes(this.varint());
+  }
+
+  blockHandle(): BlockHandle {
+    return { byteOffset: this.varint(), byteLength: this.varint() };
+  }
+}
+
+class ByteWriter {
+  #chunks: Uint8Array[] = [];
+  #byteLength: number = 0;
+
+  get byteLength(): number {
+    return this.#byteLength;
+  }
+
+  uint8(value: number): this {
+    return this.bytes(Uint8Array.of(value));
+  }
+
+  uint16(value: number): this {
+    const data = new Uint8Array(2);
+    new DataView(data.buffer).setUint16(0, value, true);
+    return this.bytes(data);
+  }
+
+  uint32(value: number): this {
+    const data = new Uint8Array(4);
+    new DataView(data.buffer).setUint32(0, value, true);
+    return this.bytes(data);
+  }
+
+  uint64(value: bigint): this {
+    const data = new Uint8Array(8);
+    new DataView(data.buffer).setBigUint64(0, value, true);
+    return this.bytes(data);
+  }
+
+  varint(value: number): this {
+    const bytes: number[] = [];
+    while (value >= 0x80) {
+      bytes.push(value % 128 | 0x80);
+      value = Math.floor(value / 128);
+    }
+    bytes.push(value);
+    return this.bytes(Uint8Array.from(bytes));
+  }
+
+  bytes(data: Uint8Array): this {
+    this.#chunks.push(data);
+    this.#byteLength += data.byteLength;
+    return this;
+  }
+
+  lengthPrefixed(data: Uint8Array): this {
+    return this.varint(data.byteLength).bytes(data);
+  }
+
+  blockHandle({ byteOffset, byteLength }: BlockHandle): this {
+    return this.varint(byteOffset).varint(byteLength);
+  }
+
+  toUint8Array(): Uint8Array {
+    return concat(this.#chunks);
+  }
+}
+
+function createInternalKey(key: Uint8Array, sequence: number): Uint8Array {
+  const internalKey = new Uint8Array(key.byteLength + 8);
+  internalKey.set(key, 0);
+  new DataView(internalKey.buffer).setBigUint64(key.byteLength, BigInt(sequence) << 8n | BigInt(ValueType.VALUE), true);
+  return internalKey;
+}
+
+function getFileName(fileNumber: number, extension?: string): string {
+  const name: string = `${fileNumber}`.padStart(6, "0");
+  return extension === undefined ? name : `${name}.${extension}`;
+}
+
+/**
+ * Keys are stored as binary strings with one character per byte, which sort in the same order as LevelDB's bytewise comparator. String keys are encoded as UTF-8 first.
+*/
+function toKeyString(key: Uint8Array | string): string {
+  if (typeof key === "string") {
+    key = new TextEncoder().encode(key);
+  }
+  if (!(key instanceof Uint8Array)) {
+    key satisfies never;
+    throw new TypeError("Key must be a Uint8Array or string");
+  }
+  let result: string = "";
+  for (let i: number = 0; i < key.byteLength; i += 8192) {
+    result += String.fromCharCode(...key.subarray(i, i + 8192));
+  }
+  return result;
+}
+
+function fromKeyString(key: string): Uint8Array {
+  return Uint8Array.from(key, char => char.charCodeAt(0));
+}
+
+function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((byteLength, chunk) => byteLength + chunk.byteLength, 0));
+  let byteOffset: number = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, byteOffset);
+    byteOffset += chunk.byteLength;
+  }
+  return result;
+}
+
+const CRC32C_TABLE: Uint32Array = (() => {
+  const table = new Uint32Array(256);
+  for (let i: number = 0; i < 256; i++) {
+    let crc: number = i;
+    for (let j: number = 0; j < 8; j++) {
+      crc = (crc & 1) !== 0 ? (crc >>> 1) ^ 0x82F63B78 : crc >>> 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function crc32c(data: Uint8Array): number {
+  let crc: number = 0xFFFFFFFF;
+  for (const byte of data) {
+    crc = CRC32C_TABLE[(crc ^ byte) & 0xFF]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function maskChecksum(crc: number): number {
+  return (((crc >>> 15) | (crc << 17)) + 0xA282EAD8) >>> 0;
+}
+
+function unmaskChecksum(masked: number): number {
+  const crc: number = (masked - 0xA282EAD8) >>> 0;
+  return ((crc >>> 17) | (crc << 15)) >>> 0;
+}
\ No newline at end of file
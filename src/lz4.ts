@@ -0,0 +1,470 @@
+const MIN_MATCH = 4;
+const LAST_LITERALS = 5;
+const MATCH_FIND_LIMIT = 12;
+const MAX_OFFSET = 0xFFFF;
+const HASH_LOG = 16;
+
+const FRAME_MAGIC = 0x184D2204;
+const SKIPPABLE_FRAME_MAGIC = 0x184D2A50;
+const FRAME_BLOCK_LENGTH = 0x10000;
+const UNCOMPRESSED_BLOCK_FLAG = 0x80000000;
+
+const BLOCK_STREAM_MAGIC = "LZ4Block";
+const BLOCK_STREAM_HEADER_LENGTH = 21;
+const BLOCK_STREAM_BLOCK_LENGTH = 0x10000;
+const BLOCK_STREAM_SEED = 0x9747B28C;
+const BLOCK_STREAM_METHOD_RAW = 0x10;
+const BLOCK_STREAM_METHOD_LZ4 = 0x20;
+
+const PRIME32_1 = 0x9E3779B1;
+const PRIME32_2 = 0x85EBCA77;
+const PRIME32_3 = 0xC2B2AE3D;
+const PRIME32_4 = 0x27D4EB2F;
+const PRIME32_5 = 0x165667B1;
+
+/**
+ * Checks whether a buffer starts with the magic number of the LZ4 frame format.
+*/
+export function hasLZ4FrameHeader(data: Uint8Array): boolean {
+  return data.byteLength >= 4 && readUint32(data, 0) === FRAME_MAGIC;
+}
+
+/**
+ * Checks whether a buffer starts with the magic bytes of the lz4-java block stream format.
+*/
+export function hasLZ4BlockStreamHeader(data: Uint8Array): boolean {
+  if (data.byteLength < BLOCK_STREAM_MAGIC.length) return false;
+  for (let i: number = 0; i < BLOCK_STREAM_MAGIC.length; i++) {
+    if (data[i] !== BLOCK_STREAM_MAGIC.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/**
+ * Compresses a Uint8Array into the LZ4 frame format (`.lz4`), with independent 64 KB blocks and a content checksum.
+*/
+export function compressLZ4Frame(data: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const descriptor = new Uint8Array([0x64, 0x40]);
+  const header = new Uint8Array(7);
+  writeUint32(header, 0, FRAME_MAGIC);
+  header.set(descriptor, 4);
+  header[6] = (xxhash32(descriptor) >>> 8) & 0xFF;
+  chunks.push(header);
+
+  for (let byteOffset: number = 0; byteOffset < data.byteLength; byteOffset += FRAME_BLOCK_LENGTH) {
+    const block: Uint8Array = data.subarray(byteOffset, byteOffset + FRAME_BLOCK_LENGTH);
+    const compressed: Uint8Array = compressLZ4Block(block);
+    const stored: boolean = compressed.byteLength >= block.byteLength;
+    const blockHeader = new Uint8Array(4);
+    writeUint32(blockHeader, 0, stored ? (block.byteLength | UNCOMPRESSED_BLOCK_FLAG) >>> 0 : compressed.byteLength);
+    chunks.push(blockHeader, stored ? block : compressed);
+  }
+
+  const footer = new Uint8Array(8);
+  writeUint32(footer, 4, xxhash32(data));
+  chunks.push(footer);
+
+  return concat(chunks);
+}
+
+/**
+ * Decompresses one or more concatenated LZ4 frames. Skippable frames are ignored, and the block and content checksums are verified when present.
+*/
+export function decompressLZ4Frame(data: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let byteOffset: number = 0;
+
+  while (byteOffset < data.byteLength) {
+    ensureLength(data, byteOffset, 4);
+    const magic: number = readUint32(data, byteOffset);
+
+    if ((magic & 0xFFFFFFF0) >>> 0 === SKIPPABLE_FRAME_MAGIC) {
+      ensureLength(data, byteOffset, 8);
+      byteOffset += 8 + readUint32(data, byteOffset + 4);
+      continue;
+    }
+    if (magic !== FRAME_MAGIC) {
+      throw new Error(`Expected LZ4 frame magic number at byte ${byteOffset}, encountered '0x${magic.toString(16)}'`);
+    }
+
+    ensureLength(data, byteOffset, 7);
+    const flags: number = data[byteOffset + 4]!;
+    const blockDescriptor: number = data[byteOffset + 5]!;
+    if ((flags >> 6) !== 1) {
+      throw new Error(`Encountered unsupported LZ4 frame version '${flags >> 6}'`);
+    }
+    const blockChecksum: boolean = (flags & 0x10) !== 0;
+    const contentSize: boolean = (flags & 0x08) !== 0;
+    const contentChecksum: boolean = (flags & 0x04) !== 0;
+    const dictionary: boolean = (flags & 0x01) !== 0;
+    const blockLength: number = 1 << (2 * ((blockDescriptor >> 4) & 7) + 8);
+    if (dictionary) {
+      throw new Error("LZ4 frames with a preset dictionary aren't supported");
+    }
+
+    const descriptorLength: number = 2 + (contentSize ? 8 : 0);
+    ensureLength(data, byteOffset + 4, descriptorLength + 1);
+    const descriptor: Uint8Array = data.subarray(byteOffset + 4, byteOffset + 4 + descriptorLength);
+    if (((xxhash32(descriptor) >>> 8) & 0xFF) !== data[byteOffset + 4 + descriptorLength]) {
+      throw new Error("LZ4 frame descriptor checksum doesn't match");
+    }
+    byteOffset += 4 + descriptorLength + 1;
+
+    // Blocks are decompressed into one buffer, as linked blocks may refer back to the previous 64 KB of output.
+    let output = new Uint8Array(blockLength);
+    let outputLength: number = 0;
+
+    while (true) {
+      ensureLength(data, byteOffset, 4);
+      const header: number = readUint32(data, byteOffset);
+      byteOffset += 4;
+      if (header === 0) break;
+
+      const stored: boolean = (header & UNCOMPRESSED_BLOCK_FLAG) !== 0;
+      const byteLength: number = (header & ~UNCOMPRESSED_BLOCK_FLAG) >>> 0;
+      ensureLength(data, byteOffset, byteLength + (blockChecksum ? 4 : 0));
+      const block: Uint8Array = data.subarray(byteOffset, byteOffset + byteLength);
+      byteOffset += byteLength;
+
+      if (blockChecksum) {
+        if (xxhash32(block) !== readUint32(data, byteOffset)) {
+          throw new Error("LZ4 block checksum doesn't match");
+        }
+        byteOffset += 4;
+      }
+
+      if (output.byteLength < outputLength + blockLength) {
+        const grown = new Uint8Array(Math.max(outputLength + blockLength, output.byteLength * 2));
+        grown.set(output.subarray(0, outputLength), 0);
+        output = grown;
+      }
+
+      if (stored) {
+        if (byteLength > blockLength) {
+          throw new Error(`LZ4 block length ${byteLength} exceeds the maximum block length of ${blockLength}`);
+        }
+        output.set(block, outputLength);
+        outputLength += byteLength;
+      } else {
+        outputLength = decompressBlockInto(block, output, outputLength, outputLength + blockLength);
+      }
+    }
+
+    const content: Uint8Array = output.subarray(0, outputLength);
+    if (contentChecksum) {
+      ensureLength(data, byteOffset, 4);
+      if (xxhash32(content) !== readUint32(data, byteOffset)) {
+        throw new Error("LZ4 content checksum doesn't match");
+      }
+      byteOffset += 4;
+    }
+    chunks.push(content);
+  }
+
+  return concat(chunks);
+}
+
+/**
+ * Compresses a Uint8Array into the block stream format of lz4-java's `LZ4BlockOutputStream`, which Java Edition uses for LZ4 region chunks.
+*/
+export function compressLZ4BlockStream(data: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const level: number = Math.max(0, 32 - Math.clz32(BLOCK_STREAM_BLOCK_LENGTH - 1) - 10);
+
+  for (let byteOffset: number = 0; byteOffset < data.byteLength; byteOffset += BLOCK_STREAM_BLOCK_LENGTH) {
+    const block: Uint8Array = data.subarray(byteOffset, byteOffset + BLOCK_STREAM_BLOCK_LENGTH);
+    const compressed: Uint8Array = compressLZ4Block(block);
+    const stored: boolean = compressed.byteLength >= block.byteLength;
+    const payload: Uint8Array = stored ? block : compressed;
+    const method: number = stored ? BLOCK_STREAM_METHOD_RAW : BLOCK_STREAM_METHOD_LZ4;
+    chunks.push(createBlockStreamHeader(method | level, payload.byteLength, block.byteLength, xxhash32(block, BLOCK_STREAM_SEED) & 0x0FFFFFFF), payload);
+  }
+
+  chunks.push(createBlockStreamHeader(BLOCK_STREAM_METHOD_RAW | level, 0, 0, 0));
+
+  return concat(chunks);
+}
+
+/**
+ * Decompresses data in the block stream format of lz4-java's `LZ4BlockOutputStream`, verifying the checksum of each block.
+*/
+export function decompressLZ4BlockStream(data: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let byteOffset: number = 0;
+
+  while (byteOffset < data.byteLength) {
+    ensureLength(data, byteOffset, BLOCK_STREAM_HEADER_LENGTH);
+    if (!hasLZ4BlockStreamHeader(data.subarray(byteOffset))) {
+      throw new Error(`Expected LZ4 block stream magic at byte ${byteOffset}`);
+    }
+
+    const token: number = data[byteOffset + 8]!;
+    const method: number = token & 0xF0;
+    const compressedLength: number = readUint32(data, byteOffset + 9);
+    const decompressedLength: number = readUint32(data, byteOffset + 13);
+    const checksum: number = readUint32(data, byteOffset + 17);
+    byteOffset += BLOCK_STREAM_HEADER_LENGTH;
+
+    if (decompressedLength === 0) {
+      if (compressedLength !== 0 || checksum !== 0) {
+        throw new Error("Encountered an invalid LZ4 block stream end marker");
+      }
+      continue;
+    }
+
+    ensureLength(data, byteOffset, compressedLength);
+    const payload: Uint8Array = data.subarray(byteOffset, byteOffset + compressedLength);
+    byteOffset += compressedLength;
+
+    let block: Uint8Array;
+    switch (method) {
+      case BLOCK_STREAM_METHOD_RAW: {
+        if (compressedLength !== decompressedLength) {
+          throw new Error("Uncompressed LZ4 block stream block lengths don't match");
+        }
+        block = payload;
+        break;
+      }
+      case BLOCK_STREAM_METHOD_LZ4: {
+        block = new Uint8Array(decompressedLength);
+        if (decompressBlockInto(payload, block, 0, decompressedLength) !== decompressedLength) {
+          throw new Error(`Expected an LZ4 block of ${decompressedLength} bytes`);
+        }
+        break;
+      }
+      default: throw new Error(`Encountered unsupported LZ4 block stream compression method '0x${method.toString(16)}'`);
+    }
+
+    if ((xxhash32(block, BLOCK_STREAM_SEED) & 0x0FFFFFFF) !== checksum) {
+      throw new Error("LZ4 block stream checksum doesn't match");
+    }
+    chunks.push(block);
+  }
+
+  return concat(chunks);
+}
+
+/**
+ * Compresses a Uint8Array into a single raw LZ4 block, without any framing.
+*/
+export function compressLZ4Block(data: Uint8Array): Uint8Array {
+  const byteLength: number = data.byteLength;
+  const output = new Uint8Array(byteLength + Math.ceil(byteLength / 255) + 16);
+  const table = new Int32Array(1 << HASH_LOG).fill(-1);
+  const matchLimit: number = byteLength - MATCH_FIND_LIMIT;
+  let anchor: number = 0;
+  let i: number = 0;
+  let o: number = 0;
+
+  while (i < matchLimit) {
+    const sequence: number = readInt32(data, i);
+    const hash: number = Math.imul(sequence, PRIME32_1) >>> (32 - HASH_LOG);
+    const reference: number = table[hash]!;
+    table[hash] = i;
+
+    if (reference < 0 || i - reference > MAX_OFFSET || readInt32(data, reference) !== sequence) {
+      i++;
+      continue;
+    }
+
+    const maxMatchLength: number = byteLength - LAST_LITERALS - i;
+    let matchLength: number = MIN_MATCH;
+    while (matchLength < maxMatchLength && data[i + matchLength] === data[reference + matchLength]) {
+      matchLength++;
+    }
+
+    o = writeSequence(output, o, data.subarray(anchor, i), matchLength - MIN_MATCH);
+    output[o++] = (i - reference) & 0xFF;
+    output[o++] = (i - reference) >>> 8;
+    o = writeLength(output, o, matchLength - MIN_MATCH);
+
+    i += matchLength;
+    anchor = i;
+  }
+
+  o = writeSequence(output, o, data.subarray(anchor), 0);
+
+  return output.slice(0, o);
+}
+
+/**
+ * Decompresses a single raw LZ4 block, which must not decompress to more than the maximum length.
+*/
+export function decompressLZ4Block(data: Uint8Array, maxLength: number): Uint8Array {
+  const output = new Uint8Array(maxLength);
+  const byteLength: number = decompressBlockInto(data, output, 0, maxLength);
+  return output.slice(0, byteLength);
+}
+
+function decompressBlockInto(data: Uint8Array, output: Uint8Array, o: number, limit: number): number {
+  let i: number = 0;
+
+  while (i < data.byteLength) {
+    const token: number = data[i++]!;
+
+    let literalLength: number = token >>> 4;
+    if (literalLength === 15) {
+      let byte: number;
+      do {
+        ensureLength(data, i, 1);
+        byte = data[i++]!;
+        literalLength += byte;
+      } while (byte === 255);
+    }
+
+    ensureLength(data, i, literalLength);
+    if (o + literalLength > limit) {
+      throw new Error("LZ4 block decompresses past the maximum block length");
+    }
+    output.set(data.subarray(i, i + literalLength), o);
+    i += literalLength;
+    o += literalLength;
+
+    // The last sequence of a block only has literals.
+    if (i === data.byteLength) break;
+
+    ensureLength(data, i, 2);
+    const offset: number = data[i]! | data[i + 1]! << 8;
+    i += 2;
+    if (offset === 0 || offset > o) {
+      throw new Error(`Encountered an invalid LZ4 match offset '${offset}'`);
+    }
+
+    let matchLength: number = token & 0x0F;
+    if (matchLength === 15) {
+      let byte: number;
+      do {
+        ensureLength(data, i, 1);
+        byte = data[i++]!;
+        matchLength += byte;
+      } while (byte === 255);
+    }
+    matchLength += MIN_MATCH;
+
+    if (o + matchLength > limit) {
+      throw new Error("LZ4 block decompresses past the maximum block length");
+    }
+    // Matches may overlap the bytes they produce, so they are copied one byte at a time.
+    for (let j: number = 0; j < matchLength; j++, o++) {
+      output[o] = output[o - offset]!;
+    }
+  }
+
+  return o;
+}
+
+function writeSequence(output: Uint8Array, o: number, literals: Uint8Array, matchLength: number): number {
+  output[o++] = (Math.min(literals.byteLength, 15) << 4) | Math.min(matchLength, 15);
+  o = writeLength(output, o, literals.byteLength);
+  output.set(literals, o);
+  return o + literals.byteLength;
+}
+
+function writeLength(output: Uint8Array, o: number, length: number): number {
+  if (length < 15) return o;
+  length -= 15;
+  while (length >= 255) {
+    output[o++] = 255;
+    length -= 255;
+  }
+  output[o++] = length;
+  return o;
+}
+
+function createBlockStreamHeader(token: number, compressedLength: number, decompressedLength: number, checksum: number): Uint8Array {
+  const header = new Uint8Array(BLOCK_STREAM_HEADER_LENGTH);
+  for (let i: number = 0; i < BLOCK_STREAM_MAGIC.length; i++) {
+    header[i] = BLOCK_STREAM_MAGIC.charCodeAt(i);
+  }
+  header[8] = token;
+  writeUint32(header, 9, compressedLength);
+  writeUint32(header, 13, decompressedLength);
+  writeUint32(header, 17, checksum);
+  return header;
+}
+
+/**
+ * Computes the 32-bit xxHash of a Uint8Array, which the LZ4 formats use for their checksums.
+*/
+export function xxhash32(data: Uint8Array, seed: number = 0): number {
+  const byteLength: number = data.byteLength;
+  let i: number = 0;
+  let hash: number;
+
+  if (byteLength >= 16) {
+    let v1: number = (seed + PRIME32_1 + PRIME32_2) | 0;
+    let v2: number = (seed + PRIME32_2) | 0;
+    let v3: number = seed | 0;
+    let v4: number = (seed - PRIME32_1) | 0;
+    while (i <= byteLength - 16) {
+      v1 = xxhash32Round(v1, readInt32(data, i));
+      v2 = xxhash32Round(v2, readInt32(data, i + 4));
+      v3 = xxhash32Round(v3, readInt32(data, i + 8));
+      v4 = xxhash32Round(v4, readInt32(data, i + 12));
+      i += 16;
+    }
+    hash = (rotateLeft(v1, 1) + rotateLeft(v2, 7) + rotateLeft(v3, 12) + rotateLeft(v4, 18)) | 0;
+  } else {
+    hash = (seed + PRIME32_5) | 0;
+  }
+
+  hash = (hash + byteLength) | 0;
+
+  for (; i + 4 <= byteLength; i += 4) {
+    hash = (hash + Math.imul(readInt32(data, i), PRIME32_3)) | 0;
+    hash = Math.imul(rotateLeft(hash, 17), PRIME32_4);
+  }
+  for (; i < byteLength; i++) {
+    hash = (hash + Math.imul(data[i]!, PRIME32_5)) | 0;
+    hash = Math.imul(rotateLeft(hash, 11), PRIME32_1);
+  }
+
+  hash ^= hash >>> 15;
+  hash = Math.imul(hash, PRIME32_2);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, PRIME32_3);
+  hash ^= hash >>> 16;
+
+  return hash >>> 0;
+}
+
+function xxhash32Round(accumulator: number, input: number): number {
+  accumulator = (accumulator + Math.imul(input, PRIME32_2)) | 0;
+  return Math.imul(rotateLeft(accumulator, 13), PRIME32_1);
+}
+
+function rotateLeft(value: number, bits: number): number {
+  return (value << bits) | (value >>> (32 - bits));
+}
+
+function readInt32(data: Uint8Array, byteOffset: number): number {
+  return data[byteOffset]! | data[byteOffset + 1]! << 8 | data[byteOffset + 2]! << 16 | data[byteOffset + 3]! << 24;
+}
+
+function readUint32(data: Uint8Array, byteOffset: number): number {
+  return readInt32(data, byteOffset) >>> 0;
+}
+
+function writeUint32(data: Uint8Array, byteOffset: number, value: number): void {
+  data[byteOffset] = value & 0xFF;
+  data[byteOffset + 1] = (value >>> 8) & 0xFF;
+  data[byteOffset + 2] = (value >>> 16) & 0xFF;
+  data[byteOffset + 3] = (value >>> 24) & 0xFF;
+}
+
+function ensureLength(data: Uint8Array, byteOffset: number, byteLength: number): void {
+  if (byteOffset + byteLength > data.byteLength) {
+    throw new Error("Ran out of bytes to read, unexpectedly reached the end of the LZ4 data");
+  }
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((byteLength, chunk) => byteLength + chunk.byteLength, 0));
+  let byteOffset: number = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, byteOffset);
+    byteOffset += chunk.byteLength;
+  }
+  return result;
+}
\ No newline at end of file
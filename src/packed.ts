@@ -0,0 +1,229 @@
+import { HOST_LITTLE_ENDIAN } from "./endian.js";
+
+import type { Tag, LongArrayTag } from "./tag.js";
+
+/**
+ * How entries are laid out across the longs of a packed array.
+ *
+ * - `spanning`: Entries are packed back to back, so an entry may span two longs. Used by chunk sections before 1.16, and by Litematica.
+ * - `padded`: Each long holds as many whole entries as fit, and the remaining high bits are left unused. Used by chunk sections and heightmaps since 1.16.
+*/
+export type PackedArrayLayout = "spanning" | "padded";
+
+export interface PackedArrayOptions {
+  /**
+   * The number of bits used by each entry, from `1` to `32`.
+  */
+  bitsPerEntry: number;
+  layout?: PackedArrayLayout;
+}
+
+export interface PackedArrayFromOptions {
+  /**
+   * The number of bits used by each entry. If it isn't specified, the smallest width which fits the largest index is used.
+  */
+  bitsPerEntry?: number;
+  /**
+   * The smallest width to use when computing the number of bits per entry, such as `4` for block states, or `2` for Litematica regions.
+  */
+  minBitsPerEntry?: number;
+  layout?: PackedArrayLayout;
+}
+
+/**
+ * A fixed length array of palette indices, bit-packed into the longs of a Long Array tag.
+*/
+export class PackedArray implements Iterable<number> {
+  readonly length: number;
+  readonly bitsPerEntry: number;
+  readonly layout: PackedArrayLayout;
+  #words: Uint32Array;
+  #entriesPerLong: number;
+  #mask: number;
+
+  /**
+   * Wraps an existing Long Array tag, which is used directly rather than copied. If no data is passed in, the array is filled with zeros.
+  */
+  constructor(length: number, options: PackedArrayOptions, data?: LongArrayTag) {
+    const { bitsPerEntry, layout = "padded" } = options;
+
+    if (!Number.isInteger(length) || length < 0) {
+      throw new TypeError("Length must be a non-negative integer");
+    }
+    if (!Number.isInteger(bitsPerEntry) || bitsPerEntry < 1 || bitsPerEntry > 32) {
+      throw new TypeError("Bits Per Entry option must be an integer between 1 and 32");
+    }
+    if (layout !== "spanning" && layout !== "padded") {
+      layout satisfies never;
+      throw new TypeError("Layout option must be 'spanning' or 'padded'");
+    }
+
+    const longCount: number = getPackedLength(length, bitsPerEntry, layout);
+    data ??= new BigInt64Array(longCount);
+
+    if (!(data instanceof BigInt64Array) && !(data instanceof BigUint64Array)) {
+      data satisfies never;
+      throw new TypeError("Data must be a BigInt64Array or BigUint64Array");
+    }
+    if (data.length !== longCount) {
+      throw new Error(`Expected ${longCount} longs for ${length} entries of ${bitsPerEntry} bits, encountered ${data.length}`);
+    }
+
+    this.length = length;
+    this.bitsPerEntry = bitsPerEntry;
+    this.layout = layout;
+    this.#words = new Uint32Array(data.buffer, data.byteOffset, data.length * 2);
+    this.#entriesPerLong = Math.floor(64 / bitsPerEntry);
+    this.#mask = 2 ** bitsPerEntry - 1;
+  }
+
+  /**
+   * Packs an array of palette indices. The number of bits per entry is computed from the largest index, unless it is specified.
+  */
+  static from(indices: ArrayLike<number>, options: PackedArrayFromOptions = {}): PackedArray {
+    const { minBitsPerEntry = 1, layout } = options;
+    let { bitsPerEntry } = options;
+
+    if (bitsPerEntry === undefined) {
+      let max: number = 0;
+      for (let i: number = 0; i < indices.length; i++) {
+        max = Math.max(max, indices[i]!);
+      }
+      bitsPerEntry = getBitsPerEntry(max + 1, minBitsPerEntry);
+    }
+
+    const result = new PackedArray(indices.length, { bitsPerEntry, layout });
+    for (let i: number = 0; i < indices.length; i++) {
+      result.set(i, indices[i]!);
+    }
+    return result;
+  }
+
+  get(index: number): number {
+    this.#check(index);
+    const bitOffset: number = this.#bitOffset(index);
+    const word: number = bitOffset >>> 5;
+    const shift: number = bitOffset & 31;
+
+    let value: number = this.#getWord(word) >>> shift;
+    if (shift + this.bitsPerEntry > 32) {
+      value |= this.#getWord(word + 1) << (32 - shift);
+    }
+    return (value & this.#mask) >>> 0;
+  }
+
+  set(index: number, value: number): void {
+    this.#check(index);
+    if (!Number.isInteger(value) || value < 0 || value > this.#mask) {
+      throw new RangeError(`Value ${value} doesn't fit within ${this.bitsPerEntry} bits`);
+    }
+    const bitOffset: number = this.#bitOffset(index);
+    const word: number = bitOffset >>> 5;
+    const shift: number = bitOffset & 31;
+
+    this.#setWord(word, (this.#getWord(word) & ~(this.#mask << shift)) | (value << shift));
+    if (shift + this.bitsPerEntry > 32) {
+      const high: number = 32 - shift;
+      this.#setWord(word + 1, (this.#getWord(word + 1) & ~(this.#mask >>> high)) | (value >>> high));
+    }
+  }
+
+  /**
+   * Unpacks every entry into an array of palette indices.
+  */
+  toIndices(): Uint32Array {
+    const result = new Uint32Array(this.length);
+    for (let i: number = 0; i < this.length; i++) {
+      result[i] = this.get(i);
+    }
+    return result;
+  }
+
+  /**
+   * Maps every entry to its value in the palette, such as the block state Compound tags of a chunk section.
+  */
+  resolve<T extends Tag>(palette: T[]): T[] {
+    const result: T[] = new Array(this.length);
+    for (let i: number = 0; i < this.length; i++) {
+      const index: number = this.get(i);
+      if (index >= palette.length) {
+        throw new RangeError(`Palette index ${index} of entry ${i} is out of range for a palette of ${palette.length} entries`);
+      }
+      result[i] = palette[index]!;
+    }
+    return result;
+  }
+
+  /**
+   * Packs the indices again with a new number of bits per entry or layout, such as after the palette has grown.
+  */
+  repack(options: PackedArrayOptions): PackedArray {
+    const result = new PackedArray(this.length, { layout: this.layout, ...options });
+    for (let i: number = 0; i < this.length; i++) {
+      result.set(i, this.get(i));
+    }
+    return result;
+  }
+
+  /**
+   * Returns a copy of the packed longs, to be stored as a Long Array tag.
+  */
+  toBigInt64Array(): BigInt64Array {
+    return new BigInt64Array(this.#words.slice().buffer);
+  }
+
+  *[Symbol.iterator](): IterableIterator<number> {
+    for (let i: number = 0; i < this.length; i++) {
+      yield this.get(i);
+    }
+  }
+
+  #check(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index >= this.length) {
+      throw new RangeError(`Index ${index} is out of range for a packed array of ${this.length} entries`);
+    }
+  }
+
+  /**
+   * The bit position of an entry, counting from the lowest bit of the first long.
+  */
+  #bitOffset(index: number): number {
+    if (this.layout === "spanning") {
+      return index * this.bitsPerEntry;
+    }
+    const long: number = Math.floor(index / this.#entriesPerLong);
+    return long * 64 + (index - long * this.#entriesPerLong) * this.bitsPerEntry;
+  }
+
+  // Each long is split into its low and high 32-bit words, whose order in memory follows the host's endianness.
+  #getWord(word: number): number {
+    return this.#words[HOST_LITTLE_ENDIAN ? word : word ^ 1]!;
+  }
+
+  #setWord(word: number, value: number): void {
+    this.#words[HOST_LITTLE_ENDIAN ? word : word ^ 1] = value;
+  }
+
+  get [Symbol.toStringTag](): "PackedArray" {
+    return "PackedArray";
+  }
+}
+
+/**
+ * Computes the number of bits needed to store indices into a palette of the given length.
+*/
+export function getBitsPerEntry(paletteLength: number, minBitsPerEntry: number = 1): number {
+  if (!Number.isInteger(paletteLength) || paletteLength < 0) {
+    throw new TypeError("Palette length must be a non-negative integer");
+  }
+  return Math.max(minBitsPerEntry, paletteLength <= 1 ? 0 : 32 - Math.clz32(paletteLength - 1));
+}
+
+/**
+ * Computes the number of longs needed to store a packed array.
+*/
+export function getPackedLength(length: number, bitsPerEntry: number, layout: PackedArrayLayout = "padded"): number {
+  return layout === "spanning"
+    ? Math.ceil(length * bitsPerEntry / 64)
+    : Math.ceil(length / Math.floor(64 / bitsPerEntry));
+}
\ No newline at end of file
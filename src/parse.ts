@@ -1,43 +1,131 @@
 import { Int8, Int16, Int32, Float32 } from "./primitive.js";
+import { formatPath } from "./path.js";
 import { TAG, getTagType } from "./tag.js";
+import { getCodePointFromName } from "./unicode.js";
 
-import type { Tag, RootTag, RootTagLike, ByteTag, BooleanTag, ShortTag, IntTag, LongTag, FloatTag, DoubleTag, ByteArrayTag, StringTag, ListTag, CompoundTag, IntArrayTag, LongArrayTag } from "./tag.js";
+import type { Tag, RootTag, RootTagLike, AnyRootTagLike, ByteTag, BooleanTag, ShortTag, IntTag, LongTag, FloatTag, DoubleTag, ByteArrayTag, StringTag, ListTag, CompoundTag, IntArrayTag, LongArrayTag } from "./tag.js";
 
 const UNQUOTED_STRING_PATTERN = /^[0-9A-Za-z.+_-]+$/;
+const SNIPPET_WIDTH = 80;
+
+const DIGITS = "[0-9](?:[0-9_]*[0-9])?";
+const MODERN_INTEGER_PATTERN = new RegExp(`^([+-]?)(?:0x([0-9a-f](?:[0-9a-f_]*[0-9a-f])?)|0b([01](?:[01_]*[01])?)|(${DIGITS}))([su](?=[bsil]$))?([bsil]?)$`, "i");
+const MODERN_FLOAT_PATTERN = new RegExp(`^[+-]?(?:${DIGITS}\\.(?:${DIGITS})?|\\.${DIGITS}|${DIGITS})(?:e[+-]?${DIGITS})?[fd]?$`, "i");
+const UUID_PATTERN = /^([0-9a-f]{1,8})-([0-9a-f]{1,4})-([0-9a-f]{1,4})-([0-9a-f]{1,4})-([0-9a-f]{1,12})$/i;
+
+/**
+ * The SNBT grammar version. `"legacy"` is the grammar from before Java Edition 1.21.5, and `"modern"` adds hex and binary integers, `_` digit separators, signedness suffixes, Unicode escapes, heterogeneous lists, and the `bool()` and `uuid()` operations.
+*/
+export type SNBTGrammar = "legacy" | "modern";
+
+export interface ParseOptions {
+  grammar?: SNBTGrammar;
+  /**
+   * Allows the root to be any tag type, rather than only a List or Compound tag.
+  */
+  anyRoot?: boolean;
+}
+
+export interface SNBTSyntaxErrorOptions {
+  source: string;
+  index: number;
+  path: string;
+  expected: string | null;
+}
+
+/**
+ * Thrown when an SNBT string can't be parsed, with the location of the error in the source.
+ *
+ * Lines and columns start at 1, and the path is that of the tag being parsed, in NBT path syntax.
+*/
+export class SNBTSyntaxError extends SyntaxError {
+  readonly line: number;
+  readonly column: number;
+  readonly index: number;
+  readonly path: string;
+  readonly expected: string | null;
+  readonly snippet: string;
+
+  constructor(reason: string, { source, index, path, expected }: SNBTSyntaxErrorOptions) {
+    const lineStart: number = source.lastIndexOf("\n", index - 1) + 1;
+    const lineEnd: number = source.indexOf("\n", index) === -1 ? source.length : source.indexOf("\n", index);
+    const line: number = source.slice(0, lineStart).split("\n").length;
+    const column: number = index - lineStart + 1;
+    const snippet: string = createSnippet(source.slice(lineStart, lineEnd).replace(/\r$/, ""), line, column);
+
+    super(`${reason} at line ${line}, column ${column}${path !== "" ? ` in '${path}'` : ""}${expected !== null ? `, expected ${expected}` : ""}\n${snippet}`);
+    this.name = "SNBTSyntaxError";
+    this.line = line;
+    this.column = column;
+    this.index = index;
+    this.path = path;
+    this.expected = expected;
+    this.snippet = snippet;
+  }
+}
+
+/**
+ * Underlines a column of a source line with a caret, trimming the line to fit around the column when it's too long.
+*/
+function createSnippet(text: string, line: number, column: number): string {
+  const start: number = Math.max(0, Math.min(column - 1 - SNIPPET_WIDTH / 2, text.length - SNIPPET_WIDTH));
+  const prefix: string = start > 0 ? "..." : "";
+  const suffix: string = start + SNIPPET_WIDTH < text.length ? "..." : "";
+  const gutter: string = `${line} | `;
+  const caret: string = `${" ".repeat(gutter.length - 2)}| ${" ".repeat(prefix.length + column - 1 - start)}^`;
+  return `${gutter}${prefix}${text.slice(start, start + SNIPPET_WIDTH).replaceAll("\t", " ")}${suffix}\n${caret}`;
+}
 
 /**
  * Converts an SNBT string into an NBT object.
+ *
+ * With the modern grammar, the items of heterogeneous List tags are wrapped in Compound tags with a single empty key (`{"": value}`), unless they are already non-wrapper Compound tags.
+ *
+ * Named `\N{...}` escapes only cover the Unicode blocks listed in `NAMED_ESCAPE_BLOCKS`, rather than the full character database which Minecraft accepts, and other names are rejected with an `SNBTSyntaxError`.
 */
-export function parse<T extends RootTagLike = RootTag>(data: string): T {
+export function parse<T extends AnyRootTagLike = Tag>(data: string, options: ParseOptions & { anyRoot: true; }): T;
+export function parse<T extends RootTagLike = RootTag>(data: string, options?: ParseOptions): T;
+export function parse<T extends AnyRootTagLike = RootTag>(data: string, { grammar = "legacy", anyRoot = false }: ParseOptions = {}): T {
   if (typeof data !== "string") {
     data satisfies never;
     throw new TypeError("First parameter must be a string");
   }
+  if (grammar !== "legacy" && grammar !== "modern") {
+    grammar satisfies never;
+    throw new TypeError("Grammar option must be either 'legacy' or 'modern'");
+  }
+  if (typeof anyRoot !== "boolean") {
+    anyRoot satisfies never;
+    throw new TypeError("Any Root option must be a boolean");
+  }
 
-  return new SNBTReader().parseRoot(data) as T;
+  return new SNBTReader(grammar).parseRoot(data, anyRoot) as T;
 }
 
 class SNBTReader {
+  readonly #modern: boolean;
   #i: number = 0;
   #index: number = 0;
+  #path: (string | number)[] = [];
+
+  constructor(grammar: SNBTGrammar) {
+    this.#modern = grammar === "modern";
+  }
 
   #peek(data: string, index: number, byteOffset: number = index): string {
     const value: string | undefined = data[byteOffset];
     if (value === undefined) {
-      throw this.#unexpectedEnd();
+      throw this.#unexpectedEnd(data);
     }
     return value;
   }
 
-  #unexpectedEnd(): Error {
-    return new Error("Unexpected end");
+  #unexpectedEnd(data: string, expected: string | null = null): SNBTSyntaxError {
+    return new SNBTSyntaxError("Unexpected end", { source: data, index: data.length, path: formatPath(this.#path), expected });
   }
 
-  #unexpectedChar(data: string, index: number, i?: number): Error {
-    if (i == null) {
-      i = index;
-    }
-    return new Error(`Unexpected character ${this.#peek(data, index)} at position ${index}`);
+  #unexpectedChar(data: string, index: number, expected: string | null = null): SNBTSyntaxError {
+    return new SNBTSyntaxError(`Unexpected character '${this.#peek(data, index)}'`, { source: data, index, path: formatPath(this.#path), expected });
   }
 
   #skipWhitespace(data: string): void {
@@ -47,10 +135,15 @@ class SNBTReader {
     }
   }
 
-  parseRoot(data: string): RootTag {
+  parseRoot(data: string, anyRoot: boolean): Tag {
+    if (anyRoot) {
+      return this.#parseTag(data, "[root]");
+    }
+
     this.#skipWhitespace(data);
 
     this.#i = this.#index;
+    const start: number = this.#index;
 
     switch (this.#peek(data, this.#index)) {
       case "{": {
@@ -66,7 +159,7 @@ class SNBTReader {
       }
     }
 
-    throw new Error("Encountered unexpected Root tag type, must be either a List or Compound tag");
+    throw new SNBTSyntaxError("Encountered unexpected Root tag type, must be either a List or Compound tag", { source: data, index: start, path: formatPath(this.#path), expected: "a List or Compound tag" });
   }
 
   #parseTag(data: string, key: string): Tag {
@@ -83,6 +176,9 @@ class SNBTReader {
       case '"':
       case "'": return this.#parseQuotedString(data);
       default: {
+        if (this.#modern) {
+          return this.#parseModernLiteral(data);
+        }
         if (
           /^(true)$/.test(data.slice(this.#i, this.#index + 4)) ||
           /^(false)$/.test(data.slice(this.#i, this.#index + 5))
@@ -140,6 +236,124 @@ class SNBTReader {
     }
   }
 
+  #parseModernLiteral(data: string): Tag {
+    const start: number = this.#index;
+    const token: string = this.#parseUnquotedString(data);
+
+    this.#skipWhitespace(data);
+    if (data[this.#index] === "(" && (token === "bool" || token === "uuid")) {
+      this.#index++;
+      return token === "bool" ? this.#parseBoolOperation(data, start) : this.#parseUUIDOperation(data, start);
+    }
+
+    switch (token) {
+      case "true": return true;
+      case "false": return false;
+    }
+
+    if (!/^[0-9+.-]/.test(token)) {
+      return token;
+    }
+
+    return this.#parseModernNumber(data, token, start, TAG.INT);
+  }
+
+  /**
+   * Parses a modern number literal, where `type` is the tag type for integers without a type suffix.
+  */
+  #parseModernNumber(data: string, token: string, start: number, type: TAG.BYTE | TAG.SHORT | TAG.INT | TAG.LONG): ByteTag | ShortTag | IntTag | LongTag | FloatTag | DoubleTag {
+    const integer: RegExpExecArray | null = MODERN_INTEGER_PATTERN.exec(token);
+
+    if (integer !== null) {
+      const [, sign, hex, binary, decimal, signedness, suffix] = integer;
+      const suffixType: TAG | undefined = { b: TAG.BYTE, s: TAG.SHORT, i: TAG.INT, l: TAG.LONG }[suffix!.toLowerCase()];
+      if (suffixType !== undefined) {
+        type = suffixType as typeof type;
+      }
+
+      const bits: number = { [TAG.BYTE]: 8, [TAG.SHORT]: 16, [TAG.INT]: 32, [TAG.LONG]: 64 }[type];
+      const magnitude: bigint = (hex !== undefined)
+        ? BigInt(`0x${hex.replaceAll("_", "")}`)
+        : (binary !== undefined)
+        ? BigInt(`0b${binary.replaceAll("_", "")}`)
+        : BigInt(decimal!.replaceAll("_", ""));
+      const value: bigint = sign === "-" ? -magnitude : magnitude;
+
+      // Hex and binary literals without a signedness suffix may use either the signed or the unsigned range.
+      const unsigned: boolean = signedness?.toLowerCase() === "u";
+      const signed: boolean = signedness?.toLowerCase() === "s" || (signedness === undefined && decimal !== undefined);
+      const min: bigint = unsigned ? 0n : -(1n << BigInt(bits - 1));
+      const max: bigint = signed ? (1n << BigInt(bits - 1)) - 1n : (1n << BigInt(bits)) - 1n;
+
+      if (value < min || value > max) {
+        throw new SNBTSyntaxError(`Number '${token}' is out of range for tag type '${TAG[type]}'`, { source: data, index: start, path: formatPath(this.#path), expected: null });
+      }
+
+      const result: bigint = BigInt.asIntN(bits, value);
+      switch (type) {
+        case TAG.BYTE: return new Int8(Number(result)) satisfies ByteTag;
+        case TAG.SHORT: return new Int16(Number(result)) satisfies ShortTag;
+        case TAG.INT: return new Int32(Number(result)) satisfies IntTag;
+        case TAG.LONG: return result satisfies LongTag;
+      }
+    }
+
+    if (MODERN_FLOAT_PATTERN.test(token) && type === TAG.INT) {
+      const float: boolean = token.at(-1)!.toLowerCase() === "f";
+      const value: number = Number(token.replace(/[fd]$/i, "").replaceAll("_", ""));
+      if (!Number.isFinite(value) || (float && !Number.isFinite(Math.fround(value)))) {
+        throw new SNBTSyntaxError(`Number '${token}' is out of range for tag type '${float ? "FLOAT" : "DOUBLE"}'`, { source: data, index: start, path: formatPath(this.#path), expected: null });
+      }
+      return float ? new Float32(value) satisfies FloatTag : value satisfies DoubleTag;
+    }
+
+    throw new SNBTSyntaxError(`Invalid number '${token}'`, { source: data, index: start, path: formatPath(this.#path), expected: type === TAG.INT ? "a number, or a quoted string" : "an integer" });
+  }
+
+  #parseBoolOperation(data: string, start: number): BooleanTag {
+    const argument: Tag = this.#parseTag(data, "bool");
+    this.#skipWhitespace(data);
+    if (this.#peek(data, this.#index) !== ")") {
+      throw this.#unexpectedChar(data, this.#index, "')'");
+    }
+    this.#index++;
+
+    switch (getTagType(argument)) {
+      case TAG.BYTE:
+      case TAG.SHORT:
+      case TAG.INT:
+      case TAG.LONG:
+      case TAG.FLOAT:
+      case TAG.DOUBLE: return typeof argument === "boolean" ? argument : Number(argument.valueOf()) !== 0;
+      default: throw new SNBTSyntaxError("Expected a number or boolean for 'bool()'", { source: data, index: start, path: formatPath(this.#path), expected: null });
+    }
+  }
+
+  #parseUUIDOperation(data: string, start: number): IntArrayTag {
+    this.#skipWhitespace(data);
+    const argument: string = this.#parseString(data);
+    this.#skipWhitespace(data);
+    if (this.#peek(data, this.#index) !== ")") {
+      throw this.#unexpectedChar(data, this.#index, "')'");
+    }
+    this.#index++;
+
+    const groups: RegExpExecArray | null = UUID_PATTERN.exec(argument);
+    if (groups === null) {
+      throw new SNBTSyntaxError(`Invalid UUID '${argument}' for 'uuid()'`, { source: data, index: start, path: formatPath(this.#path), expected: null });
+    }
+
+    const [, a, b, c, d, e] = groups as unknown as string[];
+    const most: bigint = BigInt(`0x${a}`) << 32n | BigInt(`0x${b}`) << 16n | BigInt(`0x${c}`);
+    const least: bigint = BigInt(`0x${d}`) << 48n | BigInt(`0x${e}`);
+    return Int32Array.of(
+      Number(BigInt.asIntN(32, most >> 32n)),
+      Number(BigInt.asIntN(32, most)),
+      Number(BigInt.asIntN(32, least >> 32n)),
+      Number(BigInt.asIntN(32, least))
+    ) satisfies IntArrayTag;
+  }
+
   #parseString(data: string): StringTag {
     if (this.#peek(data, this.#index) == '"' || this.#peek(data, this.#index) == "'") {
       return this.#parseQuotedString(data);
@@ -158,9 +372,9 @@ class SNBTReader {
 
     if (this.#index - this.#i == 0) {
       if (this.#index == data.length) {
-        throw this.#unexpectedEnd();
+        throw this.#unexpectedEnd(data, "a string");
       } else {
-        throw this.#unexpectedChar(data, this.#index);
+        throw this.#unexpectedChar(data, this.#index, "a string");
       }
     }
 
@@ -176,6 +390,11 @@ class SNBTReader {
     while (this.#index < data.length) {
       let char: string = this.#peek(data, this.#index++);
 
+      if (char === "\\" && this.#modern) {
+        string += this.#parseModernEscape(data);
+        continue;
+      }
+
       if (char === "\\") {
         char = `\\${this.#peek(data, this.#index++)}`;
       }
@@ -187,7 +406,56 @@ class SNBTReader {
       string += this.#unescapeString(char);
     }
 
-    throw this.#unexpectedEnd();
+    throw this.#unexpectedEnd(data, `closing quote ${quoteChar}`);
+  }
+
+  #parseModernEscape(data: string): string {
+    const start: number = this.#index - 1;
+    const char: string = this.#peek(data, this.#index++);
+
+    switch (char) {
+      case "\\":
+      case "'":
+      case "\"": return char;
+      case "b": return "\b";
+      case "s": return " ";
+      case "t": return "\t";
+      case "n": return "\n";
+      case "f": return "\f";
+      case "r": return "\r";
+      case "x":
+      case "u":
+      case "U": {
+        const length: number = { x: 2, u: 4, U: 8 }[char];
+        const hex: string = data.slice(this.#index, this.#index + length);
+        if (!new RegExp(`^[0-9a-f]{${length}}$`, "i").test(hex)) {
+          throw new SNBTSyntaxError(`Invalid escape sequence '\\${char}${hex}'`, { source: data, index: start, path: formatPath(this.#path), expected: `${length} hex digits` });
+        }
+        const codePoint: number = parseInt(hex, 16);
+        if (codePoint > 0x10FFFF) {
+          throw new SNBTSyntaxError(`Invalid code point '\\${char}${hex}'`, { source: data, index: start, path: formatPath(this.#path), expected: null });
+        }
+        this.#index += length;
+        return String.fromCodePoint(codePoint);
+      }
+      case "N": {
+        if (this.#peek(data, this.#index) !== "{") {
+          throw new SNBTSyntaxError("Invalid escape sequence '\\N'", { source: data, index: start, path: formatPath(this.#path), expected: "'{'" });
+        }
+        const end: number = data.indexOf("}", this.#index);
+        if (end === -1) {
+          throw this.#unexpectedEnd(data, "closing brace }");
+        }
+        const name: string = data.slice(this.#index + 1, end);
+        const codePoint: number | null = getCodePointFromName(name);
+        if (codePoint === null) {
+          throw new SNBTSyntaxError(`Unsupported character name '\\N{${name}}', named escapes only cover the blocks in NAMED_ESCAPE_BLOCKS`, { source: data, index: start, path: formatPath(this.#path), expected: null });
+        }
+        this.#index = end + 1;
+        return String.fromCodePoint(codePoint);
+      }
+      default: throw new SNBTSyntaxError(`Invalid escape sequence '\\${char}'`, { source: data, index: start, path: formatPath(this.#path), expected: null });
+    }
   }
 
   #unescapeString(value: StringTag): string {
@@ -208,13 +476,13 @@ class SNBTReader {
 
     if (this.#peek(data, this.#index) == ",") {
       if (isFirst) {
-        throw this.#unexpectedChar(data, this.#index);
+        throw this.#unexpectedChar(data, this.#index, `an entry or '${end}'`);
       } else {
         this.#index++;
         this.#skipWhitespace(data);
       }
     } else if (!isFirst && this.#peek(data, this.#index) != end) {
-      throw this.#unexpectedChar(data, this.#index);
+      throw this.#unexpectedChar(data, this.#index, `',' or '${end}'`);
     }
   }
 
@@ -233,6 +501,11 @@ class SNBTReader {
         }
       }
 
+      if (this.#modern) {
+        array.push(this.#parseModernArrayItem(data, type));
+        continue;
+      }
+
       this.#i = this.#index;
       if (this.#peek(data, this.#index) == "-") {
         this.#index++;
@@ -245,21 +518,37 @@ class SNBTReader {
 
       const prefix: "b" | "l" | "" = (type === "B") ? "b" : (type === "L") ? "l" : "";
 
-      if (this.#peek(data, this.#index) == prefix) {
+      if (this.#peek(data, this.#index).toLowerCase() == prefix) {
         this.#index++;
       }
 
       if (this.#index - this.#i == 0) {
-        throw this.#unexpectedChar(data, this.#index);
+        throw this.#unexpectedChar(data, this.#index, "an integer");
       }
       if (UNQUOTED_STRING_PATTERN.test(this.#peek(data, this.#index))) {
-        throw this.#unexpectedChar(data, this.#index);
+        throw this.#unexpectedChar(data, this.#index, "',' or ']'");
       }
 
       array.push(data.slice(this.#i, this.#index - ((type !== "I") ? 1 : 0)));
     }
 
-    throw this.#unexpectedEnd();
+    throw this.#unexpectedEnd(data, "']'");
+  }
+
+  #parseModernArrayItem(data: string, type: "B" | "I" | "L"): string {
+    const start: number = this.#index;
+    const itemType: TAG.BYTE | TAG.INT | TAG.LONG = (type === "B") ? TAG.BYTE : (type === "L") ? TAG.LONG : TAG.INT;
+    const token: string = this.#parseUnquotedString(data);
+
+    if (itemType === TAG.BYTE && (token === "true" || token === "false")) {
+      return token === "true" ? "1" : "0";
+    }
+
+    const value: Tag = this.#parseModernNumber(data, token, start, itemType);
+    if (getTagType(value) !== itemType) {
+      throw new SNBTSyntaxError(`Encountered unexpected item '${token}' in ${TAG[itemType]} array`, { source: data, index: start, path: formatPath(this.#path), expected: `a ${TAG[itemType]} integer` });
+    }
+    return `${value.valueOf()}`;
   }
 
   #parseList(data: string, key: string): ByteArrayTag | ListTag<Tag> | IntArrayTag | LongArrayTag {
@@ -277,33 +566,38 @@ class SNBTReader {
 
       if (this.#peek(data, this.#index) == ",") {
         if (array.length == 0) {
-          throw this.#unexpectedChar(data, this.#index);
+          throw this.#unexpectedChar(data, this.#index, "an entry or ']'");
         } else {
           this.#index++;
           this.#skipWhitespace(data);
         }
       } else if (array.length > 0 && this.#peek(data, this.#index) != "]") {
-        throw this.#unexpectedChar(data, this.#index - 1);
+        throw this.#unexpectedChar(data, this.#index, "',' or ']'");
       }
 
       if (this.#peek(data, this.#index) == "]") {
         this.#index++;
-        return array satisfies ListTag<Tag>;
+        return (this.#modern ? wrapHeterogeneousList(array) : array) satisfies ListTag<Tag>;
       }
 
+      this.#skipWhitespace(data);
+      const start: number = this.#index;
+
+      this.#path.push(array.length);
       const entry: Tag = this.#parseTag(data, key);
 
       if (type === undefined) {
         type = getTagType(entry);
       }
-      if (getTagType(entry) !== type) {
-        throw new TypeError(`Encountered unexpected item type '${getTagType(entry)}' in List '${key}' at index ${array.length}, expected item type '${type}'. All tags in a List tag must be of the same type`);
+      if (getTagType(entry) !== type && !this.#modern) {
+        throw new SNBTSyntaxError(`Encountered unexpected item type '${TAG[getTagType(entry)]}' in List '${key}' at index ${array.length}, all tags in a List tag must be of the same type`, { source: data, index: start, path: formatPath(this.#path), expected: `a ${TAG[type]} tag` });
       }
+      this.#path.pop();
 
       array.push(entry);
     }
 
-    throw this.#unexpectedEnd();
+    throw this.#unexpectedEnd(data, "']'");
   }
 
   #parseCompound(data: string): CompoundTag {
@@ -322,11 +616,32 @@ class SNBTReader {
       const key: string = this.#parseString(data);
       this.#skipWhitespace(data);
 
-      if (data[this.#index++] != ":") {
-        throw this.#unexpectedChar(data, this.#index);
+      if (this.#peek(data, this.#index) != ":") {
+        throw this.#unexpectedChar(data, this.#index, "':'");
       }
+      this.#index++;
 
+      this.#path.push(key);
       value[key] = this.#parseTag(data, key);
+      this.#path.pop();
     }
   }
+}
+
+/**
+ * Wraps the items of a List tag with mixed item types into Compound tags, so it can be stored as NBT.
+*/
+function wrapHeterogeneousList(list: ListTag<Tag>): ListTag<Tag> {
+  const type: TAG | undefined = list[0] !== undefined ? getTagType(list[0]) : undefined;
+  if (list.every(entry => getTagType(entry) === type)) return list;
+  return list.map(entry => getTagType(entry) === TAG.COMPOUND && !isWrapperCompound(entry) ? entry : { "": entry });
+}
+
+/**
+ * Checks whether a Compound tag only has a single empty key, as used to wrap the items of heterogeneous List tags.
+*/
+export function isWrapperCompound(value: Tag): value is CompoundTag {
+  if (getTagType(value) !== TAG.COMPOUND) return false;
+  const keys: string[] = Object.keys(value as CompoundTag);
+  return keys.length === 1 && keys[0] === "";
 }
\ No newline at end of file
@@ -0,0 +1,419 @@
+import { NBTData } from "./format.js";
+import { Int8, Int32 } from "./primitive.js";
+import { parse } from "./parse.js";
+import { TAG, TAG_TYPE, isTag, getTagType, cloneTag } from "./tag.js";
+
+import type { Tag, RootTag, RootTagLike, ListTag, CompoundTag } from "./tag.js";
+
+export type NBTPath = NBTPathNode[];
+
+export type NBTPathNode = KeyNode | FilterNode | IndexNode | AllNode | AllFilterNode;
+
+/**
+ * Selects a child of a Compound tag, `Name` or `"Quoted Name"`.
+*/
+export interface KeyNode {
+  type: "key";
+  name: string;
+}
+
+/**
+ * Keeps only the Compound tags which match the filter, `{Name:"value"}`.
+*/
+export interface FilterNode {
+  type: "filter";
+  filter: CompoundTag;
+}
+
+/**
+ * Selects an item of a List or Array tag, `[0]`. Negative indices count back from the end.
+*/
+export interface IndexNode {
+  type: "index";
+  index: number;
+}
+
+/**
+ * Selects every item of a List or Array tag, `[]`.
+*/
+export interface AllNode {
+  type: "all";
+}
+
+/**
+ * Selects every Compound item of a List tag which matches the filter, `[{Name:"value"}]`.
+*/
+export interface AllFilterNode {
+  type: "all-filter";
+  filter: CompoundTag;
+}
+
+interface Reference {
+  parent: CompoundTag | ListTag<Tag> | ArrayTag | null;
+  key: string | number | null;
+  value: Tag | undefined;
+}
+
+type ArrayTag = Int8Array | Uint8Array | Int32Array | Uint32Array | BigInt64Array | BigUint64Array;
+
+const UNQUOTED_KEY_PATTERN = /^[^\s"'[\]{}.]+$/;
+
+/**
+ * Parses an NBT path string, using the same syntax as Minecraft's `/data` command.
+ *
+ * Compound filters are parsed as SNBT.
+*/
+export function parsePath(path: string): NBTPath {
+  if (typeof path !== "string") {
+    path satisfies never;
+    throw new TypeError("First parameter must be a string");
+  }
+
+  const nodes: NBTPath = [];
+  let index: number = 0;
+
+  const unexpected = (): Error => index < path.length
+    ? new Error(`Unexpected character ${path[index]} at position ${index} in NBT path '${path}'`)
+    : new Error(`Unexpected end of NBT path '${path}'`);
+
+  const readFilter = (): CompoundTag => {
+    const start: number = index;
+    let depth: number = 0;
+    let quote: string | null = null;
+
+    for (; index < path.length; index++) {
+      const char: string = path[index]!;
+      if (quote !== null) {
+        if (char === "\\") index++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+      if (char === '"' || char === "'") quote = char;
+      else if (char === "{") depth++;
+      else if (char === "}" && --depth === 0) break;
+    }
+
+    if (index === path.length) throw unexpected();
+    index++;
+
+    const filter: RootTag = parse(path.slice(start, index));
+    if (getTagType(filter) !== TAG.COMPOUND) throw unexpected();
+    return filter as CompoundTag;
+  };
+
+  const readKey = (): string => {
+    const quote: string = path[index]!;
+
+    if (quote === '"' || quote === "'") {
+      let name: string = "";
+      for (index++; index < path.length; index++) {
+        const char: string = path[index]!;
+        if (char === quote) {
+          index++;
+          return name;
+        }
+        if (char === "\\") {
+          index++;
+          if (index === path.length) break;
+        }
+        name += path[index];
+      }
+      throw unexpected();
+    }
+
+    const start: number = index;
+    while (index < path.length && UNQUOTED_KEY_PATTERN.test(path[index]!)) {
+      index++;
+    }
+    if (index === start) throw unexpected();
+    return path.slice(start, index);
+  };
+
+  if (path[index] === "{") {
+    nodes.push({ type: "filter", filter: readFilter() });
+  }
+
+  while (index < path.length) {
+    if (path[index] === "[") {
+      index++;
+      if (path[index] === "]") {
+        index++;
+        nodes.push({ type: "all" });
+      } else if (path[index] === "{") {
+        const filter: CompoundTag = readFilter();
+        if (path[index++] !== "]") throw unexpected();
+        nodes.push({ type: "all-filter", filter });
+      } else {
+        const match: RegExpMatchArray | null = /^-?\d+/.exec(path.slice(index));
+        if (match === null) throw unexpected();
+        index += match[0].length;
+        if (path[index++] !== "]") throw unexpected();
+        nodes.push({ type: "index", index: Number(match[0]) });
+      }
+      continue;
+    }
+
+    if (nodes.length !== 0) {
+      if (path[index] !== ".") throw unexpected();
+      index++;
+    }
+
+    nodes.push({ type: "key", name: readKey() });
+
+    if (path[index] === "{") {
+      nodes.push({ type: "filter", filter: readFilter() });
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Converts a list of Compound keys and List indices into an NBT path string.
+*/
+export function formatPath(path: readonly (string | number)[]): string {
+  return path.map((segment, i) => {
+    if (typeof segment === "number") return `[${segment}]`;
+    const key: string = UNQUOTED_KEY_PATTERN.test(segment) ? segment : `"${segment.replace(/["\\]/g, character => `\\${character}`)}"`;
+    return (i === 0) ? key : `.${key}`;
+  }).join("");
+}
+
+/**
+ * Returns the first tag which matches the NBT path, or `undefined` if there are none.
+*/
+export function get<T extends Tag = Tag>(data: RootTagLike | NBTData, path: string | NBTPath): T | undefined {
+  return getAll<T>(data, path)[0];
+}
+
+/**
+ * Returns every tag which matches the NBT path.
+*/
+export function getAll<T extends Tag = Tag>(data: RootTagLike | NBTData, path: string | NBTPath): T[] {
+  return resolve(data, path, false)
+    .map(({ value }) => value)
+    .filter((value): value is T => value !== undefined);
+}
+
+/**
+ * Sets every tag which matches the NBT path to a copy of the value, and returns the number of tags that were set.
+ *
+ * Missing Compound and List tags along the path are created.
+*/
+export function set(data: RootTagLike | NBTData, path: string | NBTPath, value: Tag): number {
+  assertTag(value);
+  const references: Reference[] = resolve(data, path, true);
+
+  for (const { parent, key } of references) {
+    if (parent === null || key === null) {
+      throw new TypeError("Cannot set the root tag of an NBT object");
+    }
+    setEntry(parent, key, cloneTag(value));
+  }
+
+  return references.length;
+}
+
+/**
+ * Removes every tag which matches the NBT path, and returns the number of tags that were removed.
+*/
+export function remove(data: RootTagLike | NBTData, path: string | NBTPath): number {
+  const references: Reference[] = resolve(data, path, false).filter(({ value }) => value !== undefined);
+
+  // Remove List items from the end first, so the indices of earlier items stay valid.
+  const sorted: Reference[] = references.toSorted((a, b) => typeof a.key === "number" && typeof b.key === "number" ? b.key - a.key : 0);
+
+  for (const { parent, key } of sorted) {
+    if (parent === null || key === null) {
+      throw new TypeError("Cannot remove the root tag of an NBT object");
+    }
+    if (ArrayBuffer.isView(parent)) {
+      throw new TypeError("Cannot remove an item from an Array tag, as they have a fixed length");
+    }
+    if (Array.isArray(parent)) {
+      parent.splice(key as number, 1);
+    } else {
+      delete parent[key as string];
+    }
+  }
+
+  return references.length;
+}
+
+/**
+ * Inserts a copy of the value into every List tag which matches the NBT path, and returns the number of List tags that were changed.
+ *
+ * Negative indices count back from the end of the List tag, where `-1` appends the value.
+*/
+export function insert(data: RootTagLike | NBTData, path: string | NBTPath, index: number, value: Tag): number {
+  assertTag(value);
+  if (!Number.isInteger(index)) {
+    throw new TypeError("Index must be an integer");
+  }
+
+  const lists: Tag[] = getAll(data, path);
+
+  for (const list of lists) {
+    if (!Array.isArray(list)) {
+      throw new TypeError(`Expected a List tag to insert into, encountered tag type '${getTagType(list)}'`);
+    }
+    assertListItemType(list, value);
+    const position: number = (index < 0) ? list.length + index + 1 : index;
+    if (position < 0 || position > list.length) {
+      throw new RangeError(`Index ${index} is out of bounds for a List tag of length ${list.length}`);
+    }
+    list.splice(position, 0, cloneTag(value));
+  }
+
+  return lists.length;
+}
+
+function resolve(data: RootTagLike | NBTData, path: string | NBTPath, create: boolean): Reference[] {
+  if (data instanceof NBTData) {
+    data = data.data;
+  }
+  if (typeof path === "string") {
+    path = parsePath(path);
+  }
+
+  let references: Reference[] = [{ parent: null, key: null, value: data as RootTag }];
+
+  for (const [i, node] of path.entries()) {
+    const next: NBTPathNode | undefined = path[i + 1];
+    const last: boolean = next === undefined;
+
+    references = references.flatMap<Reference>(({ value }) => {
+      switch (node.type) {
+        case "key": {
+          if (getTagType(value) !== TAG.COMPOUND) return [];
+          const parent = value as CompoundTag;
+          let entry: Tag | undefined = parent[node.name];
+          if (entry === undefined && create && next !== undefined) {
+            entry = (next.type === "key" || next.type === "filter") ? {} : [];
+            parent[node.name] = entry;
+          }
+          if (entry === undefined && !(create && last)) return [];
+          return [{ parent, key: node.name, value: entry }];
+        }
+        case "filter": {
+          return value !== undefined && matches(value, node.filter) ? [{ parent: null, key: null, value }] : [];
+        }
+        case "index": {
+          if (!isListLike(value)) return [];
+          const index: number = (node.index < 0) ? value.length + node.index : node.index;
+          if (index < 0 || index >= value.length) return [];
+          return [{ parent: value, key: index, value: getEntry(value, index) }];
+        }
+        case "all":
+        case "all-filter": {
+          if (!isListLike(value)) return [];
+          const references: Reference[] = [];
+          for (let index: number = 0; index < value.length; index++) {
+            const entry: Tag | undefined = getEntry(value, index);
+            if (entry === undefined) continue;
+            if (node.type === "all-filter" && !matches(entry, node.filter)) continue;
+            references.push({ parent: value, key: index, value: entry });
+          }
+          return references;
+        }
+      }
+    });
+  }
+
+  return fixFilterParents(path, references, data as RootTag, create);
+}
+
+/**
+ * Filter nodes don't change which tag is selected, so the parent of the previous node is restored for each of their results.
+*/
+function fixFilterParents(path: NBTPath, references: Reference[], root: RootTag, create: boolean): Reference[] {
+  if (path.at(-1)?.type !== "filter") return references;
+  const parents: Reference[] = resolve(root, path.slice(0, -1), create);
+  return parents.filter(parent => references.some(({ value }) => value === parent.value));
+}
+
+function isListLike(value: Tag | undefined): value is ListTag<Tag> | ArrayTag {
+  return Array.isArray(value) || (ArrayBuffer.isView(value) && !(value instanceof DataView));
+}
+
+function getEntry(value: ListTag<Tag> | ArrayTag, index: number): Tag | undefined {
+  if (Array.isArray(value)) return value[index];
+  const entry: number | bigint = value[index]!;
+  switch (getTagType(value)) {
+    case TAG.BYTE_ARRAY: return new Int8(entry as number);
+    case TAG.INT_ARRAY: return new Int32(entry as number);
+    default: return entry as bigint;
+  }
+}
+
+function setEntry(parent: CompoundTag | ListTag<Tag> | ArrayTag, key: string | number, value: Tag): void {
+  if (Array.isArray(parent)) {
+    assertListItemType(parent, value, key as number);
+    parent[key as number] = value;
+    return;
+  }
+
+  if (ArrayBuffer.isView(parent)) {
+    const type: TAG = getTagType(parent);
+    const expected: TAG = (type === TAG.BYTE_ARRAY) ? TAG.BYTE : (type === TAG.INT_ARRAY) ? TAG.INT : TAG.LONG;
+    if (getTagType(value) !== expected) {
+      throw new TypeError(`Encountered unexpected item type '${getTagType(value)}' for an Array tag of type '${type}', expected item type '${expected}'`);
+    }
+    if (parent instanceof BigInt64Array || parent instanceof BigUint64Array) {
+      parent[key as number] = value as bigint;
+    } else {
+      parent[key as number] = Number(value.valueOf());
+    }
+    return;
+  }
+
+  parent[key as string] = value;
+}
+
+function assertListItemType(list: ListTag<Tag>, value: Tag, exclude: number = -1): void {
+  const first: Tag | undefined = list.find((entry, i) => i !== exclude && isTag(entry));
+  const type: TAG | undefined = (first !== undefined) ? getTagType(first) : list[TAG_TYPE];
+  if (type === undefined || type === TAG.END || type === getTagType(value)) return;
+  throw new TypeError(`Encountered unexpected item type '${getTagType(value)}' for a List tag of type '${type}'. All tags in a List tag must be of the same type`);
+}
+
+function assertTag(value: unknown): asserts value is Tag {
+  if (!isTag(value)) {
+    throw new TypeError("Value must be a valid tag");
+  }
+}
+
+/**
+ * Checks whether a tag matches a filter tag, using the same rules as Minecraft's NBT path filters.
+ *
+ * Compound filters only need to match the keys they contain, and List filters need each of their items to match at least one item in the List tag.
+*/
+function matches(value: Tag, filter: Tag): boolean {
+  const type: TAG = getTagType(filter);
+  if (getTagType(value) !== type) return false;
+
+  switch (type) {
+    case TAG.COMPOUND: {
+      return Object.entries(filter as CompoundTag).every(([key, entry]) => {
+        if (!isTag(entry)) return true;
+        const other: Tag | undefined = (value as CompoundTag)[key];
+        return other !== undefined && matches(other, entry);
+      });
+    }
+    case TAG.LIST: {
+      const items: Tag[] = (filter as ListTag<Tag>).filter(isTag);
+      if (items.length === 0) return (value as ListTag<Tag>).filter(isTag).length === 0;
+      return items.every(item => (value as ListTag<Tag>).some(entry => isTag(entry) && matches(entry, item)));
+    }
+    case TAG.BYTE_ARRAY:
+    case TAG.INT_ARRAY:
+    case TAG.LONG_ARRAY: {
+      const a = value as ArrayTag;
+      const b = filter as ArrayTag;
+      return a.length === b.length && a.every((entry, i) => entry === b[i]);
+    }
+    case TAG.LONG:
+    case TAG.STRING: return value === filter;
+    default: return Number(value.valueOf()) === Number(filter.valueOf());
+  }
+}
\ No newline at end of file
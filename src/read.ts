@@ -1,41 +1,74 @@
 import { MUtf8Decoder } from "mutf-8";
-import { NBTData } from "./format.js";
+import { NBTData, getDefaultStringEncoding } from "./format.js";
 import { Int8, Int16, Int32, Float32 } from "./primitive.js";
 import { TAG, TAG_TYPE, isTagType } from "./tag.js";
-import { decompress } from "./compression.js";
+import { formatPath } from "./path.js";
+import { decompress, detectCompression, isCompression } from "./compression.js";
+import { HOST_LITTLE_ENDIAN, swapEndian } from "./endian.js";
+import { BEDROCK_LEVEL_FRAMING } from "./framing.js";
 
-import type { RootName, Endian, Compression, BedrockLevel } from "./format.js";
-import type { Tag, RootTag, RootTagLike, ByteTag, ShortTag, IntTag, LongTag, FloatTag, DoubleTag, StringTag, ByteArrayTag, ListTag, CompoundTag, IntArrayTag, LongArrayTag } from "./tag.js";
+import type { Format, RootName, Endian, Compression, BedrockLevel, StringEncoding, SourceMap, SourceMapEntry } from "./format.js";
+import type { Schema } from "./schema.js";
+import type { Framing, FrameHeader } from "./framing.js";
+import type { Tag, RootTag, RootTagLike, AnyRootTagLike, ByteTag, ShortTag, IntTag, LongTag, FloatTag, DoubleTag, StringTag, ByteArrayTag, ListTag, CompoundTag, IntArrayTag, LongArrayTag } from "./tag.js";
+
+const MUTF8_DECODER = new MUtf8Decoder();
+const UTF8_DECODER = new TextDecoder();
 
 export interface ReadOptions {
   rootName: boolean | RootName;
   endian: Endian;
   compression: Compression;
   bedrockLevel: BedrockLevel;
+  /**
+   * Defaults to Modified UTF-8 for big endian data, and to UTF-8 for little endian data.
+  */
+  stringEncoding?: StringEncoding;
   strict: boolean;
+  /**
+   * Limits the read to only the selected tags, skipping over the rest of the buffer without decoding it.
+   * 
+   * Accepts either a list of dot-separated paths (`"Data.Player.Pos"`), or a selector function.
+  */
+  select?: ReadSelection;
+  /**
+   * Validates the read result against a schema, which also provides the type of the result. Throws a `SchemaError` if the data doesn't match.
+  */
+  schema?: Schema<RootTagLike>;
+  /**
+   * Records the byte offsets of each tag on the result's `sourceMap` property.
+  */
+  sourceMap?: boolean;
+  /**
+   * Allows the root to be any tag type, rather than only a List or Compound tag.
+  */
+  anyRoot?: boolean;
+  /**
+   * A custom header to read before the root, such as a length prefix. The Bedrock Level header is read in its place when the `bedrockLevel` option is enabled.
+  */
+  framing?: Framing | null;
 }
 
+export type ReadSelection = Iterable<string | readonly (string | number)[]> | ReadSelector;
+
+/**
+ * Determines whether a tag should be read. Returning `true` reads the tag with all of its children, `false` skips over it, and `"descend"` reads the tag while checking each of its children.
+*/
+export type ReadSelector = (path: readonly (string | number)[], type: TAG) => boolean | "descend";
+
 /**
  * Converts an NBT buffer into an NBT object. Accepts an endian type, compression format, and file headers to read the data with.
  * 
  * If a format option isn't specified, the function will attempt reading the data using all options until it either throws or returns successfully.
 */
-export async function read<T extends RootTagLike = RootTag>(data: Uint8Array | ArrayBufferLike | Blob, options: Partial<ReadOptions> = {}): Promise<NBTData<T>> {
-  if (data instanceof Blob) {
-    data = await data.arrayBuffer();
-  }
+export async function read<T extends RootTagLike>(data: Uint8Array | ArrayBufferLike | Blob, options: Partial<ReadOptions> & { schema: Schema<T>; }): Promise<NBTData<T>>;
+export async function read<T extends AnyRootTagLike = Tag>(data: Uint8Array | ArrayBufferLike | Blob, options: Partial<ReadOptions> & { anyRoot: true; }): Promise<NBTData<T>>;
+export async function read<T extends RootTagLike = RootTag>(data: Uint8Array | ArrayBufferLike | Blob, options?: Partial<ReadOptions>): Promise<NBTData<T>>;
+export async function read<T extends AnyRootTagLike = RootTag>(data: Uint8Array | ArrayBufferLike | Blob, options: Partial<ReadOptions> = {}): Promise<NBTData<T>> {
+  data = await toUint8Array(data);
 
-  if (!("byteOffset" in data)) {
-    data = new Uint8Array(data);
-  }
-
-  if (!(data instanceof Uint8Array)) {
-    data satisfies never;
-    throw new TypeError("First parameter must be a Uint8Array, ArrayBuffer, SharedArrayBuffer, or Blob");
-  }
-
-  const reader = new NBTReader(data, options.endian !== "big", options.endian === "little-varint");
-  let { rootName, endian, compression, bedrockLevel, strict = true } = options;
+  let reader = new NBTReader(data, options.endian !== "big", options.endian === "little-varint");
+  let { rootName, endian, compression, bedrockLevel, stringEncoding, strict = true, select, schema, sourceMap = false, anyRoot = false, framing = null } = options;
 
   if (rootName !== undefined && typeof rootName !== "boolean" && typeof rootName !== "string" && rootName !== null) {
     rootName satisfies never;
@@ -45,87 +78,348 @@ export async function read<T extends RootTagLike = RootTag>(data: Uint8Array | A
     endian satisfies never;
     throw new TypeError("Endian option must be a valid endian type");
   }
-  if (compression !== undefined && compression !== "deflate" && compression !== "deflate-raw" && compression !== "gzip" && compression !== null) {
+  if (compression !== undefined && compression !== null && !isCompression(compression)) {
     compression satisfies never;
     throw new TypeError("Compression option must be a valid compression type");
   }
-  if (bedrockLevel !== undefined && typeof bedrockLevel !== "boolean" && typeof bedrockLevel !== "number" && bedrockLevel !== null) {
+  if (bedrockLevel !== undefined && typeof bedrockLevel !== "boolean") {
     bedrockLevel satisfies never;
-    throw new TypeError("Bedrock Level option must be a boolean, number, or null");
+    throw new TypeError("Bedrock Level option must be a boolean");
+  }
+  if (stringEncoding !== undefined && stringEncoding !== "mutf-8" && stringEncoding !== "utf-8") {
+    stringEncoding satisfies never;
+    throw new TypeError("String Encoding option must be 'mutf-8' or 'utf-8'");
   }
   if (typeof strict !== "boolean") {
     strict satisfies never;
     throw new TypeError("Strict option must be a boolean");
   }
+  if (select !== undefined && typeof select !== "function" && !(Symbol.iterator in Object(select))) {
+    throw new TypeError("Select option must be an iterable of paths or a function");
+  }
+  if (typeof sourceMap !== "boolean") {
+    sourceMap satisfies never;
+    throw new TypeError("Source Map option must be a boolean");
+  }
+  if (typeof anyRoot !== "boolean") {
+    anyRoot satisfies never;
+    throw new TypeError("Any Root option must be a boolean");
+  }
+  if (schema !== undefined && typeof schema?.validate !== "function") {
+    throw new TypeError("Schema option must be a schema");
+  }
+  if (framing !== null && typeof framing?.readHeader !== "function") {
+    throw new TypeError("Framing option must be a framing");
+  }
 
-  compression: if (compression === undefined) {
-    switch (true) {
-      case reader.hasGzipHeader(): compression = "gzip"; break compression;
-      case reader.hasZlibHeader(): compression = "deflate"; break compression;
-    }
-    try {
-      return await read<T>(data, { ...options, compression: null });
-    } catch (error) {
+  // Validated once the format is resolved, so a mismatch isn't mistaken for a format detection failure.
+  if (schema !== undefined) {
+    const result: NBTData<T> = await read<T & RootTagLike>(data, { ...options, schema: undefined });
+    result.data = schema.validate(result.data) as T;
+    return result;
+  }
+
+  // The candidates are walked without decoding them, so only the most likely format is fully read.
+  if (compression === undefined || endian === undefined || rootName === undefined) {
+    const { candidates, rejected } = await detectCandidates(data, { ...options, strict, anyRoot });
+
+    for (const { format, data: decompressed } of candidates) {
       try {
-        return await read<T>(data, { ...options, compression: "deflate-raw" });
-      } catch {
-        throw error;
+        const reader = new NBTReader(decompressed, format.endian !== "big", format.endian === "little-varint");
+        return reader.readRoot<T>({ ...format, strict, select, sourceMap, anyRoot, framing });
+      } catch (error) {
+        rejected.push({ format, reason: (error as Error).message });
       }
     }
+
+    throw new Error(`Couldn't read the buffer with any format\n${rejected.map(({ format, reason }) => `  ${describeFormat(format)}: ${reason}`).join("\n")}`);
   }
 
   compression satisfies Compression;
+  endian satisfies Endian;
+  rootName satisfies boolean | RootName;
+
+  if (compression !== null) {
+    data = await decompress(data, compression);
+    reader = new NBTReader(data, endian !== "big", endian === "little-varint");
+  }
+
+  if (bedrockLevel === undefined) {
+    bedrockLevel = framing === null && reader.hasBedrockLevelHeader(endian);
+  }
+  stringEncoding ??= getDefaultStringEncoding(endian);
+
+  return reader.readRoot<T>({ rootName, endian, compression, bedrockLevel, stringEncoding, strict, select, sourceMap, anyRoot, framing });
+}
+
+/**
+ * The result of sniffing the format of an NBT buffer.
+*/
+export interface FormatDetection {
+  /**
+   * The most likely format, or `null` if the buffer can't be read with any format.
+  */
+  format: Format | null;
+  /**
+   * From `0` to `1`. This is `1` when only one format reads the whole buffer, and is lowered when other formats read it just as well, or when the root doesn't reach the end of the buffer.
+  */
+  confidence: number;
+  /**
+   * Each format which was ruled out, along with the reason it couldn't be read.
+  */
+  rejected: RejectedFormat[];
+}
 
-  if (endian === undefined) {
+export interface RejectedFormat {
+  format: Partial<Format>;
+  reason: string;
+}
+
+interface FormatCandidate {
+  format: Format;
+  data: Uint8Array;
+  complete: boolean;
+}
+
+/**
+ * Detects the format of an NBT buffer from its compression header, then by walking the tags of each remaining candidate format without decoding them.
+ * 
+ * Format options which are already known can be passed in to narrow down the candidates. Without the `strict` option, roots which end before the end of the buffer are also accepted, at a lower confidence.
+*/
+export async function detect(data: Uint8Array | ArrayBufferLike | Blob, options: Partial<ReadOptions> = {}): Promise<FormatDetection> {
+  data = await toUint8Array(data);
+
+  const { candidates, rejected } = await detectCandidates(data, options);
+  const [candidate] = candidates;
+
+  if (candidate === undefined) {
+    return { format: null, confidence: 0, rejected };
+  }
+
+  const { format, complete } = candidate;
+  const matches: number = candidates.filter(entry => entry.complete === complete).length;
+  return { format, confidence: (complete ? 1 : 0.5) / matches, rejected };
+}
+
+/**
+ * Lists the formats which can walk the buffer, in the order of likeliness. Formats which read the whole buffer come first, each kept in the order `read()` has always tried them in: uncompressed before `deflate-raw`, big before little endian, and named before unnamed roots.
+*/
+async function detectCandidates(data: Uint8Array, options: Partial<ReadOptions>): Promise<{ candidates: FormatCandidate[]; rejected: RejectedFormat[]; }> {
+  const { strict = true, anyRoot = false } = options;
+  const compressions: Compression[] = getCompressionCandidates(data, options.compression);
+  const endians: Endian[] = options.endian !== undefined ? [options.endian] : ["big", "little", "little-varint"];
+  const rootNames: (boolean | RootName)[] = options.rootName !== undefined ? [options.rootName] : [true, false];
+  const candidates: FormatCandidate[] = [];
+  const rejected: RejectedFormat[] = [];
+
+  for (const compression of compressions) {
+    // Raw deflate is only a fallback, as any buffer could begin with raw deflate data.
+    if (candidates.some(({ complete }) => complete)) break;
+
+    let decompressed: Uint8Array;
     try {
-      return await read<T>(data, { ...options, endian: "big" });
+      decompressed = (compression !== null) ? await decompress(data, compression) : data;
     } catch (error) {
-      try {
-        return await read<T>(data, { ...options, endian: "little" });
-      } catch {
+      rejected.push({ format: { compression }, reason: (error as Error).message });
+      continue;
+    }
+
+    for (const endian of endians) {
+      for (const rootName of rootNames) {
+        const reader = new NBTReader(decompressed, endian !== "big", endian === "little-varint");
+        const bedrockLevel: BedrockLevel = options.bedrockLevel ?? ((options.framing ?? null) === null && reader.hasBedrockLevelHeader(endian));
+        let format: Partial<Format> = { rootName: rootName === false ? null : typeof rootName === "string" ? rootName : "", endian, compression, bedrockLevel };
+
         try {
-          return await read<T>(data, { ...options, endian: "little-varint" });
-        } catch {
-          throw error;
+          const { stringEncoding, ...skipped } = reader.skipRoot({ rootName, bedrockLevel, anyRoot, framing: options.framing });
+          format = { ...format, ...skipped, stringEncoding: options.stringEncoding ?? stringEncoding ?? getDefaultStringEncoding(endian) };
+          const complete: boolean = reader.byteOffset === decompressed.byteLength;
+          if (!complete && strict) {
+            const remaining: number = decompressed.byteLength - reader.byteOffset;
+            throw new Error(`Encountered unexpected End tag at byte offset ${reader.byteOffset}, ${remaining} unread bytes remaining`);
+          }
+          candidates.push({ format: format as Format, data: decompressed, complete });
+        } catch (error) {
+          rejected.push({ format, reason: (error as Error).message });
         }
       }
     }
   }
 
-  endian satisfies Endian;
+  // Stable, so candidates which are equally likely stay in their original order.
+  candidates.sort((a, b) => Number(b.complete) - Number(a.complete));
+  return { candidates, rejected };
+}
+
+/**
+ * Lists the compression formats to try, which is only the detected format when the buffer starts with a registered header. Otherwise the buffer is either uncompressed or raw deflate, which has no header.
+*/
+function getCompressionCandidates(data: Uint8Array, compression: Compression | undefined): Compression[] {
+  if (compression !== undefined) return [compression];
+  const detected: Compression = detectCompression(data);
+  return detected !== null ? [detected] : [null, "deflate-raw"];
+}
+
+function describeFormat({ rootName, endian, compression, bedrockLevel }: Partial<Format>): string {
+  const parts: string[] = [compression === undefined ? "" : compression ?? "uncompressed", endian ?? "", rootName === undefined ? "" : rootName === null ? "unnamed" : "named"];
+  if (bedrockLevel) {
+    parts.push("Bedrock Level header");
+  }
+  return parts.filter(part => part !== "").join(", ");
+}
+
+export interface ReadAllOptions extends Omit<ReadOptions, "strict" | "schema"> {}
 
-  if (rootName === undefined) {
+/**
+ * Converts an NBT buffer containing multiple adjacent NBT roots into an array of NBT objects.
+ * 
+ * The format is detected once from the first root, then used for the remaining roots in the buffer.
+*/
+export async function readAll<T extends AnyRootTagLike = RootTag>(data: Uint8Array | ArrayBufferLike | Blob, options: Partial<ReadAllOptions> = {}): Promise<NBTData<T>[]> {
+  const result: NBTData<T>[] = [];
+  for await (const entry of readEach<T>(data, options)) {
+    result.push(entry);
+  }
+  return result;
+}
+
+/**
+ * Iterates over each adjacent NBT root in an NBT buffer, until the end of the buffer is reached.
+ * 
+ * The byte range of each root within the (decompressed) buffer is available on the `byteRange` property of each result.
+*/
+export async function* readEach<T extends AnyRootTagLike = RootTag>(data: Uint8Array | ArrayBufferLike | Blob, options: Partial<ReadAllOptions> = {}): AsyncGenerator<NBTData<T>, void, void> {
+  data = await toUint8Array(data);
+
+  let { rootName, endian, compression, bedrockLevel, stringEncoding, data: decompressed } = await resolveReadAllFormat(data, options);
+  const { select, sourceMap, anyRoot, framing } = options;
+  const reader = new NBTReader(decompressed, endian !== "big", endian === "little-varint");
+
+  while (reader.byteOffset < decompressed.byteLength) {
+    yield reader.readRoot<T>({ rootName, endian, compression, bedrockLevel, stringEncoding, strict: false, select, sourceMap, anyRoot, framing });
+    bedrockLevel = false;
+  }
+}
+
+/**
+ * Resolves the format options which aren't specified, by finding the first format that walks every root through to the end of the buffer, without decoding any of their values.
+ * 
+ * Reading only the first root isn't enough here, as a short root can be misread from the start of a buffer using the wrong endian type.
+*/
+async function resolveReadAllFormat(data: Uint8Array, options: Partial<ReadAllOptions>): Promise<ReadAllOptions & { data: Uint8Array; }> {
+  const compressions: Compression[] = getCompressionCandidates(data, options.compression);
+  const endians: Endian[] = options.endian !== undefined ? [options.endian] : ["big", "little", "little-varint"];
+  const rootNames: (boolean | RootName)[] = options.rootName !== undefined ? [options.rootName] : [true, false];
+  const resolved: boolean = compressions.length === 1 && endians.length === 1 && rootNames.length === 1;
+  let error: unknown;
+
+  for (const compression of compressions) {
+    let decompressed: Uint8Array;
     try {
-      return await read<T>(data, { ...options, rootName: true });
-    } catch (error) {
-      try {
-        return await read<T>(data, { ...options, rootName: false });
-      } catch {
-        throw error;
+      decompressed = (compression !== null) ? await decompress(data, compression) : data;
+    } catch (reason) {
+      error ??= reason;
+      continue;
+    }
+
+    for (const endian of endians) {
+      for (const rootName of rootNames) {
+        const reader = new NBTReader(decompressed, endian !== "big", endian === "little-varint");
+        const bedrockLevel: BedrockLevel = options.bedrockLevel ?? ((options.framing ?? null) === null && reader.hasBedrockLevelHeader(endian));
+        const format: ReadAllOptions & { data: Uint8Array; } = { rootName, endian, compression, bedrockLevel, stringEncoding: options.stringEncoding ?? getDefaultStringEncoding(endian), data: decompressed };
+        if (resolved) return format;
+
+        try {
+          let header: BedrockLevel = bedrockLevel;
+          let stringEncoding: StringEncoding | null = null;
+          while (reader.byteOffset < decompressed.byteLength) {
+            const skipped: StringEncoding | null = reader.skipRoot({ rootName, bedrockLevel: header, anyRoot: options.anyRoot, framing: options.framing }).stringEncoding;
+            stringEncoding ??= skipped;
+            header = false;
+          }
+          return { ...format, stringEncoding: options.stringEncoding ?? stringEncoding ?? format.stringEncoding };
+        } catch (reason) {
+          error ??= reason;
+        }
       }
     }
   }
 
-  rootName satisfies boolean | RootName;
+  throw error;
+}
 
-  if (compression !== null) {
-    data = await decompress(data, compression);
+function createSelector(select: ReadSelection): ReadSelector {
+  if (typeof select === "function") return select;
+
+  const paths: string[][] = [...select].map(path => typeof path === "string" ? path.split(".") : path.map(String));
+
+  return path => {
+    let descend: boolean = false;
+    for (const selected of paths) {
+      const length: number = Math.min(path.length, selected.length);
+      let matches: boolean = true;
+      for (let i: number = 0; i < length; i++) {
+        if (String(path[i]) === selected[i]) continue;
+        matches = false;
+        break;
+      }
+      if (!matches) continue;
+      if (path.length >= selected.length) return true;
+      descend = true;
+    }
+    return descend ? "descend" : false;
+  };
+}
+
+/**
+ * Checks a string's bytes for a sequence which only one of the encodings can produce: a four-byte sequence is only valid UTF-8, while an encoded surrogate or a two-byte null character is only valid Modified UTF-8. Returns `null` if the string is valid in both.
+*/
+function sniffStringEncoding(data: Uint8Array): StringEncoding | null {
+  for (let i: number = 0; i < data.byteLength; i++) {
+    const byte: number = data[i]!;
+    if (byte >= 0xF0) return "utf-8";
+    if ((byte === 0xED && data[i + 1]! >= 0xA0) || (byte === 0xC0 && data[i + 1] === 0x80)) return "mutf-8";
   }
+  return null;
+}
 
-  if (bedrockLevel === undefined) {
-    bedrockLevel = reader.hasBedrockLevelHeader(endian);
+async function toUint8Array(data: Uint8Array | ArrayBufferLike | Blob): Promise<Uint8Array> {
+  if (data instanceof Blob) {
+    data = await data.arrayBuffer();
   }
 
-  return reader.readRoot<T>({ rootName, endian, compression, bedrockLevel, strict });
+  if (!("byteOffset" in data)) {
+    data = new Uint8Array(data);
+  }
+
+  if (!(data instanceof Uint8Array)) {
+    data satisfies never;
+    throw new TypeError("First parameter must be a Uint8Array, ArrayBuffer, SharedArrayBuffer, or Blob");
+  }
+
+  return data;
+}
+
+interface TypedArrayConstructor<T> {
+  new (buffer: ArrayBufferLike, byteOffset: number, length: number): T;
+  readonly BYTES_PER_ELEMENT: number;
 }
 
-class NBTReader {
+type MutableSourceMapEntry = { -readonly [K in keyof SourceMapEntry]: SourceMapEntry[K]; };
+
+/**
+ * @internal
+*/
+export class NBTReader {
   #byteOffset: number = 0;
-  #data: Uint8Array;
-  #view: DataView;
+  readonly #data: Uint8Array;
+  readonly #view: DataView;
   readonly #littleEndian: boolean;
   readonly #varint: boolean;
-  readonly #decoder: MUtf8Decoder = new MUtf8Decoder();
+  #decoder: MUtf8Decoder | TextDecoder = MUTF8_DECODER;
+  #sniffedEncoding: StringEncoding | null = null;
+  #sourceMap: SourceMap | null = null;
+  #path: (string | number)[] = [];
 
   constructor(data: Uint8Array, littleEndian: boolean, varint: boolean) {
     this.#data = data;
@@ -134,14 +428,8 @@ class NBTReader {
     this.#varint = varint;
   }
 
-  hasGzipHeader(): boolean {
-    const header: number = this.#view.getUint16(0, false);
-    return header === 0x1F8B;
-  }
-
-  hasZlibHeader(): boolean {
-    const header: number = this.#view.getUint8(0);
-    return header === 0x78;
+  get byteOffset(): number {
+    return this.#byteOffset;
   }
 
   hasBedrockLevelHeader(endian: Endian): boolean {
@@ -156,44 +444,113 @@ class NBTReader {
     }
   }
 
-  async readRoot<T extends RootTagLike = RootTag>({ rootName, endian, compression, bedrockLevel, strict }: ReadOptions): Promise<NBTData<T>> {
-    if (compression !== null) {
-      this.#data = await decompress(this.#data, compression);
-      this.#view = new DataView(this.#data.buffer);
-    }
+  readRoot<T extends AnyRootTagLike = RootTag>({ rootName, endian, compression, bedrockLevel, stringEncoding = getDefaultStringEncoding(endian), strict, select, sourceMap = false, anyRoot = false, framing = null }: ReadOptions): NBTData<T> {
+    const byteOffset: number = this.#byteOffset;
+    const header: FrameHeader | null = this.#readFrameHeader(bedrockLevel, framing);
+    this.#decoder = (stringEncoding === "utf-8") ? UTF8_DECODER : MUTF8_DECODER;
 
-    if (bedrockLevel) {
-      // const version =
-        this.#readUnsignedInt();
-      this.#readUnsignedInt();
-    }
+    const headerOffset: number = this.#byteOffset;
+    const [type, rootNameV] = this.#readRootHeader(rootName, anyRoot);
 
-    const type: TAG = this.#readTagType();
-    if (type !== TAG.LIST && type !== TAG.COMPOUND) {
-      throw new Error(`Expected an opening List or Compound tag at the start of the buffer, encountered tag type '${type}'`);
-    }
+    this.#sourceMap = sourceMap ? new Map() : null;
+    this.#path = [];
 
-    const rootNameV: RootName = typeof rootName === "string" || rootName ? this.#readString() : null;
-    if (typeof rootName === "string" && rootNameV !== rootName) {
-      throw new Error(`Expected root name '${rootName}', encountered '${rootNameV}'`);
-    }
-
-    const root: T = this.#readTag<T>(type);
+    const selector: ReadSelector | null = select !== undefined ? createSelector(select) : null;
+    const entry: MutableSourceMapEntry | null = this.#mapEntry(type, headerOffset);
+    const root: T = (selector !== null && (type === TAG.LIST || type === TAG.COMPOUND)) ? this.#readSelected(type, this.#path, selector) as T : this.#readTag(type) as T;
+    this.#mapEnd(entry);
+    this.#checkFrameLength(header, headerOffset);
 
     if (strict && this.#data.byteLength > this.#byteOffset) {
       const remaining: number = this.#data.byteLength - this.#byteOffset;
       throw new Error(`Encountered unexpected End tag at byte offset ${this.#byteOffset}, ${remaining} unread bytes remaining`);
     }
 
-    const result: NBTData<T> = new NBTData<T>(root, { rootName: rootNameV, endian, compression, bedrockLevel });
+    const result: NBTData<T> = new NBTData<T>(root, {
+      rootName: rootNameV,
+      endian,
+      compression,
+      bedrockLevel,
+      stringEncoding,
+      anyRoot,
+      framing: bedrockLevel ? null : framing,
+      headerVersion: header?.version ?? null
+    });
 
     if (!strict) {
       result.byteOffset = this.#byteOffset;
     }
 
+    result.byteRange = [byteOffset, this.#byteOffset];
+    result.sourceMap = this.#sourceMap;
+    this.#sourceMap = null;
+
     return result;
   }
 
+  /**
+   * Walks over a root without decoding any of its values, to check whether it can be read with a given format. Returns the root name, and the string encoding if any of the strings could only have been written with one of them.
+  */
+  skipRoot({ rootName, bedrockLevel, anyRoot = false, framing = null }: Pick<ReadOptions, "rootName" | "bedrockLevel" | "anyRoot" | "framing">): Pick<Format, "rootName" | "bedrockLevel"> & { stringEncoding: StringEncoding | null; } {
+    const header: FrameHeader | null = this.#readFrameHeader(bedrockLevel, framing);
+    const headerOffset: number = this.#byteOffset;
+    const [type, rootNameV] = this.#readRootHeader(rootName, anyRoot);
+    this.#sniffedEncoding = null;
+    this.#skipTag(type);
+    this.#checkFrameLength(header, headerOffset);
+    return { rootName: rootNameV, bedrockLevel, stringEncoding: this.#sniffedEncoding };
+  }
+
+  #readFrameHeader(bedrockLevel: BedrockLevel, framing: Framing | null): FrameHeader | null {
+    if (bedrockLevel) {
+      framing = BEDROCK_LEVEL_FRAMING;
+    }
+    if (framing === null) return null;
+
+    const header: FrameHeader = framing.readHeader(this.#data.subarray(this.#byteOffset));
+    this.#skip(header.byteLength);
+    return header;
+  }
+
+  #checkFrameLength(header: FrameHeader | null, headerOffset: number): void {
+    if (header === null || header.payloadLength === null) return;
+    const byteLength: number = this.#byteOffset - headerOffset;
+    if (byteLength !== header.payloadLength) {
+      throw new Error(`Expected a root of ${header.payloadLength} bytes from the frame header, encountered ${byteLength} bytes`);
+    }
+  }
+
+  #readRootHeader(rootName: boolean | RootName, anyRoot: boolean): [type: TAG, rootName: RootName] {
+    const type: TAG = this.#readTagType();
+    if (anyRoot ? type === TAG.END : type !== TAG.LIST && type !== TAG.COMPOUND) {
+      throw new Error(`Expected an opening ${anyRoot ? "" : "List or Compound "}tag at the start of the buffer, encountered tag type '${type}'`);
+    }
+
+    const rootNameV: RootName = typeof rootName === "string" || rootName ? this.#readString() : null;
+    if (typeof rootName === "string" && rootNameV !== rootName) {
+      throw new Error(`Expected root name '${rootName}', encountered '${rootNameV}'`);
+    }
+
+    return [type, rootNameV];
+  }
+
+  /**
+   * Adds the source map entry for the tag at the current path, which starts at the current byte offset.
+   * 
+   * Entries are added before their children, so the source map stays in buffer order.
+  */
+  #mapEntry(type: TAG, headerOffset: number | null): MutableSourceMapEntry | null {
+    if (this.#sourceMap === null) return null;
+    const entry: MutableSourceMapEntry = { type, headerOffset, payloadOffset: this.#byteOffset, byteLength: 0 };
+    this.#sourceMap.set(formatPath(this.#path), entry);
+    return entry;
+  }
+
+  #mapEnd(entry: MutableSourceMapEntry | null): void {
+    if (entry === null) return;
+    entry.byteLength = this.#byteOffset - entry.payloadOffset;
+  }
+
   #readTag<T extends Tag>(type: TAG): T;
   #readTag<T extends RootTagLike>(type: TAG): T;
   #readTag(type: TAG): Tag {
@@ -218,6 +575,140 @@ class NBTReader {
     }
   }
 
+  /**
+   * Reads a List or Compound tag, only reading the children which are selected, and skipping over the others.
+  */
+  #readSelected(type: TAG, path: (string | number)[], selector: ReadSelector): Tag {
+    switch (type) {
+      case TAG.LIST: {
+        const type: TAG = this.#readTagType();
+        const length: number = this.#varint ? this.#readVarIntZigZag(true) : this.#readInt(true);
+        const value: ListTag<Tag> = [];
+        Object.defineProperty(value, TAG_TYPE, {
+          configurable: true,
+          enumerable: false,
+          writable: true,
+          value: type
+        });
+        for (let i: number = 0; i < length; i++) {
+          path.push(i);
+          const entry: Tag | undefined = this.#readSelectedEntry(type, null, path, selector);
+          if (entry !== undefined) {
+            value[i] = entry;
+          }
+          path.pop();
+        }
+        return value;
+      }
+      case TAG.COMPOUND: {
+        const value: CompoundTag = {};
+        while (true) {
+          const headerOffset: number = this.#byteOffset;
+          const type: TAG = this.#readTagType();
+          if (type === TAG.END) break;
+          const name: string = this.#readString();
+          path.push(name);
+          const entry: Tag | undefined = this.#readSelectedEntry(type, headerOffset, path, selector);
+          if (entry !== undefined) {
+            value[name] = entry;
+          }
+          path.pop();
+        }
+        return value;
+      }
+      default: return this.#readTag(type);
+    }
+  }
+
+  #readSelectedEntry(type: TAG, headerOffset: number | null, path: (string | number)[], selector: ReadSelector): Tag | undefined {
+    const selected: boolean | "descend" = selector(path, type);
+    if (selected === false) {
+      this.#skipTag(type);
+      return undefined;
+    }
+    const entry: MutableSourceMapEntry | null = this.#mapEntry(type, headerOffset);
+    const value: Tag = (selected === "descend") ? this.#readSelected(type, path, selector) : this.#readTag(type);
+    this.#mapEnd(entry);
+    return value;
+  }
+
+  /**
+   * Moves past a tag by walking the length prefixes of its payload, without decoding any of it.
+  */
+  #skipTag(type: TAG): void {
+    switch (type) {
+      case TAG.END: {
+        const remaining: number = this.#data.byteLength - this.#byteOffset;
+        throw new Error(`Encountered unexpected End tag at byte offset ${this.#byteOffset}, ${remaining} unread bytes remaining`);
+      }
+      case TAG.BYTE: return this.#skip(1);
+      case TAG.SHORT: return this.#skip(2);
+      case TAG.INT: return void (this.#varint ? this.#readVarIntZigZag(true) : this.#skip(4));
+      case TAG.LONG: return void (this.#varint ? this.#readVarLongZigZag() : this.#skip(8));
+      case TAG.FLOAT: return this.#skip(4);
+      case TAG.DOUBLE: return this.#skip(8);
+      case TAG.BYTE_ARRAY: return this.#skip(this.#varint ? this.#readVarIntZigZag(true) : this.#readInt(true));
+      case TAG.STRING: {
+        const length: number = this.#varint ? this.#readVarInt() : this.#readUnsignedShort();
+        this.#allocate(length);
+        this.#sniffedEncoding ??= sniffStringEncoding(this.#data.subarray(this.#byteOffset, this.#byteOffset + length));
+        return this.#skip(length);
+      }
+      case TAG.LIST: {
+        const type: TAG = this.#readTagType();
+        const length: number = this.#varint ? this.#readVarIntZigZag(true) : this.#readInt(true);
+        const byteLength: number | null = this.#fixedByteLength(type);
+        if (byteLength !== null && length > 0) {
+          return this.#skip(byteLength * length);
+        }
+        for (let i: number = 0; i < length; i++) {
+          this.#skipTag(type);
+        }
+        return;
+      }
+      case TAG.COMPOUND: {
+        while (true) {
+          const type: TAG = this.#readTagType();
+          if (type === TAG.END) return;
+          this.#skipTag(TAG.STRING);
+          this.#skipTag(type);
+        }
+      }
+      case TAG.INT_ARRAY:
+      case TAG.LONG_ARRAY: {
+        if (!this.#varint) {
+          return this.#skip((type === TAG.INT_ARRAY ? 4 : 8) * this.#readInt(true));
+        }
+        const length: number = this.#readVarArrayLength();
+        for (let i: number = 0; i < length; i++) {
+          void (type === TAG.INT_ARRAY ? this.#readVarInt() : this.#readVarLong());
+        }
+        return;
+      }
+      default: throw new Error(`Encountered unsupported tag type '${type}' at byte offset ${this.#byteOffset}`);
+    }
+  }
+
+  #fixedByteLength(type: TAG): number | null {
+    switch (type) {
+      case TAG.BYTE: return 1;
+      case TAG.SHORT: return 2;
+      case TAG.INT: return this.#varint ? null : 4;
+      case TAG.LONG: return this.#varint ? null : 8;
+      case TAG.FLOAT: return 4;
+      case TAG.DOUBLE: return 8;
+      default: return null;
+    }
+  }
+
+  #skip(byteLength: number): void {
+    if (byteLength < 0) {
+      throw new Error(`Encountered invalid length '${byteLength}' at byte offset ${this.#byteOffset}`);
+    }
+    this.#allocate(byteLength);
+    this.#byteOffset += byteLength;
+  }
+
   #readTagType(): TAG {
     const type: number = this.#readUnsignedByte();
     if (!isTagType(type)) {
@@ -258,13 +749,6 @@ class NBTReader {
     return (valueOf) ? value : new Int16(value);
   }
 
-  #readUnsignedInt(): number {
-    this.#allocate(4);
-    const value: number = this.#view.getUint32(this.#byteOffset, this.#littleEndian);
-    this.#byteOffset += 4;
-    return value;
-  }
-
   #readInt(valueOf?: false): IntTag;
   #readInt(valueOf: true): number;
   #readInt(valueOf: boolean = false): number | IntTag {
@@ -274,35 +758,26 @@ class NBTReader {
     return (valueOf) ? value : new Int32(value);
   }
 
+  /**
+   * Reads an unsigned LEB128 VarInt, which is at most 5 bytes and 32 bits long.
+  */
   #readVarInt(): number {
+    const byteOffset: number = this.#byteOffset;
     let value: number = 0;
-    let shift: number = 0;
-    let byte: number;
-    while (true) {
-      byte = this.#readByte(true);
-      value |= (byte & 0x7F) << shift;
-      if ((byte & 0x80) === 0) break;
-      shift += 7;
+    for (let i: number = 0; i < 5; i++) {
+      const byte: number = this.#readUnsignedByte();
+      if (i === 4 && byte > 0x0F) break;
+      value += (byte & 0x7F) * 2 ** (i * 7);
+      if ((byte & 0x80) === 0) return value;
     }
-    return value;
+    throw new Error(`VarInt at byte offset ${byteOffset} is larger than 32 bits`);
   }
 
   #readVarIntZigZag(valueOf?: false): IntTag;
   #readVarIntZigZag(valueOf: true): number;
   #readVarIntZigZag(valueOf: boolean = false): number | IntTag {
-    let result: number = 0;
-    let shift: number = 0;
-    while (true) {
-      this.#allocate(1);
-      const byte: number = this.#readByte(true);
-      result |= ((byte & 0x7F) << shift);
-      if (!(byte & 0x80)) break;
-      shift += 7;
-      if (shift > 63) {
-        throw new Error(`VarInt size '${shift}' at byte offset ${this.#byteOffset} is too large`);
-      }
-    }
-    const zigzag: number = ((((result << 63) >> 63) ^ result) >> 1) ^ (result & (1 << 63));
+    const value: number = this.#readVarInt();
+    const zigzag: number = (value >>> 1) ^ -(value & 1);
     return valueOf ? zigzag : new Int32(zigzag);
   }
 
@@ -313,21 +788,24 @@ class NBTReader {
     return value;
   }
 
-  #readVarLongZigZag(): LongTag {
-    let result: bigint = 0n;
-    let shift: bigint = 0n;
-    while (true) {
-      this.#allocate(1);
-      const byte: number = this.#readByte(true);
-      result |= (BigInt(byte) & 0x7Fn) << shift;
-      if (!(byte & 0x80)) break;
-      shift += 7n;
-      if (shift > 63n) {
-        throw new Error(`VarLong size '${shift}' at byte offset ${this.#byteOffset} is too large`);
-      }
+  /**
+   * Reads an unsigned LEB128 VarLong, which is at most 10 bytes and 64 bits long.
+  */
+  #readVarLong(): bigint {
+    const byteOffset: number = this.#byteOffset;
+    let value: bigint = 0n;
+    for (let i: number = 0; i < 10; i++) {
+      const byte: number = this.#readUnsignedByte();
+      if (i === 9 && byte > 0x01) break;
+      value |= BigInt(byte & 0x7F) << BigInt(i * 7);
+      if ((byte & 0x80) === 0) return value;
     }
-    const zigzag: bigint = (result >> 1n) ^ -(result & 1n);
-    return zigzag;
+    throw new Error(`VarLong at byte offset ${byteOffset} is larger than 64 bits`);
+  }
+
+  #readVarLongZigZag(): LongTag {
+    const value: bigint = this.#readVarLong();
+    return (value >> 1n) ^ -(value & 1n);
   }
 
   #readFloat(valueOf?: false): FloatTag;
@@ -348,10 +826,7 @@ class NBTReader {
 
   #readByteArray(): ByteArrayTag {
     const length: number = this.#varint ? this.#readVarIntZigZag(true) : this.#readInt(true);
-    this.#allocate(length);
-    const value = new Int8Array(this.#data.subarray(this.#byteOffset, this.#byteOffset + length));
-    this.#byteOffset += length;
-    return value;
+    return this.#readTypedArray(Int8Array, length);
   }
 
   #readString(): StringTag {
@@ -365,6 +840,9 @@ class NBTReader {
   #readList(): ListTag<Tag> {
     const type: TAG = this.#readTagType();
     const length: number = this.#varint ? this.#readVarIntZigZag(true) : this.#readInt(true);
+    if (length < 0) {
+      throw new Error(`Encountered invalid List tag length '${length}' at byte offset ${this.#byteOffset}`);
+    }
     const value: ListTag<Tag> = [];
     Object.defineProperty(value, TAG_TYPE, {
       configurable: true,
@@ -372,6 +850,16 @@ class NBTReader {
       writable: true,
       value: type
     });
+    if (this.#sourceMap !== null) {
+      for (let i: number = 0; i < length; i++) {
+        this.#path.push(i);
+        const mapEntry: MutableSourceMapEntry | null = this.#mapEntry(type, null);
+        value.push(this.#readTag(type));
+        this.#mapEnd(mapEntry);
+        this.#path.pop();
+      }
+      return value;
+    }
     for (let i: number = 0; i < length; i++) {
       const entry: Tag = this.#readTag(type);
       value.push(entry);
@@ -382,9 +870,18 @@ class NBTReader {
   #readCompound(): CompoundTag {
     const value: CompoundTag = {};
     while (true) {
+      const headerOffset: number = this.#byteOffset;
       const type: TAG = this.#readTagType();
       if (type === TAG.END) break;
       const name: string = this.#readString();
+      if (this.#sourceMap !== null) {
+        this.#path.push(name);
+        const mapEntry: MutableSourceMapEntry | null = this.#mapEntry(type, headerOffset);
+        value[name] = this.#readTag(type);
+        this.#mapEnd(mapEntry);
+        this.#path.pop();
+        continue;
+      }
       const entry: Tag = this.#readTag(type);
       value[name] = entry;
     }
@@ -392,22 +889,68 @@ class NBTReader {
   }
 
   #readIntArray(): IntArrayTag {
-    const length: number = this.#varint ? this.#readVarIntZigZag(true) : this.#readInt(true);
-    const value = new Int32Array(length);
-    for (const i in value) {
-      const entry: number = this.#readInt(true);
-      value[i] = entry;
+    if (this.#varint) {
+      const length: number = this.#readVarArrayLength();
+      const value = new Int32Array(length);
+      for (let i: number = 0; i < length; i++) {
+        value[i] = this.#readVarIntZigZag(true);
+      }
+      return value;
     }
-    return value;
+    const length: number = this.#readInt(true);
+    return this.#readTypedArray(Int32Array, length);
   }
 
   #readLongArray(): LongArrayTag {
-    const length: number = this.#varint ? this.#readVarIntZigZag(true) : this.#readInt(true);
-    const value = new BigInt64Array(length);
-    for (const i in value) {
-      const entry: bigint = this.#readLong();
-      value[i] = entry;
+    if (this.#varint) {
+      const length: number = this.#readVarArrayLength();
+      const value = new BigInt64Array(length);
+      for (let i: number = 0; i < length; i++) {
+        value[i] = this.#readVarLongZigZag();
+      }
+      return value;
     }
-    return value;
+    const length: number = this.#readInt(true);
+    return this.#readTypedArray(BigInt64Array, length);
+  }
+
+  /**
+   * Reads the length of a varint Array tag, which is checked against the remaining bytes before it's allocated, since each item takes at least one byte.
+  */
+  #readVarArrayLength(): number {
+    const byteOffset: number = this.#byteOffset;
+    const length: number = this.#readVarIntZigZag(true);
+    if (length < 0) {
+      throw new Error(`Encountered invalid Array tag length '${length}' at byte offset ${byteOffset}`);
+    }
+    this.#allocate(length);
+    return length;
+  }
+
+  /**
+   * Reads the items of an Array tag as a view over the buffer when the items are aligned and in the platform's byte order, otherwise as a byte-swapped copy.
+  */
+  #readTypedArray<T extends Int8Array | Int32Array | BigInt64Array>(TypedArray: TypedArrayConstructor<T>, length: number): T {
+    if (length < 0) {
+      throw new Error(`Encountered invalid Array tag length '${length}' at byte offset ${this.#byteOffset}`);
+    }
+
+    const { BYTES_PER_ELEMENT } = TypedArray;
+    const byteLength: number = length * BYTES_PER_ELEMENT;
+    this.#allocate(byteLength);
+    const byteOffset: number = this.#data.byteOffset + this.#byteOffset;
+    this.#byteOffset += byteLength;
+
+    const native: boolean = BYTES_PER_ELEMENT === 1 || this.#littleEndian === HOST_LITTLE_ENDIAN;
+    if (native && byteOffset % BYTES_PER_ELEMENT === 0) {
+      return new TypedArray(this.#data.buffer, byteOffset, length);
+    }
+
+    // Copied through the constructor rather than `slice()`, which doesn't copy for Node.js Buffers.
+    const data = new Uint8Array(this.#data.subarray(this.#byteOffset - byteLength, this.#byteOffset));
+    if (!native) {
+      swapEndian(data, BYTES_PER_ELEMENT as 4 | 8);
+    }
+    return new TypedArray(data.buffer, 0, length);
   }
 }
\ No newline at end of file
@@ -0,0 +1,536 @@
+import { NBTData } from "./format.js";
+import { read } from "./read.js";
+import { write } from "./write.js";
+import { compress, decompress, isCompression } from "./compression.js";
+
+import type { RootTag, RootTagLike } from "./tag.js";
+import type { Compression } from "./format.js";
+import type { CompressionOptions } from "./compression.js";
+
+const SECTOR_LENGTH = 4096;
+const HEADER_LENGTH = SECTOR_LENGTH * 2;
+const CHUNK_COUNT = 1024;
+const MAX_SECTOR_COUNT = 255;
+const EXTERNAL_FLAG = 0x80;
+const CUSTOM_COMPRESSION_TYPE = 127;
+const LCE_RLE_FLAG = 0x80000000;
+const RLE_ESCAPE = 0xFF;
+
+/**
+ * The compression format of a region chunk. Gzip, Deflate, uncompressed, and LZ4 (`lz4-block`) chunks have their own compression types, while any other registered codec is stored as a custom compression type, with the codec name written before the chunk payload.
+*/
+export type RegionCompression = Compression;
+
+/**
+ * The layout of a region file.
+ *
+ * - `java`: Java Edition's Anvil and McRegion files.
+ * - `lce`: Legacy Console Edition's region files, found inside a `savegame.dat` archive. Chunks have a header with their compressed and decompressed byte lengths, and are run-length encoded before they're compressed.
+*/
+export type RegionVariant = "java" | "lce";
+
+export interface RegionChunk {
+  x: number;
+  z: number;
+  byteOffset: number;
+  sectorCount: number;
+  timestamp: number;
+  compression: RegionCompression;
+  external: boolean;
+}
+
+export interface RegionFileOptions {
+  /**
+   * The region coordinates of the file, used to name the external `.mcc` files of oversized chunks.
+  */
+  x?: number;
+  z?: number;
+  /**
+   * External `.mcc` chunk files, keyed by their file name.
+  */
+  external?: Map<string, Uint8Array>;
+  variant?: RegionVariant;
+  /**
+   * The byte order of the tables and chunk headers of Legacy Console Edition region files, which follows the console the save is from. Java Edition region files are always big endian.
+  */
+  endian?: "big" | "little";
+  /**
+   * The default compression of written chunks. Legacy Console Edition chunks don't record their compression, so it's also used to read them. Defaults to `deflate`.
+  */
+  compression?: RegionCompression;
+}
+
+export interface WriteChunkOptions extends CompressionOptions {
+  compression?: RegionCompression;
+  timestamp?: number;
+}
+
+/**
+ * An Anvil or McRegion region file (`.mca`, `.mcr`), which stores up to 32x32 compressed NBT chunks. Legacy Console Edition region files are read and written with the `lce` variant.
+ *
+ * Chunk coordinates may either be passed in as world chunk coordinates, or as local coordinates within the region.
+*/
+export class RegionFile {
+  readonly x: number;
+  readonly z: number;
+  readonly external: Map<string, Uint8Array>;
+  readonly variant: RegionVariant;
+  readonly endian: "big" | "little";
+  #compression: RegionCompression;
+  #littleEndian: boolean;
+  #data: Uint8Array;
+  #view: DataView;
+
+  constructor(data: Uint8Array | ArrayBufferLike = new Uint8Array(HEADER_LENGTH), options: RegionFileOptions = {}) {
+    if (!("byteOffset" in data)) {
+      data = new Uint8Array(data);
+    }
+
+    if (!(data instanceof Uint8Array)) {
+      data satisfies never;
+      throw new TypeError("First parameter must be a Uint8Array, ArrayBuffer, or SharedArrayBuffer");
+    }
+
+    const { x = 0, z = 0, external = new Map<string, Uint8Array>(), variant = "java", endian = "big", compression = "deflate" } = options;
+
+    if (variant !== "java" && variant !== "lce") {
+      variant satisfies never;
+      throw new TypeError("Variant option must be 'java' or 'lce'");
+    }
+    if (endian !== "big" && endian !== "little") {
+      endian satisfies never;
+      throw new TypeError("Endian option must be 'big' or 'little'");
+    }
+    if (variant === "java" && endian !== "big") {
+      throw new TypeError("Endian option must be 'big' for Java Edition region files");
+    }
+    if (compression !== null && !isCompression(compression)) {
+      compression satisfies never;
+      throw new TypeError("Compression option must be a valid compression type");
+    }
+
+    if (data.byteLength < HEADER_LENGTH) {
+      if (data.byteLength !== 0) {
+        throw new Error(`Expected a region file header of ${HEADER_LENGTH} bytes, encountered ${data.byteLength} bytes`);
+      }
+      data = new Uint8Array(HEADER_LENGTH);
+    }
+
+    this.x = x;
+    this.z = z;
+    this.external = external;
+    this.variant = variant;
+    this.endian = endian;
+    this.#compression = compression;
+    this.#littleEndian = endian === "little";
+    this.#data = new Uint8Array(Math.ceil(data.byteLength / SECTOR_LENGTH) * SECTOR_LENGTH);
+    this.#data.set(data, 0);
+    this.#view = new DataView(this.#data.buffer);
+  }
+
+  /**
+   * Lists the chunks which are currently stored in the region.
+  */
+  chunks(): RegionChunk[] {
+    const chunks: RegionChunk[] = [];
+    for (let index: number = 0; index < CHUNK_COUNT; index++) {
+      const chunk: RegionChunk | null = this.#getChunk(index);
+      if (chunk === null) continue;
+      chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  has(x: number, z: number): boolean {
+    return this.#getChunk(this.#index(x, z)) !== null;
+  }
+
+  get(x: number, z: number): RegionChunk | null {
+    return this.#getChunk(this.#index(x, z));
+  }
+
+  /**
+   * Reads the NBT data for a chunk, or returns `null` if the chunk isn't present in the region.
+  */
+  async readChunk<T extends RootTagLike = RootTag>(x: number, z: number): Promise<NBTData<T> | null> {
+    const chunk: RegionChunk | null = this.get(x, z);
+    if (chunk === null) return null;
+
+    if (this.variant === "lce") {
+      return read<T>(await this.#readLCEChunk(chunk), { rootName: true, endian: "big", compression: null, bedrockLevel: false, strict: true });
+    }
+
+    const { compression } = chunk;
+    if (compression !== null && !isCompression(compression)) {
+      throw new Error(`Chunk uses unregistered custom compression '${compression}'`);
+    }
+    // Uncompressed payloads are copied, as Array tags are read as views over the buffer, which later writes would overwrite.
+    let payload: Uint8Array = (compression === null) ? this.#readPayload(chunk).slice() : this.#readPayload(chunk);
+    if (getCompressionType(compression) === CUSTOM_COMPRESSION_TYPE) {
+      payload = decodeCustomCompression(payload).payload;
+    }
+
+    return read<T>(payload, { rootName: true, endian: "big", compression, bedrockLevel: false, strict: true });
+  }
+
+  /**
+   * Writes the NBT data for a chunk, either replacing it in place or moving it to the first free run of sectors.
+   *
+   * Chunks which don't fit within the sector limit are written to an external `.mcc` file.
+  */
+  async writeChunk<T extends RootTagLike = RootTag>(x: number, z: number, data: T | NBTData<T>, options: WriteChunkOptions = {}): Promise<void> {
+    const { compression = this.#compression, timestamp = Math.floor(Date.now() / 1000), level, strategy } = options;
+
+    if (compression !== null && !isCompression(compression)) {
+      compression satisfies never;
+      throw new TypeError("Compression option must be a valid compression type");
+    }
+    if (!Number.isInteger(timestamp)) {
+      throw new TypeError("Timestamp option must be an integer");
+    }
+
+    const index: number = this.#index(x, z);
+
+    if (this.variant === "lce") {
+      return this.#writeLCEChunk(index, await write(new NBTData(data, { endian: "big", compression: null, bedrockLevel: false })), { compression, timestamp, level, strategy });
+    }
+
+    const payload: Uint8Array = encodeCustomCompression(compression, await write(new NBTData(data, { endian: "big", compression, bedrockLevel: false }), { level, strategy }));
+    const name: string = this.#externalName(index);
+    let external: boolean = false;
+    let byteLength: number = 5 + payload.byteLength;
+
+    if (Math.ceil(byteLength / SECTOR_LENGTH) > MAX_SECTOR_COUNT) {
+      external = true;
+      byteLength = 5;
+      this.external.set(name, payload);
+    } else {
+      this.external.delete(name);
+    }
+
+    const sectorCount: number = Math.ceil(byteLength / SECTOR_LENGTH);
+    const sectorOffset: number = this.#allocateSectors(index, sectorCount);
+    const byteOffset: number = sectorOffset * SECTOR_LENGTH;
+
+    this.#data.fill(0, byteOffset, byteOffset + sectorCount * SECTOR_LENGTH);
+    this.#view.setUint32(byteOffset, byteLength - 4, false);
+    this.#view.setUint8(byteOffset + 4, getCompressionType(compression) | (external ? EXTERNAL_FLAG : 0));
+    if (!external) {
+      this.#data.set(payload, byteOffset + 5);
+    }
+
+    this.#setLocation(index, sectorOffset, sectorCount);
+    this.#view.setUint32(SECTOR_LENGTH + index * 4, timestamp, false);
+  }
+
+  async #readLCEChunk(chunk: RegionChunk): Promise<Uint8Array> {
+    const { compression } = chunk;
+    if (compression !== null && !isCompression(compression)) {
+      throw new Error(`Chunk uses unregistered compression '${compression}'`);
+    }
+    const rle: boolean = (this.#view.getUint32(chunk.byteOffset, this.#littleEndian) & LCE_RLE_FLAG) !== 0;
+    const decompressedLength: number = this.#view.getUint32(chunk.byteOffset + 4, this.#littleEndian);
+    let payload: Uint8Array = this.#readPayload(chunk);
+
+    payload = (compression !== null) ? await decompress(payload, compression) : payload.slice();
+    return rle ? decodeRLE(payload, decompressedLength) : payload;
+  }
+
+  async #writeLCEChunk(index: number, data: Uint8Array, { compression = null, timestamp = 0, level, strategy }: WriteChunkOptions): Promise<void> {
+    const encoded: Uint8Array = encodeRLE(data);
+    const payload: Uint8Array = (compression !== null) ? await compress(encoded, compression, { level, strategy }) : encoded;
+    const sectorCount: number = Math.ceil((8 + payload.byteLength) / SECTOR_LENGTH);
+    if (sectorCount > MAX_SECTOR_COUNT) {
+      throw new RangeError(`Chunk of ${payload.byteLength} bytes doesn't fit within the ${MAX_SECTOR_COUNT} sector limit of Legacy Console Edition region files`);
+    }
+
+    const sectorOffset: number = this.#allocateSectors(index, sectorCount);
+    const byteOffset: number = sectorOffset * SECTOR_LENGTH;
+
+    this.#data.fill(0, byteOffset, byteOffset + sectorCount * SECTOR_LENGTH);
+    this.#view.setUint32(byteOffset, (payload.byteLength | LCE_RLE_FLAG) >>> 0, this.#littleEndian);
+    this.#view.setUint32(byteOffset + 4, data.byteLength, this.#littleEndian);
+    this.#data.set(payload, byteOffset + 8);
+
+    this.#setLocation(index, sectorOffset, sectorCount);
+    this.#view.setUint32(SECTOR_LENGTH + index * 4, timestamp, this.#littleEndian);
+  }
+
+  /**
+   * Removes a chunk from the region, returning whether it was present.
+   *
+   * The sectors it occupied are cleared and reused by later writes.
+  */
+  deleteChunk(x: number, z: number): boolean {
+    const index: number = this.#index(x, z);
+    const chunk: RegionChunk | null = this.#getChunk(index);
+    if (chunk === null) return false;
+
+    this.#data.fill(0, chunk.byteOffset, chunk.byteOffset + chunk.sectorCount * SECTOR_LENGTH);
+    this.#setLocation(index, 0, 0);
+    this.#view.setUint32(SECTOR_LENGTH + index * 4, 0, this.#littleEndian);
+    this.external.delete(this.#externalName(index));
+    return true;
+  }
+
+  /**
+   * Moves all chunks next to each other, removing the free sectors between them and at the end of the file.
+  */
+  defragment(): void {
+    const chunks: (RegionChunk & { index: number; })[] = [];
+    for (let index: number = 0; index < CHUNK_COUNT; index++) {
+      const chunk: RegionChunk | null = this.#getChunk(index);
+      if (chunk === null) continue;
+      chunks.push({ ...chunk, index });
+    }
+    chunks.sort((a, b) => a.byteOffset - b.byteOffset);
+
+    const byteLength: number = HEADER_LENGTH + chunks.reduce((byteLength, chunk) => byteLength + chunk.sectorCount * SECTOR_LENGTH, 0);
+    const data = new Uint8Array(byteLength);
+    data.set(this.#data.subarray(0, HEADER_LENGTH), 0);
+    this.#view = new DataView(data.buffer);
+
+    let sectorOffset: number = HEADER_LENGTH / SECTOR_LENGTH;
+
+    for (const { index, byteOffset, sectorCount } of chunks) {
+      data.set(this.#data.subarray(byteOffset, byteOffset + sectorCount * SECTOR_LENGTH), sectorOffset * SECTOR_LENGTH);
+      this.#setLocation(index, sectorOffset, sectorCount);
+      sectorOffset += sectorCount;
+    }
+
+    this.#data = data;
+  }
+
+  /**
+   * Returns a copy of the region file's bytes.
+  */
+  toUint8Array(): Uint8Array {
+    return this.#data.slice();
+  }
+
+  #index(x: number, z: number): number {
+    if (!Number.isInteger(x) || !Number.isInteger(z)) {
+      throw new TypeError("Chunk coordinates must be integers");
+    }
+    return (x & 31) + (z & 31) * 32;
+  }
+
+  #externalName(index: number): string {
+    const x: number = this.x * 32 + (index & 31);
+    const z: number = this.z * 32 + (index >> 5);
+    return `c.${x}.${z}.mcc`;
+  }
+
+  #getChunk(index: number): RegionChunk | null {
+    const location: number = this.#view.getUint32(index * 4, this.#littleEndian);
+    const sectorOffset: number = location >>> 8;
+    const sectorCount: number = location & 0xFF;
+    if (sectorOffset === 0 && sectorCount === 0) return null;
+
+    const byteOffset: number = sectorOffset * SECTOR_LENGTH;
+    if (sectorOffset < HEADER_LENGTH / SECTOR_LENGTH || byteOffset + (this.variant === "lce" ? 8 : 5) > this.#data.byteLength) {
+      throw new Error(`Chunk at index ${index} has an invalid sector offset '${sectorOffset}'`);
+    }
+
+    if (this.variant === "lce") {
+      const timestamp: number = this.#view.getUint32(SECTOR_LENGTH + index * 4, this.#littleEndian);
+      return { x: index & 31, z: index >> 5, byteOffset, sectorCount, timestamp, compression: this.#compression, external: false };
+    }
+
+    const type: number = this.#view.getUint8(byteOffset + 4) & ~EXTERNAL_FLAG;
+    const external: boolean = (this.#view.getUint8(byteOffset + 4) & EXTERNAL_FLAG) !== 0;
+    const timestamp: number = this.#view.getUint32(SECTOR_LENGTH + index * 4, false);
+    const chunk: RegionChunk = { x: index & 31, z: index >> 5, byteOffset, sectorCount, timestamp, compression: null, external };
+
+    // The name of a custom codec may not be registered, in which case the chunk can be listed, but not read.
+    chunk.compression = (type === CUSTOM_COMPRESSION_TYPE) ? decodeCustomCompression(this.#readPayload(chunk)).name as RegionCompression : getRegionCompression(type);
+
+    return chunk;
+  }
+
+  #readPayload({ x, z, byteOffset, external }: RegionChunk): Uint8Array {
+    const index: number = x + z * 32;
+
+    if (external) {
+      const name: string = this.#externalName(index);
+      const payload: Uint8Array | undefined = this.external.get(name);
+      if (payload === undefined) {
+        throw new Error(`Missing external chunk file '${name}'`);
+      }
+      return payload;
+    }
+
+    if (this.variant === "lce") {
+      const byteLength: number = this.#view.getUint32(byteOffset, this.#littleEndian) & ~LCE_RLE_FLAG;
+      if (byteOffset + 8 + byteLength > this.#data.byteLength) {
+        throw new Error(`Chunk at index ${index} has an invalid byte length '${byteLength}'`);
+      }
+      return this.#data.subarray(byteOffset + 8, byteOffset + 8 + byteLength);
+    }
+
+    const byteLength: number = this.#view.getUint32(byteOffset, false);
+    if (byteLength < 1 || byteOffset + 4 + byteLength > this.#data.byteLength) {
+      throw new Error(`Chunk at index ${index} has an invalid byte length '${byteLength}'`);
+    }
+    return this.#data.subarray(byteOffset + 5, byteOffset + 4 + byteLength);
+  }
+
+  #setLocation(index: number, sectorOffset: number, sectorCount: number): void {
+    this.#view.setUint32(index * 4, (sectorOffset << 8 | sectorCount) >>> 0, this.#littleEndian);
+  }
+
+  #allocateSectors(index: number, sectorCount: number): number {
+    const previous: RegionChunk | null = this.#getChunk(index);
+
+    if (previous !== null) {
+      const sectorOffset: number = previous.byteOffset / SECTOR_LENGTH;
+      this.#data.fill(0, previous.byteOffset, previous.byteOffset + previous.sectorCount * SECTOR_LENGTH);
+      this.#setLocation(index, 0, 0);
+      if (previous.sectorCount >= sectorCount) {
+        return sectorOffset;
+      }
+    }
+
+    const totalSectors: number = this.#data.byteLength / SECTOR_LENGTH;
+    const used = new Uint8Array(totalSectors);
+    used.fill(1, 0, HEADER_LENGTH / SECTOR_LENGTH);
+
+    for (let i: number = 0; i < CHUNK_COUNT; i++) {
+      const chunk: RegionChunk | null = this.#getChunk(i);
+      if (chunk === null) continue;
+      const sectorOffset: number = chunk.byteOffset / SECTOR_LENGTH;
+      used.fill(1, sectorOffset, sectorOffset + chunk.sectorCount);
+    }
+
+    let run: number = 0;
+    for (let sectorOffset: number = 0; sectorOffset < totalSectors; sectorOffset++) {
+      run = used[sectorOffset] === 0 ? run + 1 : 0;
+      if (run === sectorCount) {
+        return sectorOffset - sectorCount + 1;
+      }
+    }
+
+    const sectorOffset: number = totalSectors - run;
+    this.#resize((sectorOffset + sectorCount) * SECTOR_LENGTH);
+    return sectorOffset;
+  }
+
+  #resize(byteLength: number): void {
+    const data = new Uint8Array(byteLength);
+    data.set(this.#data.subarray(0, byteLength), 0);
+    this.#data = data;
+    this.#view = new DataView(data.buffer);
+  }
+
+  get [Symbol.toStringTag](): "RegionFile" {
+    return "RegionFile";
+  }
+}
+
+function getRegionCompression(type: number): RegionCompression {
+  switch (type) {
+    case 1: return "gzip";
+    case 2: return "deflate";
+    case 3: return null;
+    case 4: return "lz4-block";
+    default: throw new Error(`Encountered unsupported chunk compression type '${type}'`);
+  }
+}
+
+function getCompressionType(compression: RegionCompression): number {
+  switch (compression) {
+    case "gzip": return 1;
+    case "deflate": return 2;
+    case null: return 3;
+    case "lz4-block": return 4;
+    default: return CUSTOM_COMPRESSION_TYPE;
+  }
+}
+
+/**
+ * Prefixes the payload of a custom compression chunk with the codec name, as a length-prefixed UTF-8 string.
+*/
+function encodeCustomCompression(compression: RegionCompression, payload: Uint8Array): Uint8Array {
+  if (getCompressionType(compression) !== CUSTOM_COMPRESSION_TYPE) return payload;
+
+  const name: Uint8Array = new TextEncoder().encode(compression!);
+  const result = new Uint8Array(2 + name.byteLength + payload.byteLength);
+  new DataView(result.buffer).setUint16(0, name.byteLength, false);
+  result.set(name, 2);
+  result.set(payload, 2 + name.byteLength);
+  return result;
+}
+
+function decodeCustomCompression(payload: Uint8Array): { name: string; payload: Uint8Array; } {
+  if (payload.byteLength < 2) {
+    throw new Error("Expected the codec name of a custom compression chunk");
+  }
+  const byteLength: number = new DataView(payload.buffer, payload.byteOffset, payload.byteLength).getUint16(0, false);
+  if (2 + byteLength > payload.byteLength) {
+    throw new Error("Custom compression codec name extends past the end of the chunk");
+  }
+  const name: string = new TextDecoder().decode(payload.subarray(2, 2 + byteLength));
+  return { name, payload: payload.subarray(2 + byteLength) };
+}
+
+/**
+ * Decodes the run-length encoding of Legacy Console Edition chunks, where a `0xFF` byte is followed by the run length minus one, then the repeated byte. Runs of up to three `0xFF` bytes leave out the repeated byte.
+*/
+function decodeRLE(data: Uint8Array, byteLength: number): Uint8Array {
+  let result = new Uint8Array(byteLength);
+  let length: number = 0;
+
+  for (let i: number = 0; i < data.byteLength;) {
+    const byte: number = data[i++]!;
+    let count: number = 1;
+    let value: number = byte;
+
+    if (byte === RLE_ESCAPE) {
+      if (i >= data.byteLength) {
+        throw new Error("Run-length encoded chunk ends within a run");
+      }
+      count = data[i++]! + 1;
+      if (count > 3) {
+        if (i >= data.byteLength) {
+          throw new Error("Run-length encoded chunk ends within a run");
+        }
+        value = data[i++]!;
+      }
+    }
+
+    if (length + count > result.byteLength) {
+      const grown = new Uint8Array(Math.max(length + count, result.byteLength * 2));
+      grown.set(result.subarray(0, length), 0);
+      result = grown;
+    }
+    result.fill(value, length, length + count);
+    length += count;
+  }
+
+  return result.subarray(0, length);
+}
+
+function encodeRLE(data: Uint8Array): Uint8Array {
+  const result: number[] = [];
+
+  for (let i: number = 0; i < data.byteLength;) {
+    const value: number = data[i]!;
+    let count: number = 1;
+    while (i + count < data.byteLength && data[i + count] === value && count < 256) {
+      count++;
+    }
+    i += count;
+
+    if (count > 3) {
+      result.push(RLE_ESCAPE, count - 1, value);
+    } else if (value === RLE_ESCAPE) {
+      result.push(RLE_ESCAPE, count - 1);
+    } else {
+      for (let j: number = 0; j < count; j++) {
+        result.push(value);
+      }
+    }
+  }
+
+  return new Uint8Array(result);
+}
\ No newline at end of file
@@ -0,0 +1,332 @@
+import { NBTData } from "./format.js";
+import { read } from "./read.js";
+import { write } from "./write.js";
+import { RegionFile } from "./region.js";
+import { compress, decompress, detectCompression, isCompression } from "./compression.js";
+
+import type { RootTag, RootTagLike } from "./tag.js";
+import type { Format, Compression } from "./format.js";
+import type { CompressionOptions } from "./compression.js";
+
+const HEADER_LENGTH = 12;
+const COMPRESSION_HEADER_LENGTH = 8;
+const ENTRY_LENGTH = 144;
+const NAME_LENGTH = 64;
+
+/**
+ * The format of the NBT files stored in a Legacy Console Edition save, such as `level.dat` and the files in the `players` folder.
+*/
+export const LCE_FORMAT: Readonly<Format> = Object.freeze({
+  rootName: "",
+  endian: "big",
+  compression: null,
+  bedrockLevel: false,
+  stringEncoding: "mutf-8"
+});
+
+/**
+ * The byte order of a `savegame.dat` archive, which follows the console the save is from. Xbox 360, PS3, and Wii U saves are big endian, while PS4, Xbox One, and Switch saves are little endian.
+*/
+export type SaveGameEndian = "big" | "little";
+
+export interface SaveGameFile {
+  name: string;
+  data: Uint8Array;
+  /**
+   * The modification time of the file, in milliseconds since the Unix epoch.
+  */
+  timestamp: number;
+}
+
+export interface SaveGameOptions {
+  endian?: SaveGameEndian;
+  /**
+   * The compression of the whole archive, or `null` for an uncompressed archive. Xbox 360 saves use LZX, which isn't built in, but can be supported by registering a codec for it.
+  */
+  compression?: Compression;
+  /**
+   * The save version the world was created with.
+  */
+  originalVersion?: number;
+  /**
+   * The save version the world was last saved with.
+  */
+  version?: number;
+}
+
+export interface SaveGameWriteOptions extends CompressionOptions {}
+
+/**
+ * The contents of a Legacy Console Edition `savegame.dat` archive, which holds the region files and NBT files of a world.
+ *
+ * Use `readSaveGame()` to load an archive, and `writeSaveGame()` to pack it again.
+*/
+export class SaveGame implements Iterable<SaveGameFile> {
+  endian: SaveGameEndian;
+  compression: Compression;
+  originalVersion: number;
+  version: number;
+  #files = new Map<string, SaveGameFile>();
+
+  constructor(files: Iterable<SaveGameFile> = [], options: SaveGameOptions = {}) {
+    const { endian = "big", compression = "deflate", originalVersion = 0, version = originalVersion } = options;
+
+    if (endian !== "big" && endian !== "little") {
+      endian satisfies never;
+      throw new TypeError("Endian option must be 'big' or 'little'");
+    }
+    if (compression !== null && !isCompression(compression)) {
+      compression satisfies never;
+      throw new TypeError("Compression option must be a valid compression type");
+    }
+    if (!isUint16(originalVersion) || !isUint16(version)) {
+      throw new TypeError("Version options must be unsigned 16-bit integers");
+    }
+
+    this.endian = endian;
+    this.compression = compression;
+    this.originalVersion = originalVersion;
+    this.version = version;
+
+    for (const { name, data, timestamp } of files) {
+      this.set(name, data, timestamp);
+    }
+  }
+
+  get size(): number {
+    return this.#files.size;
+  }
+
+  has(name: string): boolean {
+    return this.#files.has(name);
+  }
+
+  get(name: string): SaveGameFile | null {
+    return this.#files.get(name) ?? null;
+  }
+
+  /**
+   * Adds or replaces a file. Names are limited to 63 UTF-16 code units, and may contain `/` separators, such as `players/<id>.dat`.
+  */
+  set(name: string, data: Uint8Array, timestamp: number = Date.now()): this {
+    if (typeof name !== "string" || name.length === 0 || name.length >= NAME_LENGTH) {
+      throw new TypeError(`File name must be a string of 1 to ${NAME_LENGTH - 1} characters`);
+    }
+    if (!(data instanceof Uint8Array)) {
+      data satisfies never;
+      throw new TypeError("File data must be a Uint8Array");
+    }
+    if (!Number.isSafeInteger(timestamp) || timestamp < 0) {
+      throw new TypeError("Timestamp must be a non-negative integer");
+    }
+    this.#files.set(name, { name, data, timestamp });
+    return this;
+  }
+
+  delete(name: string): boolean {
+    return this.#files.delete(name);
+  }
+
+  /**
+   * Lists the files in the archive, in the order they're written.
+  */
+  files(): SaveGameFile[] {
+    return [...this.#files.values()];
+  }
+
+  /**
+   * Reads an NBT file from the archive, or returns `null` if it isn't present.
+   *
+   * The files are read without strict mode, as player files are often padded with unused bytes after the root.
+  */
+  async readFile<T extends RootTagLike = RootTag>(name: string): Promise<NBTData<T> | null> {
+    const file: SaveGameFile | null = this.get(name);
+    if (file === null) return null;
+    return read<T>(file.data, { ...LCE_FORMAT, rootName: true, strict: false });
+  }
+
+  async writeFile<T extends RootTagLike = RootTag>(name: string, data: T | NBTData<T>, timestamp?: number): Promise<void> {
+    this.set(name, await write(new NBTData(data, LCE_FORMAT)), timestamp);
+  }
+
+  /**
+   * Opens a region file from the archive, such as `r.0.0.mcr` or `DIM-1r.0.0.mcr`. Changes to the region are stored with `setRegion()`.
+  */
+  getRegion(name: string): RegionFile | null {
+    const file: SaveGameFile | null = this.get(name);
+    if (file === null) return null;
+    const [x = 0, z = 0] = /r\.(-?\d+)\.(-?\d+)\.mcr$/.exec(name)?.slice(1).map(Number) ?? [];
+    return new RegionFile(file.data, { x, z, variant: "lce", endian: this.endian });
+  }
+
+  setRegion(name: string, region: RegionFile, timestamp?: number): this {
+    if (region.variant !== "lce" || region.endian !== this.endian) {
+      throw new TypeError(`Region file must be a Legacy Console Edition region with ${this.endian} endian byte order`);
+    }
+    return this.set(name, region.toUint8Array(), timestamp);
+  }
+
+  *[Symbol.iterator](): IterableIterator<SaveGameFile> {
+    yield* this.#files.values();
+  }
+
+  get [Symbol.toStringTag](): "SaveGame" {
+    return "SaveGame";
+  }
+}
+
+/**
+ * Reads a `savegame.dat` archive. The byte order and compression are detected when they aren't specified.
+ *
+ * Compressed archives start with the decompressed byte length as an unsigned 64-bit integer, followed by the compressed data.
+*/
+export async function readSaveGame(data: Uint8Array | ArrayBufferLike, options: Pick<SaveGameOptions, "endian" | "compression"> = {}): Promise<SaveGame> {
+  if (!("byteOffset" in data)) {
+    data = new Uint8Array(data);
+  }
+
+  if (!(data instanceof Uint8Array)) {
+    data satisfies never;
+    throw new TypeError("First parameter must be a Uint8Array, ArrayBuffer, or SharedArrayBuffer");
+  }
+
+  let { endian, compression } = options;
+
+  if (endian !== undefined && endian !== "big" && endian !== "little") {
+    endian satisfies never;
+    throw new TypeError("Endian option must be 'big' or 'little'");
+  }
+  if (compression !== undefined && compression !== null && !isCompression(compression)) {
+    compression satisfies never;
+    throw new TypeError("Compression option must be a valid compression type");
+  }
+
+  const endians: SaveGameEndian[] = endian !== undefined ? [endian] : ["big", "little"];
+
+  if (compression === undefined) {
+    const uncompressed: boolean = endians.some(endian => isArchive(data, endian === "little"));
+    compression = uncompressed ? null : detectCompression(data.subarray(COMPRESSION_HEADER_LENGTH));
+    if (!uncompressed && compression === null) {
+      throw new Error("Couldn't detect the compression of the save archive");
+    }
+  }
+
+  let archive: Uint8Array = data;
+
+  if (compression !== null) {
+    if (data.byteLength < COMPRESSION_HEADER_LENGTH) {
+      throw new Error(`Expected a compression header of ${COMPRESSION_HEADER_LENGTH} bytes, encountered ${data.byteLength} bytes`);
+    }
+    archive = await decompress(data.subarray(COMPRESSION_HEADER_LENGTH), compression);
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    endian = endians.find(endian => Number(view.getBigUint64(0, endian === "little")) === archive.byteLength && isArchive(archive, endian === "little"));
+  } else {
+    endian = endians.find(endian => isArchive(archive, endian === "little"));
+  }
+
+  if (endian === undefined) {
+    throw new Error("Couldn't find a valid save archive header and file table");
+  }
+
+  const littleEndian: boolean = endian === "little";
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const tableOffset: number = view.getUint32(0, littleEndian);
+  const fileCount: number = view.getUint32(4, littleEndian);
+  const originalVersion: number = view.getUint16(8, littleEndian);
+  const version: number = view.getUint16(10, littleEndian);
+  const files: SaveGameFile[] = [];
+
+  for (let i: number = 0; i < fileCount; i++) {
+    const entryOffset: number = tableOffset + i * ENTRY_LENGTH;
+    const name: string = readName(view, entryOffset, littleEndian);
+    const byteLength: number = view.getUint32(entryOffset + NAME_LENGTH * 2, littleEndian);
+    const byteOffset: number = view.getUint32(entryOffset + NAME_LENGTH * 2 + 4, littleEndian);
+    const timestamp: number = Number(view.getBigUint64(entryOffset + NAME_LENGTH * 2 + 8, littleEndian));
+
+    if (byteOffset + byteLength > archive.byteLength) {
+      throw new Error(`File '${name}' extends past the end of the save archive`);
+    }
+    files.push({ name, data: archive.slice(byteOffset, byteOffset + byteLength), timestamp });
+  }
+
+  return new SaveGame(files, { endian, compression, originalVersion, version });
+}
+
+/**
+ * Packs a save into a `savegame.dat` archive, using its byte order and compression.
+*/
+export async function writeSaveGame(save: SaveGame, options: SaveGameWriteOptions = {}): Promise<Uint8Array> {
+  if (!(save instanceof SaveGame)) {
+    save satisfies never;
+    throw new TypeError("First parameter must be a SaveGame");
+  }
+
+  const { endian, compression, originalVersion, version } = save;
+  const { level, strategy } = options;
+  const littleEndian: boolean = endian === "little";
+  const files: SaveGameFile[] = save.files();
+  const tableOffset: number = files.reduce((byteOffset, { data }) => byteOffset + data.byteLength, HEADER_LENGTH);
+  const archive = new Uint8Array(tableOffset + files.length * ENTRY_LENGTH);
+  const view = new DataView(archive.buffer);
+
+  view.setUint32(0, tableOffset, littleEndian);
+  view.setUint32(4, files.length, littleEndian);
+  view.setUint16(8, originalVersion, littleEndian);
+  view.setUint16(10, version, littleEndian);
+
+  let byteOffset: number = HEADER_LENGTH;
+
+  for (const [i, { name, data, timestamp }] of files.entries()) {
+    const entryOffset: number = tableOffset + i * ENTRY_LENGTH;
+    archive.set(data, byteOffset);
+    writeName(view, entryOffset, name, littleEndian);
+    view.setUint32(entryOffset + NAME_LENGTH * 2, data.byteLength, littleEndian);
+    view.setUint32(entryOffset + NAME_LENGTH * 2 + 4, byteOffset, littleEndian);
+    view.setBigUint64(entryOffset + NAME_LENGTH * 2 + 8, BigInt(timestamp), littleEndian);
+    byteOffset += data.byteLength;
+  }
+
+  if (compression === null) {
+    return archive;
+  }
+
+  const compressed: Uint8Array = await compress(archive, compression, { level, strategy });
+  const result = new Uint8Array(COMPRESSION_HEADER_LENGTH + compressed.byteLength);
+  new DataView(result.buffer).setBigUint64(0, BigInt(archive.byteLength), littleEndian);
+  result.set(compressed, COMPRESSION_HEADER_LENGTH);
+  return result;
+}
+
+/**
+ * Checks whether a buffer has an archive header whose file table fits within it.
+*/
+function isArchive(data: Uint8Array, littleEndian: boolean): boolean {
+  if (data.byteLength < HEADER_LENGTH) return false;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tableOffset: number = view.getUint32(0, littleEndian);
+  const fileCount: number = view.getUint32(4, littleEndian);
+  return tableOffset >= HEADER_LENGTH && tableOffset + fileCount * ENTRY_LENGTH === data.byteLength;
+}
+
+function isUint16(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= 0xFFFF;
+}
+
+/**
+ * File names are stored as 64 UTF-16 code units, padded with null characters.
+*/
+function readName(view: DataView, byteOffset: number, littleEndian: boolean): string {
+  let name: string = "";
+  for (let i: number = 0; i < NAME_LENGTH; i++) {
+    const code: number = view.getUint16(byteOffset + i * 2, littleEndian);
+    if (code === 0) break;
+    name += String.fromCharCode(code);
+  }
+  return name;
+}
+
+function writeName(view: DataView, byteOffset: number, name: string, littleEndian: boolean): void {
+  for (let i: number = 0; i < name.length; i++) {
+    view.setUint16(byteOffset + i * 2, name.charCodeAt(i), littleEndian);
+  }
+}
\ No newline at end of file
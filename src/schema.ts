@@ -0,0 +1,347 @@
+import { NBTData } from "./format.js";
+import { Int8, Int16, Int32, Float32 } from "./primitive.js";
+import { formatPath } from "./path.js";
+import { TAG, TAG_TYPE, isTag, getTagType } from "./tag.js";
+
+import type { Tag, ByteTag, BooleanTag, ShortTag, IntTag, LongTag, FloatTag, DoubleTag, ByteArrayTag, StringTag, ListTag, CompoundTag, IntArrayTag, LongArrayTag } from "./tag.js";
+
+export interface SchemaOptions {
+  /**
+   * Converts plain JavaScript values into the tag type of the schema, such as a `number` into an `Int32`, or a `number[]` into an `Int32Array`.
+  */
+  coerce?: boolean;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a value doesn't match a schema, listing every mismatch along with its NBT path.
+*/
+export class SchemaError extends TypeError {
+  readonly issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(issues.map(({ path, message }) => `${path === "" ? "(root)" : path}: ${message}`).join("\n"));
+    this.name = "SchemaError";
+    this.issues = issues;
+  }
+}
+
+interface CheckContext {
+  path: (string | number)[];
+  issues: SchemaIssue[];
+  coerce: boolean;
+}
+
+type Check<T> = (value: unknown, context: CheckContext) => T | typeof INVALID;
+
+const INVALID = Symbol("nbtify.schema.invalid");
+
+/**
+ * Describes the expected shape of an NBT object at runtime, while also providing its TypeScript type.
+*/
+export class Schema<T> {
+  readonly #check: Check<T>;
+
+  constructor(check: Check<T>) {
+    this.#check = check;
+  }
+
+  /**
+   * Validates a value against the schema, and returns it as the schema's type. Throws a `SchemaError` if the value doesn't match.
+   *
+   * When coercing, the returned value is a converted copy of the original value.
+  */
+  validate(value: unknown, { coerce = false }: SchemaOptions = {}): T {
+    if (value instanceof NBTData) {
+      value = value.data;
+    }
+    const context: CheckContext = { path: [], issues: [], coerce };
+    const result: T | typeof INVALID = this.#check(value, context);
+    if (result === INVALID || context.issues.length !== 0) {
+      throw new SchemaError(context.issues);
+    }
+    return result;
+  }
+
+  /**
+   * Checks whether a value matches the schema, without coercing it.
+  */
+  is(value: unknown): value is T {
+    const context: CheckContext = { path: [], issues: [], coerce: false };
+    return this.#check(value, context) !== INVALID && context.issues.length === 0;
+  }
+
+  /**
+   * @internal
+  */
+  check(value: unknown, context: CheckContext): T | typeof INVALID {
+    return this.#check(value, context);
+  }
+
+  get [Symbol.toStringTag](): "Schema" {
+    return "Schema";
+  }
+}
+
+/**
+ * A schema for a Compound tag key which may be missing.
+*/
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional = true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type CompoundShape = Record<string, Schema<Tag | undefined>>;
+
+export type InferCompound<S extends CompoundShape> = Flatten<{
+  [K in keyof S as S[K] extends OptionalSchema<any> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as S[K] extends OptionalSchema<any> ? K : never]?: Exclude<Infer<S[K]>, undefined>;
+}>;
+
+type Flatten<T> = { [K in keyof T]: T[K]; };
+
+export interface CompoundSchemaOptions {
+  /**
+   * Rejects keys which aren't a part of the schema. By default, they are kept as-is.
+  */
+  strict?: boolean;
+}
+
+function issue(context: CheckContext, message: string): typeof INVALID {
+  context.issues.push({ path: formatPath(context.path), message });
+  return INVALID;
+}
+
+function describe(value: unknown): string {
+  const type: TAG | null = getTagType(value);
+  return (type !== null) ? `tag type '${TAG[type]}'` : `value of type '${value === null ? "null" : typeof value}'`;
+}
+
+function checkValues<T>(value: T, values: readonly unknown[], context: CheckContext): T | typeof INVALID {
+  if (values.length === 0) return value;
+  const primitive: unknown = (typeof value === "object" && value !== null) ? value.valueOf() : value;
+  if (values.includes(primitive)) return value;
+  return issue(context, `Expected one of ${values.map(String).join(", ")}, encountered ${String(primitive)}`);
+}
+
+function integer<T extends Tag>(type: TAG, min: number, max: number, create: (value: number) => T, values: readonly number[]): Schema<T> {
+  return new Schema<T>((value, context) => {
+    if (getTagType(value) !== type) {
+      if (!context.coerce || typeof value !== "number") {
+        return issue(context, `Expected tag type '${TAG[type]}', encountered ${describe(value)}`);
+      }
+      if (!Number.isInteger(value) || value < min || value > max) {
+        return issue(context, `Expected an integer from ${min} to ${max} for tag type '${TAG[type]}', encountered ${value}`);
+      }
+      value = create(value);
+    }
+    return checkValues(value as T, values, context);
+  });
+}
+
+function array<T extends Tag>(type: TAG, create: (value: unknown[]) => T): Schema<T> {
+  return new Schema<T>((value, context) => {
+    if (getTagType(value) === type) return value as T;
+    if (context.coerce && Array.isArray(value)) {
+      try {
+        return create(value);
+      } catch {
+        return issue(context, `Expected items which fit in tag type '${TAG[type]}'`);
+      }
+    }
+    return issue(context, `Expected tag type '${TAG[type]}', encountered ${describe(value)}`);
+  });
+}
+
+/**
+ * The allowed values of a schema, which are required when its type is narrowed to literals, so the narrowed type is always checked at runtime.
+*/
+type AllowedValues<T, U> = U extends T ? [] : [T, ...T[]];
+
+/**
+ * Builders for schemas of each tag type. Passing the allowed values of a tag narrows its type to them.
+ *
+ * ```ts
+ * const LevelDat = schema.compound({
+ *   Difficulty: schema.int(0, 1, 2, 3),
+ *   Pos: schema.list(schema.double())
+ * });
+ * ```
+*/
+export const schema = {
+  byte<T extends number = number>(...values: AllowedValues<T, number>): Schema<ByteTag<NoInfer<T>>> {
+    return integer<ByteTag<T>>(TAG.BYTE, -128, 127, value => new Int8(value) as ByteTag<T>, values);
+  },
+
+  /**
+   * A Byte tag which may also be a `boolean`.
+  */
+  boolean(): Schema<BooleanTag> {
+    return new Schema<BooleanTag>((value, context) => {
+      if (typeof value === "boolean") return value;
+      if (value instanceof Int8 && (value.valueOf() === 0 || value.valueOf() === 1)) return value as BooleanTag;
+      return issue(context, `Expected a boolean or a Byte tag of 0 or 1, encountered ${describe(value)}`);
+    });
+  },
+
+  short<T extends number = number>(...values: AllowedValues<T, number>): Schema<ShortTag<NoInfer<T>>> {
+    return integer<ShortTag<T>>(TAG.SHORT, -32768, 32767, value => new Int16(value) as ShortTag<T>, values);
+  },
+
+  int<T extends number = number>(...values: AllowedValues<T, number>): Schema<IntTag<NoInfer<T>>> {
+    return integer<IntTag<T>>(TAG.INT, -2147483648, 2147483647, value => new Int32(value) as IntTag<T>, values);
+  },
+
+  long<T extends bigint = bigint>(...values: AllowedValues<T, bigint>): Schema<LongTag<NoInfer<T>>> {
+    return new Schema<LongTag<T>>((value, context) => {
+      if (typeof value !== "bigint") {
+        if (!context.coerce || typeof value !== "number" || !Number.isSafeInteger(value)) {
+          return issue(context, `Expected tag type 'LONG', encountered ${describe(value)}`);
+        }
+        value = BigInt(value);
+      }
+      return checkValues(value as LongTag<T>, values, context);
+    });
+  },
+
+  float<T extends number = number>(...values: AllowedValues<T, number>): Schema<FloatTag<NoInfer<T>>> {
+    return new Schema<FloatTag<T>>((value, context) => {
+      if (!(value instanceof Float32)) {
+        if (!context.coerce || typeof value !== "number") {
+          return issue(context, `Expected tag type 'FLOAT', encountered ${describe(value)}`);
+        }
+        value = new Float32(value);
+      }
+      return checkValues(value as FloatTag<T>, values, context);
+    });
+  },
+
+  double<T extends number = number>(...values: AllowedValues<T, number>): Schema<DoubleTag<NoInfer<T>>> {
+    return new Schema<DoubleTag<T>>((value, context) => {
+      if (typeof value !== "number") {
+        return issue(context, `Expected tag type 'DOUBLE', encountered ${describe(value)}`);
+      }
+      return checkValues(value as DoubleTag<T>, values, context);
+    });
+  },
+
+  string<T extends string = string>(...values: AllowedValues<T, string>): Schema<StringTag<NoInfer<T>>> {
+    return new Schema<StringTag<T>>((value, context) => {
+      if (typeof value !== "string") {
+        return issue(context, `Expected tag type 'STRING', encountered ${describe(value)}`);
+      }
+      return checkValues(value as StringTag<T>, values, context);
+    });
+  },
+
+  byteArray(): Schema<ByteArrayTag> {
+    return array(TAG.BYTE_ARRAY, value => Int8Array.from(value, entry => {
+      if (!Number.isInteger(entry) || (entry as number) < -128 || (entry as number) > 127) throw new RangeError();
+      return entry as number;
+    }));
+  },
+
+  intArray(): Schema<IntArrayTag> {
+    return array(TAG.INT_ARRAY, value => Int32Array.from(value, entry => {
+      if (!Number.isInteger(entry) || (entry as number) < -2147483648 || (entry as number) > 2147483647) throw new RangeError();
+      return entry as number;
+    }));
+  },
+
+  longArray(): Schema<LongArrayTag> {
+    return array(TAG.LONG_ARRAY, value => BigInt64Array.from(value, entry => BigInt(entry as number | bigint)));
+  },
+
+  list<T extends Tag>(item: Schema<T>): Schema<ListTag<T>> {
+    return new Schema<ListTag<T>>((value, context) => {
+      if (!Array.isArray(value)) {
+        return issue(context, `Expected tag type 'LIST', encountered ${describe(value)}`);
+      }
+      const result: ListTag<T> = context.coerce ? [] : value;
+      let valid: boolean = true;
+      for (const [i, entry] of value.entries()) {
+        if (!context.coerce && !isTag(entry)) continue;
+        context.path.push(i);
+        const checked: T | typeof INVALID = item.check(entry, context);
+        context.path.pop();
+        if (checked === INVALID) {
+          valid = false;
+        } else if (context.coerce) {
+          result.push(checked);
+        }
+      }
+      if (context.coerce && TAG_TYPE in value) {
+        Object.defineProperty(result, TAG_TYPE, {
+          configurable: true,
+          enumerable: false,
+          writable: true,
+          value: (value as ListTag<Tag>)[TAG_TYPE]
+        });
+      }
+      return valid ? result : INVALID;
+    });
+  },
+
+  compound<S extends CompoundShape>(shape: S, { strict = false }: CompoundSchemaOptions = {}): Schema<InferCompound<S>> {
+    return new Schema<InferCompound<S>>((value, context) => {
+      if (getTagType(value) !== TAG.COMPOUND) {
+        return issue(context, `Expected tag type 'COMPOUND', encountered ${describe(value)}`);
+      }
+      const compound = value as CompoundTag;
+      const result: CompoundTag = context.coerce ? { ...compound } : compound;
+      let valid: boolean = true;
+
+      for (const [key, entry] of Object.entries(shape)) {
+        context.path.push(key);
+        const checked: Tag | undefined | typeof INVALID = (compound[key] === undefined && !(entry instanceof OptionalSchema))
+          ? issue(context, "Missing required key")
+          : entry.check(compound[key], context);
+        context.path.pop();
+        if (checked === INVALID) {
+          valid = false;
+        } else if (context.coerce && checked !== undefined) {
+          result[key] = checked;
+        }
+      }
+
+      if (strict) {
+        for (const key of Object.keys(compound)) {
+          if (key in shape || compound[key] === undefined) continue;
+          context.path.push(key);
+          issue(context, "Unexpected key");
+          context.path.pop();
+          valid = false;
+        }
+      }
+
+      return valid ? result as InferCompound<S> : INVALID;
+    });
+  },
+
+  /**
+   * Allows a Compound tag key to be missing.
+  */
+  optional<T extends Tag>(schema: Schema<T>): OptionalSchema<T> {
+    return new OptionalSchema<T>((value, context) => value === undefined ? undefined : schema.check(value, context));
+  },
+
+  /**
+   * Accepts a value which matches any of the schemas, checked in order.
+  */
+  union<T extends Schema<Tag>[]>(...schemas: T): Schema<Infer<T[number]>> {
+    return new Schema<Infer<T[number]>>((value, context) => {
+      for (const schema of schemas) {
+        const attempt: CheckContext = { path: context.path, issues: [], coerce: context.coerce };
+        const checked: Tag | typeof INVALID = schema.check(value, attempt);
+        if (checked !== INVALID && attempt.issues.length === 0) return checked as Infer<T[number]>;
+      }
+      return issue(context, `Expected a value matching one of ${schemas.length} schemas, encountered ${describe(value)}`);
+    });
+  }
+};
\ No newline at end of file
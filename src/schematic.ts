@@ -0,0 +1,760 @@
+import { NBTData } from "./format.js";
+import { Int16, Int32, Float32 } from "./primitive.js";
+import { PackedArray, getBitsPerEntry } from "./packed.js";
+
+import type { Tag, ByteTag, ShortTag, IntTag, LongTag, FloatTag, DoubleTag, StringTag, ByteArrayTag, CompoundTag, IntArrayTag, LongArrayTag } from "./tag.js";
+
+/**
+ * The data version written to Java Edition formats when the schematic doesn't have one, such as when it was read from a `.mcstructure` file. This is the data version of 1.20.1.
+*/
+const DEFAULT_DATA_VERSION = 3465;
+
+/**
+ * The block version written to `.mcstructure` palettes for blocks which don't have one, such as when they were read from a Java Edition format.
+*/
+const DEFAULT_BEDROCK_BLOCK_VERSION = 17959425;
+
+const AIR = "minecraft:air";
+
+/**
+ * The palette index of positions which don't have a block, such as the structure void blocks of a structure file.
+*/
+export const NO_BLOCK = -1;
+
+export type SchematicFormat = "structure" | "schem" | "litematic" | "mcstructure";
+
+export type Vector3 = [x: number, y: number, z: number];
+
+export interface BlockState {
+  name: string;
+  /**
+   * The block state properties. Java Edition properties are always strings, while Bedrock Edition block states may also be Byte or Int tags.
+  */
+  properties: { [name: string]: StringTag | ByteTag | IntTag; };
+  /**
+   * The Bedrock Edition block version, only present for blocks read from `.mcstructure` files.
+  */
+  version?: number;
+}
+
+export interface SchematicBlockEntity {
+  pos: Vector3;
+  /**
+   * The block entity NBT, without its position.
+  */
+  data: CompoundTag;
+}
+
+export interface SchematicEntity {
+  /**
+   * The position of the entity, relative to the minimum corner of the schematic.
+  */
+  pos: Vector3;
+  /**
+   * The entity NBT. Its own `Pos` is replaced with the schematic-relative position when the entity is written.
+  */
+  data: CompoundTag;
+}
+
+/**
+ * The intermediate model which every schematic format is converted through.
+ *
+ * Block names and states aren't translated between Java and Bedrock Edition, so converting between the editions keeps the original block IDs.
+*/
+export interface Schematic {
+  /**
+   * The name of the Litematica region the schematic was read from.
+  */
+  name?: string;
+  size: Vector3;
+  /**
+   * The position of the minimum corner, relative to the origin of the file. Only Litematica regions have an offset.
+  */
+  origin: Vector3;
+  palette: BlockState[];
+  /**
+   * The palette index of each block, in YZX order, so the index of a position is `(y * sizeZ + z) * sizeX + x`. Positions without a block are `NO_BLOCK`.
+  */
+  blocks: Int32Array;
+  blockEntities: SchematicBlockEntity[];
+  entities: SchematicEntity[];
+  dataVersion: number | null;
+}
+
+export interface SchematicWriteOptions {
+  /**
+   * The version of the Sponge schematic format to write `.schem` files with.
+  */
+  schemVersion?: 2 | 3;
+  /**
+   * The metadata of Litematica files.
+  */
+  name?: string;
+  author?: string;
+  description?: string;
+  /**
+   * The world position of the minimum corner of `.mcstructure` files, which their block entity and entity positions are stored relative to.
+  */
+  worldOrigin?: Vector3;
+}
+
+export interface StructurePaletteEntry extends CompoundTag {
+  Name: StringTag;
+  Properties?: { [name: string]: StringTag; };
+}
+
+export interface StructureBlock extends CompoundTag {
+  pos: IntTag[];
+  state: IntTag;
+  nbt?: CompoundTag;
+}
+
+export interface StructureEntity extends CompoundTag {
+  pos: DoubleTag[];
+  blockPos: IntTag[];
+  nbt: CompoundTag;
+}
+
+/**
+ * A Java Edition structure file (`.nbt`), as saved by structure blocks.
+*/
+export interface StructureTag extends CompoundTag {
+  DataVersion: IntTag;
+  size: IntTag[];
+  palette?: StructurePaletteEntry[];
+  /**
+   * Alternate palettes, which are used instead of `palette` by structures with random variants, such as shipwrecks.
+  */
+  palettes?: StructurePaletteEntry[][];
+  blocks: StructureBlock[];
+  entities: StructureEntity[];
+}
+
+export interface SchemBlockContainer extends CompoundTag {
+  Palette: { [state: string]: IntTag; };
+  Data: ByteArrayTag;
+  BlockEntities?: CompoundTag[];
+}
+
+/**
+ * A Sponge schematic file (`.schem`), as saved by WorldEdit. Versions 1 and 2 store the blocks at the root, while version 3 stores them in a `Blocks` container, and wraps the whole schematic in a `Schematic` compound.
+*/
+export interface SchemTag extends CompoundTag {
+  Version: IntTag;
+  DataVersion?: IntTag;
+  Width: ShortTag;
+  Height: ShortTag;
+  Length: ShortTag;
+  Offset?: IntArrayTag;
+  PaletteMax?: IntTag;
+  Palette?: { [state: string]: IntTag; };
+  BlockData?: ByteArrayTag;
+  BlockEntities?: CompoundTag[];
+  TileEntities?: CompoundTag[];
+  Blocks?: SchemBlockContainer;
+  Entities?: CompoundTag[];
+}
+
+export interface SchemV3Tag extends CompoundTag {
+  Schematic: SchemTag;
+}
+
+export interface LitematicVector extends CompoundTag {
+  x: IntTag;
+  y: IntTag;
+  z: IntTag;
+}
+
+export interface LitematicRegion extends CompoundTag {
+  Position: LitematicVector;
+  Size: LitematicVector;
+  BlockStatePalette: StructurePaletteEntry[];
+  BlockStates: LongArrayTag;
+  TileEntities: CompoundTag[];
+  Entities: CompoundTag[];
+  PendingBlockTicks: CompoundTag[];
+  PendingFluidTicks: CompoundTag[];
+}
+
+/**
+ * A Litematica schematic file (`.litematic`), which may hold multiple regions.
+*/
+export interface LitematicTag extends CompoundTag {
+  Version: IntTag;
+  SubVersion?: IntTag;
+  MinecraftDataVersion: IntTag;
+  Metadata: CompoundTag;
+  Regions: { [name: string]: LitematicRegion; };
+}
+
+export interface McstructurePaletteEntry extends CompoundTag {
+  name: StringTag;
+  states: { [name: string]: StringTag | ByteTag | IntTag; };
+  version: IntTag;
+}
+
+/**
+ * A Bedrock Edition structure file (`.mcstructure`), which is uncompressed little-endian NBT.
+*/
+export interface McstructureTag extends CompoundTag {
+  format_version: IntTag;
+  size: IntTag[];
+  structure: {
+    block_indices: IntTag[][];
+    entities: CompoundTag[];
+    palette: {
+      default: {
+        block_palette: McstructurePaletteEntry[];
+        block_position_data: { [index: string]: CompoundTag; };
+      };
+    };
+  };
+  structure_world_origin: IntTag[];
+}
+
+/**
+ * Detects which schematic format an NBT object is in, from the tags at its root.
+*/
+export function detectSchematicFormat(data: CompoundTag): SchematicFormat | null {
+  if (isCompound(data["Regions"]) && "MinecraftDataVersion" in data) return "litematic";
+  if (isCompound(data["structure"]) && "format_version" in data) return "mcstructure";
+  if (Array.isArray(data["blocks"]) && Array.isArray(data["size"])) return "structure";
+  if (isCompound(data["Schematic"]) || ("Width" in data && "Height" in data && "Length" in data)) return "schem";
+  return null;
+}
+
+/**
+ * Converts a schematic file into the intermediate model. The regions of Litematica files are merged into a single schematic.
+*/
+export function toSchematic(data: CompoundTag | NBTData<CompoundTag>, format: SchematicFormat | null = detectSchematicFormat(unwrap(data))): Schematic {
+  const root: CompoundTag = unwrap(data);
+  switch (format) {
+    case "structure": return fromStructure(root as StructureTag);
+    case "schem": return fromSchem(root as SchemTag | SchemV3Tag);
+    case "litematic": return mergeSchematics(fromLitematic(root as LitematicTag));
+    case "mcstructure": return fromMcstructure(root as McstructureTag);
+    case null: throw new Error("Couldn't detect the schematic format");
+    default: {
+      format satisfies never;
+      throw new TypeError("Format must be 'structure', 'schem', 'litematic', or 'mcstructure'");
+    }
+  }
+}
+
+/**
+ * Converts the intermediate model into a schematic file, with the root name, endian type, and compression format of that file format.
+*/
+export function fromSchematic(schematic: Schematic, format: SchematicFormat, options: SchematicWriteOptions = {}): NBTData<CompoundTag> {
+  switch (format) {
+    case "structure": return toStructure(schematic);
+    case "schem": return toSchem(schematic, options);
+    case "litematic": return toLitematic(schematic, options);
+    case "mcstructure": return toMcstructure(schematic, options);
+    default: {
+      format satisfies never;
+      throw new TypeError("Format must be 'structure', 'schem', 'litematic', or 'mcstructure'");
+    }
+  }
+}
+
+/**
+ * Converts a schematic file into another schematic format. Litematica files keep their regions when they are converted to Litematica again.
+*/
+export function convertSchematic(data: CompoundTag | NBTData<CompoundTag>, format: SchematicFormat, options: SchematicWriteOptions = {}): NBTData<CompoundTag> {
+  const root: CompoundTag = unwrap(data);
+  if (format === "litematic" && detectSchematicFormat(root) === "litematic") {
+    return toLitematic(fromLitematic(root as LitematicTag), options);
+  }
+  return fromSchematic(toSchematic(root), format, options);
+}
+
+export function fromStructure(data: StructureTag): Schematic {
+  const size: Vector3 = toVector(data.size, "size");
+  const palette: BlockState[] = (data.palette ?? data.palettes?.[0] ?? []).map(fromJavaPaletteEntry);
+  const blocks = new Int32Array(getVolume(size)).fill(NO_BLOCK);
+  const blockEntities: SchematicBlockEntity[] = [];
+
+  for (const { pos, state, nbt } of data.blocks) {
+    const position: Vector3 = toVector(pos, "pos");
+    blocks[getIndex(size, position)] = state.valueOf();
+    if (nbt !== undefined) {
+      blockEntities.push({ pos: position, data: nbt });
+    }
+  }
+
+  const entities: SchematicEntity[] = (data.entities ?? []).map(({ pos, nbt }) => ({ pos: toVector(pos, "pos"), data: nbt }));
+
+  return { size, origin: [0, 0, 0], palette, blocks, blockEntities, entities, dataVersion: data.DataVersion?.valueOf() ?? null };
+}
+
+export function toStructure(schematic: Schematic): NBTData<StructureTag> {
+  const { size, blocks, palette, entities, dataVersion } = schematic;
+  const blockEntities: Map<number, CompoundTag> = getBlockEntityMap(schematic);
+  const structureBlocks: StructureBlock[] = [];
+
+  forEachPosition(size, (position, index) => {
+    const state: number = blocks[index]!;
+    if (state === NO_BLOCK) return;
+    const block: StructureBlock = { pos: position.map(value => new Int32(value)), state: new Int32(state) };
+    const nbt: CompoundTag | undefined = blockEntities.get(index);
+    if (nbt !== undefined) {
+      block.nbt = nbt;
+    }
+    structureBlocks.push(block);
+  });
+
+  const data: StructureTag = {
+    size: size.map(value => new Int32(value)),
+    entities: entities.map(({ pos, data }) => ({
+      pos: [...pos],
+      blockPos: pos.map(value => new Int32(Math.floor(value))),
+      nbt: data
+    })),
+    blocks: structureBlocks,
+    palette: palette.map(toJavaPaletteEntry),
+    DataVersion: new Int32(dataVersion ?? DEFAULT_DATA_VERSION)
+  };
+
+  return new NBTData(data, { rootName: "", endian: "big", compression: "gzip", bedrockLevel: false });
+}
+
+export function fromSchem(data: SchemTag | SchemV3Tag): Schematic {
+  const root: SchemTag = isCompound(data["Schematic"]) ? (data as SchemV3Tag).Schematic : data as SchemTag;
+  const size: Vector3 = [root.Width.valueOf() & 0xFFFF, root.Height.valueOf() & 0xFFFF, root.Length.valueOf() & 0xFFFF];
+  const version: number = root.Version.valueOf();
+  const container: SchemBlockContainer | undefined = root.Blocks;
+  const states: { [state: string]: IntTag; } = container?.Palette ?? root.Palette ?? {};
+  const blockData: ByteArrayTag | undefined = container?.Data ?? root.BlockData;
+
+  if (blockData === undefined) {
+    throw new Error("Expected Sponge schematic block data");
+  }
+
+  const palette: BlockState[] = [];
+  for (const [state, index] of Object.entries(states)) {
+    palette[index.valueOf()] = parseBlockState(state);
+  }
+  for (let i: number = 0; i < palette.length; i++) {
+    palette[i] ??= { name: AIR, properties: {} };
+  }
+
+  const blocks: Int32Array = readVarints(blockData, getVolume(size));
+  const blockEntities: SchematicBlockEntity[] = (container?.BlockEntities ?? root.BlockEntities ?? root.TileEntities ?? []).map(blockEntity => {
+    const { Pos, Id, Data, ...rest } = blockEntity;
+    const data: CompoundTag = (version >= 3) ? { ...(Data as CompoundTag | undefined) } : rest;
+    if (Id !== undefined) {
+      data["id"] = Id;
+    }
+    return { pos: toVector(Pos as IntArrayTag, "Pos"), data };
+  });
+  const entities: SchematicEntity[] = (root.Entities ?? []).map(entity => {
+    const { Pos, Id, Data, ...rest } = entity;
+    const data: CompoundTag = (version >= 3) ? { ...(Data as CompoundTag | undefined) } : rest;
+    if (Id !== undefined) {
+      data["id"] = Id;
+    }
+    return { pos: toVector(Pos as DoubleTag[], "Pos"), data };
+  });
+
+  return { size, origin: [0, 0, 0], palette, blocks, blockEntities, entities, dataVersion: root.DataVersion?.valueOf() ?? null };
+}
+
+export function toSchem(schematic: Schematic, options: SchematicWriteOptions = {}): NBTData<SchemTag | SchemV3Tag> {
+  const { schemVersion = 3 } = options;
+  const { size, blocks, blockEntities, entities, dataVersion } = schematic;
+
+  if (schemVersion !== 2 && schemVersion !== 3) {
+    schemVersion satisfies never;
+    throw new TypeError("Schem Version option must be 2 or 3");
+  }
+
+  const palette: { [state: string]: IntTag; } = {};
+  const indices: number[] = [];
+  const remap: number[] = schematic.palette.map(state => getPaletteIndex(palette, indices, stringifyBlockState(state)));
+  const air: number = blocks.includes(NO_BLOCK) ? getPaletteIndex(palette, indices, AIR) : 0;
+  const blockData: ByteArrayTag = writeVarints(blocks.map(index => index === NO_BLOCK ? air : remap[index]!));
+
+  const schemBlockEntities: CompoundTag[] = blockEntities.map(({ pos, data }) => {
+    const { id, ...rest } = data;
+    const Pos = new Int32Array(pos);
+    return (schemVersion === 3)
+      ? { Pos, Id: id ?? "", Data: rest }
+      : { ...rest, Pos, Id: id ?? "" };
+  });
+  const schemEntities: CompoundTag[] = entities.map(({ pos, data }) => {
+    const { id, Pos: _, ...rest } = data;
+    const Pos: DoubleTag[] = [...pos];
+    return (schemVersion === 3)
+      ? { Pos, Id: id ?? "", Data: rest }
+      : { ...rest, Pos, Id: id ?? "" };
+  });
+
+  const root: SchemTag = {
+    Version: new Int32(schemVersion),
+    DataVersion: new Int32(dataVersion ?? DEFAULT_DATA_VERSION),
+    Width: new Int16(size[0]),
+    Height: new Int16(size[1]),
+    Length: new Int16(size[2]),
+    Offset: new Int32Array(3)
+  };
+
+  if (schemVersion === 3) {
+    root.Blocks = { Palette: palette, Data: blockData, BlockEntities: schemBlockEntities };
+    root.Entities = schemEntities;
+    return new NBTData<SchemV3Tag>({ Schematic: root }, { rootName: "", endian: "big", compression: "gzip", bedrockLevel: false });
+  }
+
+  root.PaletteMax = new Int32(indices.length);
+  root.Palette = palette;
+  root.BlockData = blockData;
+  root.BlockEntities = schemBlockEntities;
+  root.Entities = schemEntities;
+  return new NBTData(root, { rootName: "Schematic", endian: "big", compression: "gzip", bedrockLevel: false });
+}
+
+/**
+ * Converts each region of a Litematica file into a schematic, with the origin of the region's minimum corner.
+*/
+export function fromLitematic(data: LitematicTag): Schematic[] {
+  const dataVersion: number | null = data.MinecraftDataVersion?.valueOf() ?? null;
+
+  return Object.entries(data.Regions).map(([name, region]) => {
+    const position: Vector3 = fromLitematicVector(region.Position);
+    const signedSize: Vector3 = fromLitematicVector(region.Size);
+    const size = signedSize.map(Math.abs) as Vector3;
+    // Regions with a negative size extend from their position in the negative direction.
+    const origin = position.map((value, i) => signedSize[i]! < 0 ? value + signedSize[i]! + 1 : value) as Vector3;
+    const palette: BlockState[] = region.BlockStatePalette.map(fromJavaPaletteEntry);
+    const bitsPerEntry: number = getBitsPerEntry(palette.length, 2);
+    const blocks = Int32Array.from(new PackedArray(getVolume(size), { bitsPerEntry, layout: "spanning" }, region.BlockStates));
+
+    const blockEntities: SchematicBlockEntity[] = (region.TileEntities ?? []).map(({ x, y, z, ...data }) => {
+      return { pos: [Number(x), Number(y), Number(z)], data };
+    });
+    const entities: SchematicEntity[] = (region.Entities ?? []).map(({ Pos, ...data }) => {
+      return { pos: toVector(Pos as DoubleTag[], "Pos"), data };
+    });
+
+    return { name, size, origin, palette, blocks, blockEntities, entities, dataVersion };
+  });
+}
+
+/**
+ * Converts one or more schematics into a Litematica file, with a region for each schematic.
+*/
+export function toLitematic(schematics: Schematic | Schematic[], options: SchematicWriteOptions = {}): NBTData<LitematicTag> {
+  if (!Array.isArray(schematics)) {
+    schematics = [schematics];
+  }
+
+  const { name = schematics[0]?.name ?? "Unnamed", author = "", description = "" } = options;
+  const regions: { [name: string]: LitematicRegion; } = {};
+  const min: Vector3 = [Infinity, Infinity, Infinity];
+  const max: Vector3 = [-Infinity, -Infinity, -Infinity];
+  let totalVolume: number = 0;
+  let totalBlocks: number = 0;
+
+  for (const [i, schematic] of schematics.entries()) {
+    const { size, origin, blocks } = schematic;
+    // Litematica expects air as the first palette entry, which also stands in for positions without a block.
+    const palette: BlockState[] = [{ name: AIR, properties: {} }];
+    const keys: string[] = [AIR];
+    const remap: number[] = schematic.palette.map(state => {
+      const key: string = stringifyBlockState(state);
+      let index: number = keys.indexOf(key);
+      if (index === -1) {
+        index = keys.push(key) - 1;
+        palette.push(state);
+      }
+      return index;
+    });
+    const indices: number[] = Array.from(blocks, index => index === NO_BLOCK ? 0 : remap[index]!);
+    const blockStates: PackedArray = PackedArray.from(indices, { bitsPerEntry: getBitsPerEntry(palette.length, 2), layout: "spanning" });
+
+    regions[schematic.name ?? (schematics.length === 1 ? name : `Region ${i + 1}`)] = {
+      Position: toLitematicVector(origin),
+      Size: toLitematicVector(size),
+      BlockStatePalette: palette.map(toJavaPaletteEntry),
+      BlockStates: blockStates.toBigInt64Array(),
+      TileEntities: schematic.blockEntities.map(({ pos, data }) => ({ ...data, x: new Int32(pos[0]), y: new Int32(pos[1]), z: new Int32(pos[2]) })),
+      Entities: schematic.entities.map(({ pos, data }) => ({ ...data, Pos: [...pos] })),
+      PendingBlockTicks: [],
+      PendingFluidTicks: []
+    };
+
+    totalVolume += getVolume(size);
+    totalBlocks += indices.filter(index => index !== 0).length;
+    for (let axis: number = 0; axis < 3; axis++) {
+      min[axis] = Math.min(min[axis]!, origin[axis]!);
+      max[axis] = Math.max(max[axis]!, origin[axis]! + size[axis]!);
+    }
+  }
+
+  const now = BigInt(Date.now()) satisfies LongTag;
+  const enclosingSize = (schematics.length === 0) ? [0, 0, 0] as Vector3 : max.map((value, i) => value - min[i]!) as Vector3;
+
+  const data: LitematicTag = {
+    Version: new Int32(6),
+    SubVersion: new Int32(1),
+    MinecraftDataVersion: new Int32(schematics[0]?.dataVersion ?? DEFAULT_DATA_VERSION),
+    Metadata: {
+      Name: name,
+      Author: author,
+      Description: description,
+      RegionCount: new Int32(schematics.length),
+      TotalVolume: new Int32(totalVolume),
+      TotalBlocks: new Int32(totalBlocks),
+      EnclosingSize: toLitematicVector(enclosingSize),
+      TimeCreated: now,
+      TimeModified: now
+    },
+    Regions: regions
+  };
+
+  return new NBTData(data, { rootName: "", endian: "big", compression: "gzip", bedrockLevel: false });
+}
+
+export function fromMcstructure(data: McstructureTag): Schematic {
+  const size: Vector3 = toVector(data.size, "size");
+  const worldOrigin: Vector3 = toVector(data.structure_world_origin, "structure_world_origin");
+  const { block_indices: [layer = []] = [], entities = [], palette: { default: { block_palette = [], block_position_data = {} } = {} } = {} } = data.structure as Partial<McstructureTag["structure"]>;
+  const palette: BlockState[] = block_palette.map(({ name, states, version }) => ({ name, properties: { ...states }, version: version?.valueOf() }));
+  const blocks = new Int32Array(getVolume(size));
+
+  // Bedrock Edition stores blocks in XYZ order, with Z changing the fastest.
+  forEachPosition(size, ([x, y, z], index) => {
+    blocks[index] = layer[(x * size[1] + y) * size[2] + z]?.valueOf() ?? NO_BLOCK;
+  });
+
+  const blockEntities: SchematicBlockEntity[] = [];
+  for (const [key, { block_entity_data }] of Object.entries(block_position_data)) {
+    if (!isCompound(block_entity_data)) continue;
+    const index: number = Number(key);
+    const pos: Vector3 = [Math.floor(index / (size[1] * size[2])), Math.floor(index / size[2]) % size[1], index % size[2]];
+    const { x, y, z, ...data } = block_entity_data;
+    blockEntities.push({ pos, data });
+  }
+
+  const schematicEntities: SchematicEntity[] = entities.map(({ Pos, ...data }) => {
+    const pos = toVector(Pos as FloatTag[], "Pos").map((value, i) => value - worldOrigin[i]!) as Vector3;
+    return { pos, data };
+  });
+
+  return { size, origin: [0, 0, 0], palette, blocks, blockEntities, entities: schematicEntities, dataVersion: null };
+}
+
+export function toMcstructure(schematic: Schematic, options: SchematicWriteOptions = {}): NBTData<McstructureTag> {
+  const { worldOrigin = [0, 0, 0] } = options;
+  const { size, blocks, palette, blockEntities, entities } = schematic;
+  const volume: number = getVolume(size);
+  const layer: IntTag[] = new Array(volume);
+  const waterlogged: IntTag[] = new Array(volume).fill(new Int32(NO_BLOCK));
+  const positionData: { [index: string]: CompoundTag; } = {};
+
+  forEachPosition(size, ([x, y, z], index) => {
+    layer[(x * size[1] + y) * size[2] + z] = new Int32(blocks[index]!);
+  });
+
+  for (const { pos: [x, y, z], data } of blockEntities) {
+    positionData[`${(x * size[1] + y) * size[2] + z}`] = {
+      block_entity_data: { ...data, x: new Int32(worldOrigin[0] + x), y: new Int32(worldOrigin[1] + y), z: new Int32(worldOrigin[2] + z) }
+    };
+  }
+
+  const data: McstructureTag = {
+    format_version: new Int32(1),
+    size: size.map(value => new Int32(value)),
+    structure: {
+      block_indices: [layer, waterlogged],
+      entities: entities.map(({ pos, data }) => ({ ...data, Pos: pos.map((value, i) => new Float32(worldOrigin[i]! + value)) })),
+      palette: {
+        default: {
+          block_palette: palette.map(({ name, properties, version = DEFAULT_BEDROCK_BLOCK_VERSION }) => ({ name, states: properties, version: new Int32(version) })),
+          block_position_data: positionData
+        }
+      }
+    },
+    structure_world_origin: worldOrigin.map(value => new Int32(value))
+  };
+
+  return new NBTData(data, { rootName: "", endian: "little", compression: null, bedrockLevel: false });
+}
+
+/**
+ * Combines schematics into one that encloses all of them, placing each at its origin. Blocks of later schematics replace the blocks of earlier ones, except where they have no block.
+*/
+export function mergeSchematics(schematics: Schematic[]): Schematic {
+  if (schematics.length === 1) return schematics[0]!;
+
+  const min: Vector3 = [0, 0, 0];
+  const max: Vector3 = [0, 0, 0];
+  for (const [i, { origin, size }] of schematics.entries()) {
+    for (let axis: number = 0; axis < 3; axis++) {
+      min[axis] = (i === 0) ? origin[axis]! : Math.min(min[axis]!, origin[axis]!);
+      max[axis] = (i === 0) ? origin[axis]! + size[axis]! : Math.max(max[axis]!, origin[axis]! + size[axis]!);
+    }
+  }
+
+  const size = max.map((value, i) => value - min[i]!) as Vector3;
+  const palette: BlockState[] = [];
+  const keys: string[] = [];
+  const blocks = new Int32Array(getVolume(size)).fill(NO_BLOCK);
+  const blockEntities: SchematicBlockEntity[] = [];
+  const entities: SchematicEntity[] = [];
+
+  for (const schematic of schematics) {
+    const offset = schematic.origin.map((value, i) => value - min[i]!) as Vector3;
+    const remap: number[] = schematic.palette.map(state => {
+      const key: string = stringifyBlockState(state);
+      let index: number = keys.indexOf(key);
+      if (index === -1) {
+        index = keys.push(key) - 1;
+        palette.push(state);
+      }
+      return index;
+    });
+
+    forEachPosition(schematic.size, ([x, y, z], index) => {
+      const state: number = schematic.blocks[index]!;
+      if (state === NO_BLOCK) return;
+      blocks[getIndex(size, [x + offset[0], y + offset[1], z + offset[2]])] = remap[state]!;
+    });
+
+    for (const { pos, data } of schematic.blockEntities) {
+      blockEntities.push({ pos: pos.map((value, i) => value + offset[i]!) as Vector3, data });
+    }
+    for (const { pos, data } of schematic.entities) {
+      entities.push({ pos: pos.map((value, i) => value + offset[i]!) as Vector3, data });
+    }
+  }
+
+  return { size, origin: min, palette, blocks, blockEntities, entities, dataVersion: schematics[0]?.dataVersion ?? null };
+}
+
+/**
+ * Parses a block state in the string format of Sponge schematic palettes, such as `minecraft:oak_log[axis=y]`.
+*/
+export function parseBlockState(value: string): BlockState {
+  const start: number = value.indexOf("[");
+  if (start === -1 || !value.endsWith("]")) {
+    return { name: value, properties: {} };
+  }
+
+  const properties: BlockState["properties"] = {};
+  for (const property of value.slice(start + 1, -1).split(",")) {
+    if (property === "") continue;
+    const [key = "", ...rest] = property.split("=");
+    properties[key] = rest.join("=");
+  }
+  return { name: value.slice(0, start), properties };
+}
+
+/**
+ * Formats a block state in the string format of Sponge schematic palettes.
+*/
+export function stringifyBlockState({ name, properties }: BlockState): string {
+  const entries: string[] = Object.entries(properties).map(([key, value]) => `${key}=${value.valueOf()}`);
+  return entries.length === 0 ? name : `${name}[${entries.join(",")}]`;
+}
+
+function fromJavaPaletteEntry({ Name, Properties = {} }: StructurePaletteEntry): BlockState {
+  return { name: Name, properties: { ...Properties } };
+}
+
+function toJavaPaletteEntry({ name, properties }: BlockState): StructurePaletteEntry {
+  const entry: StructurePaletteEntry = { Name: name };
+  const entries: [string, StringTag][] = Object.entries(properties).map(([key, value]) => [key, `${value.valueOf()}`]);
+  if (entries.length !== 0) {
+    entry.Properties = Object.fromEntries(entries);
+  }
+  return entry;
+}
+
+function fromLitematicVector({ x, y, z }: LitematicVector): Vector3 {
+  return [x.valueOf(), y.valueOf(), z.valueOf()];
+}
+
+function toLitematicVector([x, y, z]: Vector3): LitematicVector {
+  return { x: new Int32(x), y: new Int32(y), z: new Int32(z) };
+}
+
+function getPaletteIndex(palette: { [state: string]: IntTag; }, indices: number[], key: string): number {
+  const existing: IntTag | undefined = palette[key];
+  if (existing !== undefined) return existing.valueOf();
+  const index: number = indices.push(indices.length) - 1;
+  palette[key] = new Int32(index);
+  return index;
+}
+
+function getBlockEntityMap({ size, blockEntities }: Schematic): Map<number, CompoundTag> {
+  return new Map(blockEntities.map(({ pos, data }) => [getIndex(size, pos), data]));
+}
+
+function forEachPosition(size: Vector3, callback: (position: Vector3, index: number) => void): void {
+  let index: number = 0;
+  for (let y: number = 0; y < size[1]; y++) {
+    for (let z: number = 0; z < size[2]; z++) {
+      for (let x: number = 0; x < size[0]; x++) {
+        callback([x, y, z], index++);
+      }
+    }
+  }
+}
+
+function getIndex([sizeX, , sizeZ]: Vector3, [x, y, z]: Vector3): number {
+  return (y * sizeZ + z) * sizeX + x;
+}
+
+function getVolume([x, y, z]: Vector3): number {
+  return x * y * z;
+}
+
+function toVector(value: ArrayLike<Tag> | undefined, name: string): Vector3 {
+  if (value === undefined || value.length !== 3) {
+    throw new TypeError(`Expected '${name}' to be a list of 3 numbers`);
+  }
+  return [Number(value[0]), Number(value[1]), Number(value[2])];
+}
+
+function readVarints(data: ByteArrayTag, length: number): Int32Array {
+  const result = new Int32Array(length);
+  let byteOffset: number = 0;
+
+  for (let i: number = 0; i < length; i++) {
+    let value: number = 0;
+    let shift: number = 0;
+    let byte: number;
+    do {
+      if (byteOffset >= data.length) {
+        throw new Error(`Expected ${length} block data entries, encountered ${i}`);
+      }
+      byte = data[byteOffset++]! & 0xFF;
+      value |= (byte & 0x7F) << shift;
+      shift += 7;
+    } while ((byte & 0x80) !== 0);
+    result[i] = value;
+  }
+
+  return result;
+}
+
+function writeVarints(values: ArrayLike<number>): Int8Array {
+  const bytes: number[] = [];
+  for (let i: number = 0; i < values.length; i++) {
+    let value: number = values[i]!;
+    while ((value & ~0x7F) !== 0) {
+      bytes.push((value & 0x7F) | 0x80);
+      value >>>= 7;
+    }
+    bytes.push(value);
+  }
+  return new Int8Array(bytes);
+}
+
+function unwrap(data: CompoundTag | NBTData<CompoundTag>): CompoundTag {
+  return (data instanceof NBTData) ? data.data : data;
+}
+
+function isCompound(value: unknown): value is CompoundTag {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !ArrayBuffer.isView(value);
+}
\ No newline at end of file
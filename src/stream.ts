@@ -0,0 +1,532 @@
+import { MUtf8Decoder } from "mutf-8";
+import { Int8, Int16, Int32, Float32 } from "./primitive.js";
+import { TAG, isTagType } from "./tag.js";
+import { decompressStream, detectCompression, isCompression } from "./compression.js";
+import { getDefaultStringEncoding } from "./format.js";
+import { BEDROCK_LEVEL_FRAMING } from "./framing.js";
+
+import type { RootName, Endian, Compression, BedrockLevel, StringEncoding } from "./format.js";
+import type { CompressionName } from "./compression.js";
+import type { Framing, FrameHeader } from "./framing.js";
+import type { Tag, ByteTag, ShortTag, IntTag, LongTag, FloatTag, DoubleTag, StringTag, ByteArrayTag, IntArrayTag, LongArrayTag } from "./tag.js";
+
+/**
+ * The number of bytes buffered to detect the compression format, enough for the longest built-in header, `LZ4Block`.
+*/
+const SNIFF_LENGTH = 8;
+
+export interface StreamReadOptions {
+  rootName: boolean | RootName;
+  endian: Endian;
+  compression: Compression;
+  bedrockLevel: BedrockLevel;
+  /**
+   * Defaults to Modified UTF-8 for big endian data, and to UTF-8 for little endian data.
+  */
+  stringEncoding?: StringEncoding;
+  strict: boolean;
+  /**
+   * A custom header to read before the root, such as a length prefix. The Bedrock Level header is read in its place when the `bedrockLevel` option is enabled.
+  */
+  framing: Framing | null;
+}
+
+export type NBTEvent = HeaderEvent | CompoundStartEvent | CompoundEndEvent | ListStartEvent | ListEndEvent | ValueEvent;
+
+/**
+ * Reported before the root when it's preceded by the Bedrock Level header or a custom framing, with the version stored in the header.
+*/
+export interface HeaderEvent extends FrameHeader {
+  type: "header";
+}
+
+export interface CompoundStartEvent {
+  type: "compound-start";
+  name: StringTag | null;
+}
+
+export interface CompoundEndEvent {
+  type: "compound-end";
+}
+
+export interface ListStartEvent {
+  type: "list-start";
+  name: StringTag | null;
+  itemType: TAG;
+  length: number;
+}
+
+export interface ListEndEvent {
+  type: "list-end";
+}
+
+export interface ValueEvent<T extends Tag = Tag> {
+  type: "value";
+  name: StringTag | null;
+  tagType: TAG;
+  value: T;
+}
+
+type Frame = { type: TAG.COMPOUND; } | { type: TAG.LIST; itemType: TAG; remaining: number; };
+
+/**
+ * Reads an NBT stream as a sequence of events, without holding the full buffer or NBT object in memory.
+ *
+ * Compound and List tags are reported with start and end events, while all other tags are reported with value events. List items have a name of `null`. A header event comes first when the root has a header.
+ *
+ * If the compression format isn't specified, it is detected from the header of the stream.
+*/
+export async function* readStream(stream: ReadableStream<Uint8Array>, options: Partial<StreamReadOptions> = {}): AsyncGenerator<NBTEvent, void, void> {
+  if (!(stream instanceof ReadableStream)) {
+    stream satisfies never;
+    throw new TypeError("First parameter must be a ReadableStream");
+  }
+
+  let { rootName = true, endian = "big", compression, bedrockLevel = false, stringEncoding = getDefaultStringEncoding(endian), strict = true, framing = null } = options;
+
+  if (typeof rootName !== "boolean" && typeof rootName !== "string" && rootName !== null) {
+    rootName satisfies never;
+    throw new TypeError("Root Name option must be a boolean, string, or null");
+  }
+  if (endian !== "big" && endian !== "little" && endian !== "little-varint") {
+    endian satisfies never;
+    throw new TypeError("Endian option must be a valid endian type");
+  }
+  if (compression !== undefined && compression !== null && !isCompression(compression)) {
+    compression satisfies never;
+    throw new TypeError("Compression option must be a valid compression type");
+  }
+  if (typeof bedrockLevel !== "boolean") {
+    bedrockLevel satisfies never;
+    throw new TypeError("Bedrock Level option must be a boolean");
+  }
+  if (stringEncoding !== "mutf-8" && stringEncoding !== "utf-8") {
+    stringEncoding satisfies never;
+    throw new TypeError("String Encoding option must be 'mutf-8' or 'utf-8'");
+  }
+  if (typeof strict !== "boolean") {
+    strict satisfies never;
+    throw new TypeError("Strict option must be a boolean");
+  }
+  if (framing !== null && typeof framing?.readHeader !== "function") {
+    throw new TypeError("Framing option must be a framing");
+  }
+
+  const source: ReadableStreamDefaultReader<Uint8Array> = stream.getReader();
+  const reader = new NBTStreamReader(source, endian !== "big", endian === "little-varint", stringEncoding);
+
+  try {
+    if (compression === undefined) {
+      compression = await reader.sniffCompression();
+    }
+    if (compression !== null) {
+      reader.decompress(compression);
+    }
+    yield* reader.readRoot({ rootName, bedrockLevel, strict, framing });
+  } finally {
+    await reader.cancel();
+  }
+}
+
+class NBTStreamReader {
+  #byteOffset: number = 0;
+  #offset: number = 0;
+  #length: number = 0;
+  #data: Uint8Array = new Uint8Array(0);
+  #view: DataView = new DataView(this.#data.buffer);
+  #source: ReadableStreamDefaultReader<Uint8Array>;
+  readonly #littleEndian: boolean;
+  readonly #varint: boolean;
+  readonly #decoder: MUtf8Decoder | TextDecoder;
+
+  constructor(source: ReadableStreamDefaultReader<Uint8Array>, littleEndian: boolean, varint: boolean, stringEncoding: StringEncoding) {
+    this.#source = source;
+    this.#littleEndian = littleEndian;
+    this.#varint = varint;
+    this.#decoder = (stringEncoding === "utf-8") ? new TextDecoder() : new MUtf8Decoder();
+  }
+
+  async sniffCompression(): Promise<Compression> {
+    await this.#fill(SNIFF_LENGTH, false);
+    return detectCompression(this.#data.subarray(this.#offset, this.#length));
+  }
+
+  /**
+   * Routes the remaining bytes of the source stream through a decompression stream.
+  */
+  decompress(compression: CompressionName): void {
+    const head: Uint8Array = this.#data.slice(this.#offset, this.#length);
+    const source: ReadableStreamDefaultReader<Uint8Array> = this.#source;
+
+    const compressed = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (head.byteLength !== 0) {
+          controller.enqueue(head);
+        }
+      },
+      async pull(controller) {
+        const { done, value } = await source.read();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      },
+      async cancel(reason) {
+        await source.cancel(reason);
+      }
+    });
+
+    this.#source = decompressStream(compressed, compression).getReader();
+    this.#data = new Uint8Array(0);
+    this.#view = new DataView(this.#data.buffer);
+    this.#offset = 0;
+    this.#length = 0;
+  }
+
+  async cancel(): Promise<void> {
+    await this.#source.cancel().catch(() => {});
+  }
+
+  #available(): number {
+    return this.#length - this.#offset;
+  }
+
+  /**
+   * Pulls chunks from the source stream until the requested number of bytes is buffered.
+   *
+   * The buffer keeps a capacity beyond the buffered bytes, which doubles when it runs out, so reading a large tag across many chunks doesn't copy the buffered bytes for each one.
+  */
+  async #fill(byteLength: number, required: boolean = true): Promise<void> {
+    while (this.#available() < byteLength) {
+      const { done, value } = await this.#source.read();
+      if (done) {
+        if (!required) return;
+        throw new Error("Ran out of bytes to read, unexpectedly reached the end of the stream");
+      }
+      if (this.#length + value.byteLength > this.#data.byteLength) {
+        this.#compact(this.#available() + value.byteLength);
+      }
+      this.#data.set(value, this.#length);
+      this.#length += value.byteLength;
+    }
+  }
+
+  /**
+   * Moves the unread bytes to the start of the buffer, growing it if they and the next chunk don't fit.
+  */
+  #compact(required: number): void {
+    const available: number = this.#available();
+    if (this.#data.byteLength >= required) {
+      this.#data.copyWithin(0, this.#offset, this.#length);
+    } else {
+      const data = new Uint8Array(Math.max(required, this.#data.byteLength * 2));
+      data.set(this.#data.subarray(this.#offset, this.#length), 0);
+      this.#data = data;
+      this.#view = new DataView(data.buffer);
+    }
+    this.#offset = 0;
+    this.#length = available;
+  }
+
+  async #allocate(byteLength: number): Promise<void> {
+    if (this.#available() < byteLength) {
+      await this.#fill(byteLength);
+    }
+  }
+
+  #advance(byteLength: number): void {
+    this.#offset += byteLength;
+    this.#byteOffset += byteLength;
+  }
+
+  async *readRoot({ rootName, bedrockLevel, strict, framing }: Pick<StreamReadOptions, "rootName" | "bedrockLevel" | "strict" | "framing">): AsyncGenerator<NBTEvent, void, void> {
+    const header: FrameHeader | null = await this.#readFrameHeader(bedrockLevel ? BEDROCK_LEVEL_FRAMING : framing);
+    const headerOffset: number = this.#byteOffset;
+    if (header !== null) {
+      yield { type: "header", ...header };
+    }
+
+    const type: TAG = await this.#readTagType();
+    if (type !== TAG.LIST && type !== TAG.COMPOUND) {
+      throw new Error(`Expected an opening List or Compound tag at the start of the stream, encountered tag type '${type}'`);
+    }
+
+    const rootNameV: RootName = typeof rootName === "string" || rootName ? await this.#readString() : null;
+    if (typeof rootName === "string" && rootNameV !== rootName) {
+      throw new Error(`Expected root name '${rootName}', encountered '${rootNameV}'`);
+    }
+
+    const stack: Frame[] = [];
+    let pending: { type: TAG; name: StringTag | null; } | null = { type, name: rootNameV };
+
+    while (true) {
+      if (pending === null) {
+        const frame: Frame | undefined = stack.at(-1);
+        if (frame === undefined) break;
+
+        if (frame.type === TAG.COMPOUND) {
+          const type: TAG = await this.#readTagType();
+          if (type === TAG.END) {
+            stack.pop();
+            yield { type: "compound-end" };
+            continue;
+          }
+          const name: StringTag = await this.#readString();
+          pending = { type, name };
+        } else {
+          if (frame.remaining === 0) {
+            stack.pop();
+            yield { type: "list-end" };
+            continue;
+          }
+          frame.remaining--;
+          pending = { type: frame.itemType, name: null };
+        }
+      }
+
+      const { type, name } = pending;
+      pending = null;
+
+      switch (type) {
+        case TAG.END: {
+          throw new Error(`Encountered unexpected End tag at byte offset ${this.#byteOffset}`);
+        }
+        case TAG.LIST: {
+          const itemType: TAG = await this.#readTagType();
+          const length: number = this.#varint ? await this.#readVarIntZigZag() : await this.#readInt();
+          if (length < 0) {
+            throw new Error(`Encountered invalid List tag length '${length}' at byte offset ${this.#byteOffset}`);
+          }
+          stack.push({ type: TAG.LIST, itemType, remaining: length });
+          yield { type: "list-start", name, itemType, length };
+          break;
+        }
+        case TAG.COMPOUND: {
+          stack.push({ type: TAG.COMPOUND });
+          yield { type: "compound-start", name };
+          break;
+        }
+        default: {
+          const value: Tag = await this.#readTag(type);
+          yield { type: "value", name, tagType: type, value };
+          break;
+        }
+      }
+    }
+
+    if (header !== null && header.payloadLength !== null && this.#byteOffset - headerOffset !== header.payloadLength) {
+      throw new Error(`Expected a root of ${header.payloadLength} bytes from the frame header, encountered ${this.#byteOffset - headerOffset} bytes`);
+    }
+
+    if (strict) {
+      await this.#fill(1, false);
+      if (this.#available() > 0) {
+        throw new Error(`Encountered unexpected End tag at byte offset ${this.#byteOffset}, unread bytes remaining`);
+      }
+    }
+  }
+
+  /**
+   * Reads a frame header, buffering more of the stream each time the header can't be read from the bytes available so far.
+  */
+  async #readFrameHeader(framing: Framing | null): Promise<FrameHeader | null> {
+    if (framing === null) return null;
+    while (true) {
+      const available: number = this.#available();
+      try {
+        const header: FrameHeader = framing.readHeader(this.#data.subarray(this.#offset, this.#length));
+        await this.#allocate(header.byteLength);
+        this.#advance(header.byteLength);
+        return header;
+      } catch (error) {
+        await this.#fill(available + 1, false);
+        if (this.#available() === available) throw error;
+      }
+    }
+  }
+
+  async #readTag(type: TAG): Promise<Tag> {
+    switch (type) {
+      case TAG.BYTE: return new Int8(await this.#readByte()) satisfies ByteTag;
+      case TAG.SHORT: return new Int16(await this.#readShort()) satisfies ShortTag;
+      case TAG.INT: return new Int32(this.#varint ? await this.#readVarIntZigZag() : await this.#readInt()) satisfies IntTag;
+      case TAG.LONG: return this.#varint ? this.#readVarLongZigZag() : this.#readLong();
+      case TAG.FLOAT: return new Float32(await this.#readFloat()) satisfies FloatTag;
+      case TAG.DOUBLE: return this.#readDouble();
+      case TAG.BYTE_ARRAY: return this.#readByteArray();
+      case TAG.STRING: return this.#readString();
+      case TAG.INT_ARRAY: return this.#readIntArray();
+      case TAG.LONG_ARRAY: return this.#readLongArray();
+      default: throw new Error(`Encountered unsupported tag type '${type}' at byte offset ${this.#byteOffset}`);
+    }
+  }
+
+  async #readTagType(): Promise<TAG> {
+    const type: number = await this.#readUnsignedByte();
+    if (!isTagType(type)) {
+      throw new Error(`Encountered unsupported tag type '${type}' at byte offset ${this.#byteOffset}`);
+    }
+    return type;
+  }
+
+  async #readUnsignedByte(): Promise<number> {
+    await this.#allocate(1);
+    const value: number = this.#view.getUint8(this.#offset);
+    this.#advance(1);
+    return value;
+  }
+
+  async #readByte(): Promise<number> {
+    await this.#allocate(1);
+    const value: number = this.#view.getInt8(this.#offset);
+    this.#advance(1);
+    return value;
+  }
+
+  async #readUnsignedShort(): Promise<number> {
+    await this.#allocate(2);
+    const value: number = this.#view.getUint16(this.#offset, this.#littleEndian);
+    this.#advance(2);
+    return value;
+  }
+
+  async #readShort(): Promise<number> {
+    await this.#allocate(2);
+    const value: number = this.#view.getInt16(this.#offset, this.#littleEndian);
+    this.#advance(2);
+    return value;
+  }
+
+  async #readInt(): Promise<number> {
+    await this.#allocate(4);
+    const value: number = this.#view.getInt32(this.#offset, this.#littleEndian);
+    this.#advance(4);
+    return value;
+  }
+
+  /**
+   * Reads an unsigned LEB128 VarInt, which is at most 5 bytes and 32 bits long.
+  */
+  async #readVarInt(): Promise<number> {
+    const byteOffset: number = this.#byteOffset;
+    let value: number = 0;
+    for (let i: number = 0; i < 5; i++) {
+      const byte: number = await this.#readUnsignedByte();
+      if (i === 4 && byte > 0x0F) break;
+      value += (byte & 0x7F) * 2 ** (i * 7);
+      if ((byte & 0x80) === 0) return value;
+    }
+    throw new Error(`VarInt at byte offset ${byteOffset} is larger than 32 bits`);
+  }
+
+  async #readVarIntZigZag(): Promise<number> {
+    const value: number = await this.#readVarInt();
+    return (value >>> 1) ^ -(value & 1);
+  }
+
+  async #readLong(): Promise<LongTag> {
+    await this.#allocate(8);
+    const value: bigint = this.#view.getBigInt64(this.#offset, this.#littleEndian);
+    this.#advance(8);
+    return value;
+  }
+
+  /**
+   * Reads an unsigned LEB128 VarLong, which is at most 10 bytes and 64 bits long.
+  */
+  async #readVarLong(): Promise<bigint> {
+    const byteOffset: number = this.#byteOffset;
+    let value: bigint = 0n;
+    for (let i: number = 0; i < 10; i++) {
+      const byte: number = await this.#readUnsignedByte();
+      if (i === 9 && byte > 0x01) break;
+      value |= BigInt(byte & 0x7F) << BigInt(i * 7);
+      if ((byte & 0x80) === 0) return value;
+    }
+    throw new Error(`VarLong at byte offset ${byteOffset} is larger than 64 bits`);
+  }
+
+  async #readVarLongZigZag(): Promise<LongTag> {
+    const value: bigint = await this.#readVarLong();
+    return (value >> 1n) ^ -(value & 1n);
+  }
+
+  async #readFloat(): Promise<number> {
+    await this.#allocate(4);
+    const value: number = this.#view.getFloat32(this.#offset, this.#littleEndian);
+    this.#advance(4);
+    return value;
+  }
+
+  async #readDouble(): Promise<DoubleTag> {
+    await this.#allocate(8);
+    const value: number = this.#view.getFloat64(this.#offset, this.#littleEndian);
+    this.#advance(8);
+    return value;
+  }
+
+  async #readByteArray(): Promise<ByteArrayTag> {
+    const length: number = await this.#readArrayLength();
+    await this.#allocate(length);
+    const value = new Int8Array(this.#data.slice(this.#offset, this.#offset + length).buffer);
+    this.#advance(length);
+    return value;
+  }
+
+  async #readString(): Promise<StringTag> {
+    const length: number = this.#varint ? await this.#readVarInt() : await this.#readUnsignedShort();
+    await this.#allocate(length);
+    const value: string = this.#decoder.decode(this.#data.subarray(this.#offset, this.#offset + length));
+    this.#advance(length);
+    return value;
+  }
+
+  async #readIntArray(): Promise<IntArrayTag> {
+    const length: number = await this.#readArrayLength();
+    if (this.#varint) {
+      const entries: number[] = [];
+      for (let i: number = 0; i < length; i++) {
+        entries.push(await this.#readVarIntZigZag());
+      }
+      return Int32Array.from(entries);
+    }
+    await this.#allocate(length * 4);
+    const value = new Int32Array(length);
+    for (let i: number = 0; i < length; i++) {
+      value[i] = this.#view.getInt32(this.#offset, this.#littleEndian);
+      this.#advance(4);
+    }
+    return value;
+  }
+
+  async #readLongArray(): Promise<LongArrayTag> {
+    const length: number = await this.#readArrayLength();
+    if (this.#varint) {
+      const entries: bigint[] = [];
+      for (let i: number = 0; i < length; i++) {
+        entries.push(await this.#readVarLongZigZag());
+      }
+      return BigInt64Array.from(entries);
+    }
+    await this.#allocate(length * 8);
+    const value = new BigInt64Array(length);
+    for (let i: number = 0; i < length; i++) {
+      value[i] = this.#view.getBigInt64(this.#offset, this.#littleEndian);
+      this.#advance(8);
+    }
+    return value;
+  }
+
+  /**
+   * Reads the length of an Array tag, which is rejected when it's negative. The items of varint arrays are collected as they arrive, rather than allocated up front from a length the stream hasn't been checked against.
+  */
+  async #readArrayLength(): Promise<number> {
+    const byteOffset: number = this.#byteOffset;
+    const length: number = this.#varint ? await this.#readVarIntZigZag() : await this.#readInt();
+    if (length < 0) {
+      throw new Error(`Encountered invalid Array tag length '${length}' at byte offset ${byteOffset}`);
+    }
+    return length;
+  }
+}
\ No newline at end of file
@@ -1,94 +1,173 @@
 import { NBTData } from "./format.js";
+import { isWrapperCompound } from "./parse.js";
 import { TAG, isTag, getTagType } from "./tag.js";
 
-import type { Tag, RootTag, RootTagLike, ByteTag, BooleanTag, ShortTag, IntTag, LongTag, FloatTag, DoubleTag, ByteArrayTag, StringTag, ListTag, CompoundTag, IntArrayTag, LongArrayTag } from "./tag.js";
+import type { SNBTGrammar } from "./parse.js";
+import type { Tag, RootTag, RootTagLike, AnyRootTagLike, ByteTag, BooleanTag, ShortTag, IntTag, LongTag, FloatTag, DoubleTag, ByteArrayTag, StringTag, ListTag, CompoundTag, IntArrayTag, LongArrayTag } from "./tag.js";
 
 export interface StringifyOptions {
   space?: string | number;
+  /**
+   * The SNBT grammar to target. The modern grammar escapes control characters with `\x`, and writes heterogeneous List tags without their Compound tag wrappers.
+  */
+  grammar?: SNBTGrammar;
+  /**
+   * Writes Compound tag keys in sorted order, rather than in insertion order.
+  */
+  sortKeys?: boolean;
+  /**
+   * Keeps Compound and List tags on one line when they fit within this width, and wraps long Array and List tags of primitives across lines. Only applies when `space` is set.
+  */
+  maxLineWidth?: number;
+  /**
+   * The quote character to use for strings. By default, the one which needs the fewest escapes is used.
+  */
+  quote?: "\"" | "'";
+  /**
+   * The letter case of number type suffixes, such as `1b` or `1B`.
+  */
+  suffix?: "lower" | "upper";
+  trailingNewline?: boolean;
+  /**
+   * Allows the root to be any tag type, rather than only a List or Compound tag. Defaults to the value on the NBTData object, if one is passed in.
+  */
+  anyRoot?: boolean;
+}
+
+interface StringifyContext {
+  space: string;
+  grammar: SNBTGrammar;
+  sortKeys: boolean;
+  maxLineWidth: number;
+  quote: "\"" | "'" | null;
+  upper: boolean;
 }
 
 /**
  * Converts an NBT object into an SNBT string.
 */
+export function stringify<T extends AnyRootTagLike = Tag>(data: T | NBTData<T>, options: StringifyOptions & { anyRoot: true; }): string;
+export function stringify<T extends AnyRootTagLike = RootTag>(data: NBTData<T>, options?: StringifyOptions): string;
 export function stringify<T extends RootTagLike = RootTag>(data: T | NBTData<T>, options?: StringifyOptions): string;
-export function stringify<T extends RootTagLike = RootTag>(data: T | NBTData<T>, { space = "" }: StringifyOptions = {}): string {
+export function stringify<T extends AnyRootTagLike = RootTag>(data: T | NBTData<T>, { space = "", grammar = "legacy", sortKeys = false, maxLineWidth = Infinity, quote, suffix = "lower", trailingNewline = false, anyRoot }: StringifyOptions = {}): string {
   if (data instanceof NBTData) {
+    anyRoot ??= data.anyRoot;
     data = data.data;
   }
 
-  if (typeof data !== "object" || data === null) {
-    data satisfies never;
+  anyRoot ??= false;
+
+  if (typeof anyRoot !== "boolean") {
+    anyRoot satisfies never;
+    throw new TypeError("Any Root option must be a boolean");
+  }
+  if (!anyRoot && (typeof data !== "object" || data === null)) {
     throw new TypeError("First parameter must be an object or array");
   }
   if (typeof space !== "string" && typeof space !== "number") {
     space satisfies never;
     throw new TypeError("Space option must be a string or number");
   }
+  if (grammar !== "legacy" && grammar !== "modern") {
+    grammar satisfies never;
+    throw new TypeError("Grammar option must be either 'legacy' or 'modern'");
+  }
+  if (typeof sortKeys !== "boolean") {
+    sortKeys satisfies never;
+    throw new TypeError("Sort Keys option must be a boolean");
+  }
+  if (typeof maxLineWidth !== "number" || Number.isNaN(maxLineWidth) || maxLineWidth < 0) {
+    throw new TypeError("Max Line Width option must be a non-negative number");
+  }
+  if (quote !== undefined && quote !== "\"" && quote !== "'") {
+    quote satisfies never;
+    throw new TypeError("Quote option must be either '\"' or \"'\"");
+  }
+  if (suffix !== "lower" && suffix !== "upper") {
+    suffix satisfies never;
+    throw new TypeError("Suffix option must be either 'lower' or 'upper'");
+  }
+  if (typeof trailingNewline !== "boolean") {
+    trailingNewline satisfies never;
+    throw new TypeError("Trailing Newline option must be a boolean");
+  }
 
   space = typeof space === "number" ? " ".repeat(space) : space;
+  const context: StringifyContext = { space, grammar, sortKeys, maxLineWidth, quote: quote ?? null, upper: suffix === "upper" };
   const level = 1;
-  return stringifyRoot(data as RootTag, space, level);
+  return `${stringifyRoot(data as Tag, context, level, anyRoot)}${trailingNewline ? "\n" : ""}`;
 }
 
-function stringifyRoot(value: RootTag, space: string, level: number): string {
-  const type: TAG = getTagType(value);
-  if (type !== TAG.LIST && type !== TAG.COMPOUND) {
+function stringifyRoot(value: Tag, context: StringifyContext, level: number, anyRoot: boolean): string {
+  const type: TAG | null = getTagType(value);
+  if (type === null) {
+    throw new TypeError("Encountered unexpected Root tag type, must be a valid tag");
+  }
+  if (!anyRoot && type !== TAG.LIST && type !== TAG.COMPOUND) {
     throw new TypeError("Encountered unexpected Root tag type, must be either a List or Compound tag");
   }
 
-  return stringifyTag(value, space, level);
+  return stringifyTag(value, context, level, 0, false);
 }
 
-function stringifyTag(value: Tag, space: string, level: number): string {
+/**
+ * Converts a tag to SNBT, where `column` is the line position the tag starts at, and `inline` keeps the tag on a single line.
+*/
+function stringifyTag(value: Tag, context: StringifyContext, level: number, column: number, inline: boolean): string {
   const type: TAG = getTagType(value);
   switch (type) {
-    case TAG.BYTE: return stringifyByte(value as ByteTag | BooleanTag);
-    case TAG.SHORT: return stringifyShort(value as ShortTag);
+    case TAG.BYTE: return stringifyByte(value as ByteTag | BooleanTag, context);
+    case TAG.SHORT: return stringifyShort(value as ShortTag, context);
     case TAG.INT: return stringifyInt(value as IntTag);
-    case TAG.LONG: return stringifyLong(value as LongTag);
-    case TAG.FLOAT: return stringifyFloat(value as FloatTag);
-    case TAG.DOUBLE: return stringifyDouble(value as DoubleTag);
-    case TAG.BYTE_ARRAY: return stringifyByteArray(value as ByteArrayTag);
-    case TAG.STRING: return stringifyString(value as StringTag);
-    case TAG.LIST: return stringifyList(value as ListTag<Tag>, space, level);
-    case TAG.COMPOUND: return stringifyCompound(value as CompoundTag, space, level);
-    case TAG.INT_ARRAY: return stringifyIntArray(value as IntArrayTag);
-    case TAG.LONG_ARRAY: return stringifyLongArray(value as LongArrayTag);
+    case TAG.LONG: return stringifyLong(value as LongTag, context);
+    case TAG.FLOAT: return stringifyFloat(value as FloatTag, context);
+    case TAG.DOUBLE: return stringifyDouble(value as DoubleTag, context);
+    case TAG.BYTE_ARRAY: return stringifyArray("B", [...value as ByteArrayTag].map(entry => stringifyByte(entry, context)), context, level, column, inline);
+    case TAG.STRING: return stringifyString(value as StringTag, context);
+    case TAG.LIST: return stringifyList(value as ListTag<Tag>, context, level, column, inline);
+    case TAG.COMPOUND: return stringifyCompound(value as CompoundTag, context, level, column, inline);
+    case TAG.INT_ARRAY: return stringifyArray("I", [...value as IntArrayTag].map(entry => stringifyInt(entry)), context, level, column, inline);
+    case TAG.LONG_ARRAY: return stringifyArray("L", [...value as LongArrayTag].map(entry => stringifyLong(entry, context)), context, level, column, inline);
     default: throw new Error(`Encountered unsupported tag type '${type}'`);
   }
 }
 
-function stringifyByte(value: number | ByteTag | BooleanTag): string {
-  return (typeof value === "boolean") ? `${value}` : `${value.valueOf()}b`;
+function stringifySuffix(suffix: string, context: StringifyContext): string {
+  return context.upper ? suffix.toUpperCase() : suffix;
 }
 
-function stringifyShort(value: number | ShortTag): string {
-  return `${value.valueOf()}s`;
+function stringifyByte(value: number | ByteTag | BooleanTag, context: StringifyContext): string {
+  return (typeof value === "boolean") ? `${value}` : `${value.valueOf()}${stringifySuffix("b", context)}`;
 }
 
-function stringifyInt(value: number | IntTag): string {
-  return `${value.valueOf()}`;
+function stringifyShort(value: number | ShortTag, context: StringifyContext): string {
+  return `${value.valueOf()}${stringifySuffix("s", context)}`;
 }
 
-function stringifyLong(value: LongTag): string {
-  return `${value}l`;
+function stringifyInt(value: number | IntTag): string {
+  return `${value.valueOf()}`;
 }
 
-function stringifyFloat(value: number | FloatTag): string {
-  return `${value.valueOf()}${Number.isInteger(value.valueOf()) ? ".0" : ""}f`;
+function stringifyLong(value: LongTag, context: StringifyContext): string {
+  return `${value}${stringifySuffix("l", context)}`;
 }
 
-function stringifyDouble(value: DoubleTag): string {
-  return `${value}${!Number.isInteger(value) || value.toExponential() === value.toString() ? "" : ".0"}d`;
+function stringifyFloat(value: number | FloatTag, context: StringifyContext): string {
+  return `${value.valueOf()}${Number.isInteger(value.valueOf()) ? ".0" : ""}${stringifySuffix("f", context)}`;
 }
 
-function stringifyByteArray(value: ByteArrayTag): string {
-  return `[B;${[...value].map(entry => stringifyByte(entry)).join() satisfies string}]`;
+function stringifyDouble(value: DoubleTag, context: StringifyContext): string {
+  return `${value}${!Number.isInteger(value) || value.toExponential() === value.toString() ? "" : ".0"}${stringifySuffix("d", context)}`;
 }
 
-function stringifyString(value: StringTag): string {
-  const singleQuoteString: string = escapeString(value.replace(/['\\]/g, character => `\\${character}`));
-  const doubleQuoteString: string = escapeString(value.replace(/["\\]/g, character => `\\${character}`));
+function stringifyString(value: StringTag, context: StringifyContext): string {
+  const escape = (context.grammar === "modern") ? escapeModernString : escapeString;
+  const singleQuoteString: string = escape(value.replace(/['\\]/g, character => `\\${character}`));
+  const doubleQuoteString: string = escape(value.replace(/["\\]/g, character => `\\${character}`));
+  switch (context.quote) {
+    case "'": return `'${singleQuoteString}'`;
+    case "\"": return `"${doubleQuoteString}"`;
+  }
   return (singleQuoteString.length < doubleQuoteString.length) ? `'${singleQuoteString}'` : `"${doubleQuoteString}"`;
 }
 
@@ -102,32 +181,120 @@ function escapeString(value: StringTag): string {
     .replaceAll("\t", "\\t");
 }
 
-function stringifyList(value: ListTag<Tag>, space: string, level: number): string {
+function escapeModernString(value: StringTag): string {
+  return value
+    .replaceAll("\b", "\\b")
+    .replaceAll("\f", "\\f")
+    .replaceAll("\n", "\\n")
+    .replaceAll("\r", "\\r")
+    .replaceAll("\t", "\\t")
+    .replace(/[\0-\x1F\x7F]/g, character => `\\x${character.charCodeAt(0).toString(16).padStart(2, "0")}`);
+}
+
+/**
+ * Checks whether a single-line form fits within the max line width, starting from the given column.
+*/
+function fits(value: string, context: StringifyContext, column: number): boolean {
+  return Number.isFinite(context.maxLineWidth) && column + value.length <= context.maxLineWidth;
+}
+
+/**
+ * Wraps a sequence of items across as few lines as possible, within the max line width.
+*/
+function wrapItems(open: string, items: string[], close: string, context: StringifyContext, level: number): string {
+  const indent: string = context.space.repeat(level);
+  const lines: string[] = [];
+  let line: string = "";
+
+  for (const [i, item] of items.entries()) {
+    const entry: string = `${item}${i < items.length - 1 ? "," : ""}`;
+    if (line !== "" && indent.length + line.length + 1 + entry.length > context.maxLineWidth) {
+      lines.push(line);
+      line = "";
+    }
+    line = (line === "") ? entry : `${line} ${entry}`;
+  }
+  lines.push(line);
+
+  return `${open}${lines.map(line => `\n${indent}${line}`).join("")}\n${context.space.repeat(level - 1)}${close}`;
+}
+
+function stringifyArray(prefix: "B" | "I" | "L", items: string[], context: StringifyContext, level: number, column: number, inline: boolean): string {
+  const result: string = `[${prefix};${items.join() satisfies string}]`;
+  if (context.space === "" || inline || items.length === 0 || !Number.isFinite(context.maxLineWidth) || fits(result, context, column)) {
+    return result;
+  }
+  return wrapItems(`[${prefix};`, items, "]", context, level);
+}
+
+function stringifyList(value: ListTag<Tag>, context: StringifyContext, level: number, column: number, inline: boolean): string {
   value = value.filter(isTag);
+  if (context.grammar === "modern") {
+    value = unwrapHeterogeneousList(value);
+  }
+  const { space } = context;
   const fancy: boolean = (space !== "");
   const type: TAG = (value[0] !== undefined) ? getTagType(value[0]) : TAG.END;
-  const isIndentedList: boolean = fancy && new Set<TAG>([TAG.BYTE_ARRAY, TAG.LIST, TAG.COMPOUND, TAG.INT_ARRAY, TAG.LONG_ARRAY]).has(type);
-  return `[${value.map(entry => `${isIndentedList ? `\n${space.repeat(level)}` : ""}${(() => {
-    if (getTagType(entry) !== type) {
+  const isComplexList: boolean = new Set<TAG>([TAG.BYTE_ARRAY, TAG.LIST, TAG.COMPOUND, TAG.INT_ARRAY, TAG.LONG_ARRAY]).has(type);
+
+  for (const entry of value) {
+    if (getTagType(entry) !== type && context.grammar !== "modern") {
       throw new TypeError("Encountered unexpected item type in array, all tags in a List tag must be of the same type");
     }
-    const result: string = stringifyTag(entry, space, level + 1);
-    return result;
-  })() satisfies string}`).join(`,${fancy && !isIndentedList ? " " : ""}`)}${isIndentedList ? `\n${space.repeat(level - 1)}` : ""}]`;
-}
+  }
 
-function stringifyCompound(value: CompoundTag, space: string, level: number): string {
-  const fancy: boolean = (space !== "");
-  return `{${Object.entries(value).filter((entry): entry is [string, Tag] => isTag(entry[1])).map(([key, value]) => `${fancy ? `\n${(space satisfies string).repeat(level)}` : ""}${/^[0-9a-z_\-.+]+$/i.test(key) ? key : stringifyString(key)}:${fancy ? " " : ""}${(() => {
-    const result: string = stringifyTag(value, space, level + 1);
-    return result;
-  })() satisfies string}`).join(",")}${fancy && Object.keys(value).length !== 0 ? `\n${space.repeat(level - 1)}` : ""}}`;
+  if (!fancy || value.length === 0) {
+    return `[${value.map(entry => stringifyTag(entry, context, level + 1, 0, true)).join(",")}]`;
+  }
+
+  if (inline || Number.isFinite(context.maxLineWidth) || !isComplexList) {
+    const result: string = `[${value.map(entry => stringifyTag(entry, context, level + 1, 0, true)).join(", ")}]`;
+    if (inline || fits(result, context, column) || (!isComplexList && !Number.isFinite(context.maxLineWidth))) {
+      return result;
+    }
+  }
+
+  const indent: string = space.repeat(level);
+
+  if (!isComplexList) {
+    return wrapItems("[", value.map(entry => stringifyTag(entry, context, level + 1, 0, true)), "]", context, level);
+  }
+
+  return `[${value.map(entry => `\n${indent}${stringifyTag(entry, context, level + 1, indent.length, false)}`).join(",")}\n${space.repeat(level - 1)}]`;
 }
 
-function stringifyIntArray(value: IntArrayTag): string {
-  return `[I;${[...value].map(entry => stringifyInt(entry)).join() satisfies string}]`;
+/**
+ * Unwraps the Compound tag wrappers of a List tag's items, if the List tag is heterogeneous without them.
+*/
+function unwrapHeterogeneousList(value: ListTag<Tag>): ListTag<Tag> {
+  if (!value.some(isWrapperCompound)) return value;
+  // An unwrapped Compound tag would be read back as an item of its own, so the wrappers are only dropped when none of them hold one.
+  if (value.some(entry => isWrapperCompound(entry) && getTagType(entry[""]) === TAG.COMPOUND)) return value;
+  const unwrapped: Tag[] = value.map(entry => isWrapperCompound(entry) ? entry[""]! : entry);
+  const type: TAG = getTagType(unwrapped[0]!);
+  return unwrapped.every(entry => getTagType(entry) === type) ? value : unwrapped;
 }
 
-function stringifyLongArray(value: LongArrayTag): string {
-  return `[L;${[...value].map(entry => stringifyLong(entry)).join() satisfies string}]`;
+function stringifyCompound(value: CompoundTag, context: StringifyContext, level: number, column: number, inline: boolean): string {
+  const { space } = context;
+  const fancy: boolean = (space !== "");
+  const entries: [string, Tag][] = Object.entries(value).filter((entry): entry is [string, Tag] => isTag(entry[1]));
+  if (context.sortKeys) {
+    entries.sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+  }
+  const keys: string[] = entries.map(([key]) => /^[0-9a-z_\-.+]+$/i.test(key) ? key : stringifyString(key, context));
+
+  if (!fancy || entries.length === 0) {
+    return `{${entries.map(([, value], i) => `${keys[i]}:${stringifyTag(value, context, level + 1, 0, true)}`).join(",")}}`;
+  }
+
+  if (inline || Number.isFinite(context.maxLineWidth)) {
+    const result: string = `{${entries.map(([, value], i) => `${keys[i]}: ${stringifyTag(value, context, level + 1, 0, true)}`).join(", ")}}`;
+    if (inline || fits(result, context, column)) {
+      return result;
+    }
+  }
+
+  const indent: string = space.repeat(level);
+  return `{${entries.map(([, value], i) => `\n${indent}${keys[i]}: ${stringifyTag(value, context, level + 1, indent.length + keys[i]!.length + 2, false)}`).join(",")}\n${space.repeat(level - 1)}}`;
 }
\ No newline at end of file
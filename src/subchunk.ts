@@ -0,0 +1,457 @@
+import { NBTData } from "./format.js";
+import { NBTReader } from "./read.js";
+import { NBTWriter } from "./write.js";
+
+import type { IntTag, StringTag, CompoundTag } from "./tag.js";
+
+const BLOCK_COUNT = 4096;
+const COLUMN_COUNT = 256;
+const HEIGHTMAP_LENGTH = COLUMN_COUNT * 2;
+const BITS_PER_BLOCK: readonly number[] = [0, 1, 2, 3, 4, 5, 6, 8, 16];
+
+/**
+ * The header of a Data3D biome storage which repeats the storage of the sub-chunk below it.
+*/
+const COPY_PREVIOUS_HEADER = 0xFF;
+
+export type SubChunkVersion = 1 | 8 | 9;
+
+/**
+ * A block state in a Bedrock sub-chunk palette.
+*/
+export interface BedrockBlockState extends CompoundTag {
+  name: StringTag;
+  states: CompoundTag;
+  version?: IntTag;
+}
+
+/**
+ * A layer of blocks in a sub-chunk. The first layer holds the blocks themselves, and the second holds the liquid that waterlogged blocks are filled with.
+*/
+export interface BlockStorage {
+  /**
+   * The palette index of each of the 4096 blocks, in XZY order, so the index of a position is `(x * 16 + z) * 16 + y`.
+  */
+  blocks: Uint16Array;
+  palette: BedrockBlockState[];
+}
+
+/**
+ * The value of a `SubChunkPrefix` record, which stores the blocks of a 16x16x16 section of a chunk.
+*/
+export interface SubChunk {
+  version: SubChunkVersion;
+  /**
+   * The vertical index of the sub-chunk, which is only stored by version 9.
+  */
+  y?: number;
+  storages: BlockStorage[];
+}
+
+export interface BiomeStorage {
+  /**
+   * The palette index of each of the 4096 biomes, in the same XZY order as blocks.
+  */
+  biomes: Uint16Array;
+  /**
+   * The numeric biome IDs.
+  */
+  palette: number[];
+}
+
+/**
+ * The value of a `Data3D` record, which stores the heightmap and 3D biomes of a chunk since 1.18.
+*/
+export interface Data3D {
+  /**
+   * The height of each column, in ZX order, so the index of a column is `z * 16 + x`.
+  */
+  heightmap: Int16Array;
+  /**
+   * The biomes of each sub-chunk from the bottom of the world up. `null` entries repeat the biomes of the sub-chunk below them.
+  */
+  biomes: (BiomeStorage | null)[];
+}
+
+/**
+ * The value of a `Data2D` record, which stores the heightmap and biomes of a chunk before 1.18.
+*/
+export interface Data2D {
+  /**
+   * The height of each column, in ZX order, so the index of a column is `z * 16 + x`.
+  */
+  heightmap: Int16Array;
+  /**
+   * The biome ID of each column, in the same order as the heightmap.
+  */
+  biomes: Uint8Array;
+}
+
+/**
+ * Decodes the value of a `SubChunkPrefix` record. Versions 1, 8, and 9 are supported, which are the formats used since 1.2.13.
+*/
+export function readSubChunk(data: Uint8Array): SubChunk {
+  if (!(data instanceof Uint8Array)) {
+    data satisfies never;
+    throw new TypeError("First parameter must be a Uint8Array");
+  }
+
+  const reader = new ByteReader(data);
+  const version: number = reader.readUint8();
+  const subChunk: SubChunk = { version: version as SubChunkVersion, storages: [] };
+  let storageCount: number;
+
+  switch (version) {
+    case 1: storageCount = 1; break;
+    case 8: storageCount = reader.readUint8(); break;
+    case 9: {
+      storageCount = reader.readUint8();
+      subChunk.y = reader.readInt8();
+      break;
+    }
+    default: throw new Error(`Encountered unsupported sub-chunk version '${version}'`);
+  }
+
+  for (let i: number = 0; i < storageCount; i++) {
+    const { indices, paletteLength } = readPalettedIndices(reader, true);
+    const nbt = new NBTReader(data.subarray(reader.byteOffset), true, false);
+    const palette: BedrockBlockState[] = [];
+
+    for (let j: number = 0; j < paletteLength; j++) {
+      const entry: NBTData<BedrockBlockState> = nbt.readRoot<BedrockBlockState>({ rootName: true, endian: "little", compression: null, bedrockLevel: false, strict: false });
+      palette.push(entry.data);
+    }
+
+    reader.skip(nbt.byteOffset);
+    subChunk.storages.push({ blocks: indices, palette });
+  }
+
+  return subChunk;
+}
+
+/**
+ * Encodes the value of a `SubChunkPrefix` record. Version 1 sub-chunks must have exactly one storage, and version 9 sub-chunks must have their vertical index.
+*/
+export function writeSubChunk(subChunk: SubChunk): Uint8Array {
+  const { version, y, storages } = subChunk;
+  const writer = new ByteWriter();
+
+  switch (version) {
+    case 1: {
+      if (storages.length !== 1) {
+        throw new TypeError("Version 1 sub-chunks must have exactly one storage");
+      }
+      writer.writeUint8(1);
+      break;
+    }
+    case 8: {
+      writer.writeUint8(8);
+      writer.writeUint8(storages.length);
+      break;
+    }
+    case 9: {
+      if (y === undefined || !Number.isInteger(y)) {
+        throw new TypeError("Version 9 sub-chunks must have an integer vertical index");
+      }
+      writer.writeUint8(9);
+      writer.writeUint8(storages.length);
+      writer.writeInt8(y);
+      break;
+    }
+    default: {
+      version satisfies never;
+      throw new TypeError("Sub-chunk version must be 1, 8, or 9");
+    }
+  }
+
+  for (const { blocks, palette } of storages) {
+    writePalettedIndices(writer, blocks, palette.length, 1);
+    const nbt = new NBTWriter(true, false);
+    for (const entry of palette) {
+      nbt.writeRoot(new NBTData(entry, { rootName: "", endian: "little", compression: null, bedrockLevel: false }));
+    }
+    writer.writeBytes(nbt.trimmedEnd());
+  }
+
+  return writer.trimmedEnd();
+}
+
+/**
+ * Decodes the value of a `Data3D` record. The number of biome storages depends on the height of the dimension, so every storage until the end of the value is read.
+*/
+export function readData3D(data: Uint8Array): Data3D {
+  const reader = new ByteReader(data);
+  const heightmap: Int16Array = readHeightmap(reader);
+  const biomes: (BiomeStorage | null)[] = [];
+
+  while (reader.byteOffset < data.byteLength) {
+    if (reader.peekUint8() === COPY_PREVIOUS_HEADER) {
+      reader.skip(1);
+      biomes.push(null);
+      continue;
+    }
+    const { indices, paletteLength } = readPalettedIndices(reader, false);
+    const palette: number[] = [];
+    for (let i: number = 0; i < paletteLength; i++) {
+      palette.push(reader.readInt32());
+    }
+    biomes.push({ biomes: indices, palette });
+  }
+
+  return { heightmap, biomes };
+}
+
+export function writeData3D({ heightmap, biomes }: Data3D): Uint8Array {
+  const writer = new ByteWriter();
+  writeHeightmap(writer, heightmap);
+
+  for (const storage of biomes) {
+    if (storage === null) {
+      writer.writeUint8(COPY_PREVIOUS_HEADER);
+      continue;
+    }
+    const { biomes: indices, palette } = storage;
+    writePalettedIndices(writer, indices, palette.length, 0);
+    for (const id of palette) {
+      writer.writeInt32(id);
+    }
+  }
+
+  return writer.trimmedEnd();
+}
+
+export function readData2D(data: Uint8Array): Data2D {
+  if (data.byteLength !== HEIGHTMAP_LENGTH + COLUMN_COUNT) {
+    throw new Error(`Expected Data2D record of ${HEIGHTMAP_LENGTH + COLUMN_COUNT} bytes, encountered ${data.byteLength} bytes`);
+  }
+  const reader = new ByteReader(data);
+  const heightmap: Int16Array = readHeightmap(reader);
+  const biomes: Uint8Array = data.slice(HEIGHTMAP_LENGTH);
+  return { heightmap, biomes };
+}
+
+export function writeData2D({ heightmap, biomes }: Data2D): Uint8Array {
+  if (biomes.length !== COLUMN_COUNT) {
+    throw new TypeError(`Expected ${COLUMN_COUNT} biomes, encountered ${biomes.length}`);
+  }
+  const writer = new ByteWriter();
+  writeHeightmap(writer, heightmap);
+  writer.writeBytes(biomes);
+  return writer.trimmedEnd();
+}
+
+function readHeightmap(reader: ByteReader): Int16Array {
+  const heightmap = new Int16Array(COLUMN_COUNT);
+  for (let i: number = 0; i < COLUMN_COUNT; i++) {
+    heightmap[i] = reader.readInt16();
+  }
+  return heightmap;
+}
+
+function writeHeightmap(writer: ByteWriter, heightmap: Int16Array): void {
+  if (heightmap.length !== COLUMN_COUNT) {
+    throw new TypeError(`Expected a heightmap of ${COLUMN_COUNT} columns, encountered ${heightmap.length}`);
+  }
+  for (const height of heightmap) {
+    writer.writeInt16(height);
+  }
+}
+
+/**
+ * Reads the header and packed words of a paletted storage, followed by the palette length. Storages with zero bits per entry have no words, and biome storages also leave out the palette length, as they always have a single entry.
+*/
+function readPalettedIndices(reader: ByteReader, blocks: boolean): { indices: Uint16Array; paletteLength: number; } {
+  const header: number = reader.readUint8();
+  const bitsPerEntry: number = header >> 1;
+
+  if ((header & 1) !== 0) {
+    throw new Error("Runtime ID palettes aren't supported, only persistent palettes can be read");
+  }
+  if (!BITS_PER_BLOCK.includes(bitsPerEntry)) {
+    throw new Error(`Encountered unsupported bits per entry '${bitsPerEntry}'`);
+  }
+
+  const indices = new Uint16Array(BLOCK_COUNT);
+
+  if (bitsPerEntry === 0) {
+    return { indices, paletteLength: blocks ? reader.readInt32() : 1 };
+  }
+
+  const entriesPerWord: number = Math.floor(32 / bitsPerEntry);
+  const wordCount: number = Math.ceil(BLOCK_COUNT / entriesPerWord);
+  const mask: number = 2 ** bitsPerEntry - 1;
+
+  for (let i: number = 0; i < wordCount; i++) {
+    const word: number = reader.readUint32();
+    for (let j: number = 0; j < entriesPerWord; j++) {
+      const index: number = i * entriesPerWord + j;
+      if (index >= BLOCK_COUNT) break;
+      indices[index] = (word >>> (j * bitsPerEntry)) & mask;
+    }
+  }
+
+  const paletteLength: number = reader.readInt32();
+  if (paletteLength < 1) {
+    throw new Error(`Encountered invalid palette length '${paletteLength}'`);
+  }
+  return { indices, paletteLength };
+}
+
+/**
+ * Writes the header and packed words of a paletted storage, followed by the palette length, using the fewest bits per entry which fit the palette.
+*/
+function writePalettedIndices(writer: ByteWriter, indices: Uint16Array, paletteLength: number, minBitsPerEntry: number): void {
+  if (indices.length !== BLOCK_COUNT) {
+    throw new TypeError(`Expected ${BLOCK_COUNT} palette indices, encountered ${indices.length}`);
+  }
+  if (paletteLength < 1) {
+    throw new TypeError("Palette must have at least one entry");
+  }
+
+  const required: number = paletteLength <= 1 ? 0 : 32 - Math.clz32(paletteLength - 1);
+  const bitsPerEntry: number = BITS_PER_BLOCK.find(bits => bits >= Math.max(required, minBitsPerEntry))!;
+  writer.writeUint8(bitsPerEntry << 1);
+
+  if (bitsPerEntry === 0) {
+    // Single entry biome storages leave out the palette length.
+    if (minBitsPerEntry !== 0) {
+      writer.writeInt32(paletteLength);
+    }
+    return;
+  }
+
+  const entriesPerWord: number = Math.floor(32 / bitsPerEntry);
+  const wordCount: number = Math.ceil(BLOCK_COUNT / entriesPerWord);
+
+  for (let i: number = 0; i < wordCount; i++) {
+    let word: number = 0;
+    for (let j: number = 0; j < entriesPerWord; j++) {
+      const index: number = i * entriesPerWord + j;
+      if (index >= BLOCK_COUNT) break;
+      const value: number = indices[index]!;
+      if (value >= paletteLength) {
+        throw new RangeError(`Palette index ${value} at ${index} is out of range for a palette of ${paletteLength} entries`);
+      }
+      word |= value << (j * bitsPerEntry);
+    }
+    writer.writeUint32(word >>> 0);
+  }
+
+  writer.writeInt32(paletteLength);
+}
+
+class ByteReader {
+  #byteOffset: number = 0;
+  readonly #data: Uint8Array;
+  readonly #view: DataView;
+
+  constructor(data: Uint8Array) {
+    this.#data = data;
+    this.#view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get byteOffset(): number {
+    return this.#byteOffset;
+  }
+
+  skip(byteLength: number): void {
+    this.#allocate(byteLength);
+    this.#byteOffset += byteLength;
+  }
+
+  peekUint8(): number {
+    this.#allocate(1);
+    return this.#view.getUint8(this.#byteOffset);
+  }
+
+  readUint8(): number {
+    this.#allocate(1);
+    return this.#view.getUint8(this.#byteOffset++);
+  }
+
+  readInt8(): number {
+    this.#allocate(1);
+    return this.#view.getInt8(this.#byteOffset++);
+  }
+
+  readInt16(): number {
+    this.#allocate(2);
+    const value: number = this.#view.getInt16(this.#byteOffset, true);
+    this.#byteOffset += 2;
+    return value;
+  }
+
+  readInt32(): number {
+    this.#allocate(4);
+    const value: number = this.#view.getInt32(this.#byteOffset, true);
+    this.#byteOffset += 4;
+    return value;
+  }
+
+  readUint32(): number {
+    this.#allocate(4);
+    const value: number = this.#view.getUint32(this.#byteOffset, true);
+    this.#byteOffset += 4;
+    return value;
+  }
+
+  #allocate(byteLength: number): void {
+    if (this.#byteOffset + byteLength > this.#data.byteLength) {
+      throw new Error("Ran out of bytes to read, unexpectedly reached the end of the buffer");
+    }
+  }
+}
+
+class ByteWriter {
+  #byteOffset: number = 0;
+  #data: Uint8Array = new Uint8Array(1024);
+  #view: DataView = new DataView(this.#data.buffer);
+
+  writeUint8(value: number): void {
+    this.#allocate(1);
+    this.#view.setUint8(this.#byteOffset++, value);
+  }
+
+  writeInt8(value: number): void {
+    this.#allocate(1);
+    this.#view.setInt8(this.#byteOffset++, value);
+  }
+
+  writeInt16(value: number): void {
+    this.#allocate(2);
+    this.#view.setInt16(this.#byteOffset, value, true);
+    this.#byteOffset += 2;
+  }
+
+  writeInt32(value: number): void {
+    this.#allocate(4);
+    this.#view.setInt32(this.#byteOffset, value, true);
+    this.#byteOffset += 4;
+  }
+
+  writeUint32(value: number): void {
+    this.#allocate(4);
+    this.#view.setUint32(this.#byteOffset, value, true);
+    this.#byteOffset += 4;
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.#allocate(bytes.byteLength);
+    this.#data.set(bytes, this.#byteOffset);
+    this.#byteOffset += bytes.byteLength;
+  }
+
+  trimmedEnd(): Uint8Array {
+    return this.#data.slice(0, this.#byteOffset);
+  }
+
+  #allocate(byteLength: number): void {
+    const required: number = this.#byteOffset + byteLength;
+    if (this.#data.byteLength >= required) return;
+
+    const data = new Uint8Array(Math.max(required, this.#data.byteLength * 2));
+    data.set(this.#data, 0);
+    this.#data = data;
+    this.#view = new DataView(data.buffer);
+  }
+}
\ No newline at end of file
@@ -6,6 +6,11 @@ export type RootTag = CompoundTag | ListTag<Tag>;
 
 export type RootTagLike = CompoundTagLike | ListTagLike;
 
+/**
+ * A root which may be any tag type, such as those of Java Edition network NBT.
+*/
+export type AnyRootTagLike = RootTagLike | Tag;
+
 export type ByteTag<T extends number = number> = Int8<NumberLike<T>>;
 
 export type BooleanTag = FalseTag | TrueTag;
@@ -98,4 +103,70 @@ export function getTagType(value: unknown): TAG | null {
     case typeof value === "object" && value !== null: return TAG.COMPOUND;
     default: return null;
   }
+}
+
+/**
+ * Creates a deep copy of a tag. Primitive tags are returned as-is, as they are immutable.
+*/
+export function cloneTag<T extends Tag>(value: T): T {
+  switch (getTagType(value)) {
+    case TAG.LIST: {
+      const list: ListTag<Tag> = (value as ListTag<Tag>).map(entry => isTag(entry) ? cloneTag(entry) : entry);
+      if (TAG_TYPE in (value as ListTag<Tag>)) {
+        Object.defineProperty(list, TAG_TYPE, {
+          configurable: true,
+          enumerable: false,
+          writable: true,
+          value: (value as ListTag<Tag>)[TAG_TYPE]
+        });
+      }
+      return list as T;
+    }
+    case TAG.COMPOUND: {
+      const compound: CompoundTag = {};
+      for (const [key, entry] of Object.entries(value as CompoundTag)) {
+        if (!isTag(entry)) continue;
+        compound[key] = cloneTag(entry);
+      }
+      return compound as T;
+    }
+    case TAG.BYTE_ARRAY:
+    case TAG.INT_ARRAY:
+    case TAG.LONG_ARRAY: return (value as ByteArrayTag | IntArrayTag | LongArrayTag).slice() as T;
+    default: return value;
+  }
+}
+
+/**
+ * Checks whether two tags are the same, including their tag types. `new Int8(1)` and `new Int16(1)` are not equal.
+*/
+export function isTagEqual(a: Tag, b: Tag): boolean {
+  const type: TAG = getTagType(a);
+  if (getTagType(b) !== type) return false;
+
+  switch (type) {
+    case TAG.LIST: {
+      const x: Tag[] = (a as ListTag<Tag>).filter(isTag);
+      const y: Tag[] = (b as ListTag<Tag>).filter(isTag);
+      return x.length === y.length && x.every((entry, i) => isTagEqual(entry, y[i]!));
+    }
+    case TAG.COMPOUND: {
+      const x = Object.entries(a as CompoundTag).filter((entry): entry is [string, Tag] => isTag(entry[1]));
+      const y = Object.entries(b as CompoundTag).filter((entry): entry is [string, Tag] => isTag(entry[1]));
+      return x.length === y.length && x.every(([key, entry]) => {
+        const other: Tag | undefined = (b as CompoundTag)[key];
+        return isTag(other) && isTagEqual(entry, other);
+      });
+    }
+    case TAG.BYTE_ARRAY:
+    case TAG.INT_ARRAY:
+    case TAG.LONG_ARRAY: {
+      const x = a as ByteArrayTag | IntArrayTag | LongArrayTag;
+      const y = b as ByteArrayTag | IntArrayTag | LongArrayTag;
+      return x.length === y.length && x.every((entry, i) => entry === y[i]);
+    }
+    case TAG.LONG:
+    case TAG.STRING: return a === b;
+    default: return Object.is(Number(a.valueOf()), Number(b.valueOf()));
+  }
 }
\ No newline at end of file
@@ -2,20 +2,30 @@ import { MUtf8Encoder } from "mutf-8";
 import { NBTData } from "./format.js";
 import { TAG, TAG_TYPE, isTag, getTagType } from "./tag.js";
 import { Int32 } from "./primitive.js";
-import { compress } from "./compression.js";
+import { compress, isCompression } from "./compression.js";
+import { HOST_LITTLE_ENDIAN, swapEndian } from "./endian.js";
+import { BEDROCK_LEVEL_FRAMING } from "./framing.js";
 
 import type { NBTDataOptions } from "./format.js";
-import type { Tag, RootTag, RootTagLike, ByteTag, BooleanTag, ShortTag, IntTag, LongTag, FloatTag, DoubleTag, ByteArrayTag, StringTag, ListTag, CompoundTag, IntArrayTag, LongArrayTag } from "./tag.js";
+import type { CompressionOptions } from "./compression.js";
+import type { Framing } from "./framing.js";
+import type { Tag, RootTag, AnyRootTagLike, ByteTag, BooleanTag, ShortTag, IntTag, LongTag, FloatTag, DoubleTag, ByteArrayTag, StringTag, ListTag, CompoundTag, IntArrayTag, LongArrayTag } from "./tag.js";
+
+const MUTF8_ENCODER = new MUtf8Encoder();
+const UTF8_ENCODER = new TextEncoder();
+
+export interface WriteOptions extends NBTDataOptions, CompressionOptions {}
 
 /**
  * Converts an NBT object into an NBT buffer. Accepts an endian type, compression format, and file headers to write the data with.
  * 
  * If a format option isn't specified, the value of the equivalent property on the NBTData object will be used.
 */
-export async function write<T extends RootTagLike = RootTag>(data: T | NBTData<T>, options: NBTDataOptions = {}): Promise<Uint8Array> {
+export async function write<T extends AnyRootTagLike = RootTag>(data: T | NBTData<T>, options: WriteOptions = {}): Promise<Uint8Array> {
+  const { level, strategy } = options;
   data = new NBTData(data, options);
 
-  const { rootName, endian, compression, bedrockLevel } = data as NBTData<T>;
+  const { rootName, endian, compression, bedrockLevel, stringEncoding, framing, headerVersion } = data as NBTData<T>;
 
   if (typeof data !== "object" || data === null) {
     data satisfies never;
@@ -29,7 +39,7 @@ export async function write<T extends RootTagLike = RootTag>(data: T | NBTData<T
     endian satisfies never;
     throw new TypeError("Endian option must be a valid endian type");
   }
-  if (compression !== undefined && compression !== "deflate" && compression !== "deflate-raw" && compression !== "gzip" && compression !== null) {
+  if (compression !== undefined && compression !== null && !isCompression(compression)) {
     compression satisfies never;
     throw new TypeError("Compression option must be a valid compression type");
   }
@@ -37,18 +47,78 @@ export async function write<T extends RootTagLike = RootTag>(data: T | NBTData<T
     bedrockLevel satisfies never;
     throw new TypeError("Bedrock Level option must be a boolean");
   }
+  if (stringEncoding !== "mutf-8" && stringEncoding !== "utf-8") {
+    stringEncoding satisfies never;
+    throw new TypeError("String Encoding option must be 'mutf-8' or 'utf-8'");
+  }
+  if (framing !== null && typeof framing?.writeHeader !== "function") {
+    throw new TypeError("Framing option must be a framing");
+  }
+  if (headerVersion !== null && (!Number.isInteger(headerVersion) || headerVersion < 0)) {
+    throw new TypeError("Header Version option must be a non-negative integer or null");
+  }
+
+  const writer = new NBTWriter(endian !== "big", endian === "little-varint");
+  let result: Uint8Array = writer.writeRoot(data as NBTData<T>).trimmedEnd();
+
+  if (compression !== null) {
+    result = await compress(result, compression, { level, strategy });
+  }
+
+  return result;
+}
+
+/**
+ * Converts an array of NBT objects into a single NBT buffer, with each root written directly after the previous one.
+ * 
+ * The endian type and compression format apply to the whole buffer, while the root name of each entry is kept. If a format option isn't specified, the value from the first entry will be used.
+*/
+export async function writeAll<T extends AnyRootTagLike = RootTag>(data: (T | NBTData<T>)[], options: WriteOptions = {}): Promise<Uint8Array> {
+  if (!Array.isArray(data)) {
+    data satisfies never;
+    throw new TypeError("First parameter must be an array");
+  }
+
+  const { level, strategy } = options;
+  const { endian, compression, bedrockLevel, stringEncoding, anyRoot, framing } = new NBTData(data[0] ?? {}, options);
+
+  if (endian !== "big" && endian !== "little" && endian !== "little-varint") {
+    endian satisfies never;
+    throw new TypeError("Endian option must be a valid endian type");
+  }
+  if (compression !== null && !isCompression(compression)) {
+    compression satisfies never;
+    throw new TypeError("Compression option must be a valid compression type");
+  }
 
   const writer = new NBTWriter(endian !== "big", endian === "little-varint");
-  return writer.writeRoot(data as NBTData<T>);
+
+  for (const [i, entry] of data.entries()) {
+    if (!anyRoot && (typeof entry !== "object" || entry === null)) {
+      throw new TypeError(`Entry at index ${i} must be an object or array`);
+    }
+    writer.writeRoot(new NBTData(entry, { ...options, endian, compression, bedrockLevel: i === 0 ? bedrockLevel : false, stringEncoding, anyRoot, framing }));
+  }
+
+  let result: Uint8Array = writer.trimmedEnd();
+
+  if (compression !== null) {
+    result = await compress(result, compression, { level, strategy });
+  }
+
+  return result;
 }
 
-class NBTWriter {
+/**
+ * @internal
+*/
+export class NBTWriter {
   #byteOffset: number = 0;
   #data: Uint8Array = new Uint8Array(1024);
   #view: DataView = new DataView(this.#data.buffer);
   readonly #littleEndian: boolean;
   readonly #varint: boolean;
-  readonly #encoder: MUtf8Encoder = new MUtf8Encoder();
+  #encoder: MUtf8Encoder | TextEncoder = MUTF8_ENCODER;
 
   constructor(littleEndian: boolean, varint: boolean) {
     this.#littleEndian = littleEndian;
@@ -59,66 +129,121 @@ class NBTWriter {
     const required: number = this.#byteOffset + byteLength;
     if (this.#data.byteLength >= required) return;
 
-    let length: number = this.#data.byteLength;
+    // Each root is measured before it's written, so this usually grows the buffer once per root.
+    const data = new Uint8Array(Math.max(required, this.#data.byteLength * 2));
+    data.set(this.#data.subarray(0, this.#byteOffset), 0);
+
+    this.#data = data;
+    this.#view = new DataView(data.buffer);
+  }
 
-    while (length < required) {
-      length *= 2;
+  /**
+   * Measures an upper bound for the byte length of a tag's payload, so the buffer can be sized up front.
+   * 
+   * String lengths are exact, while VarInt values are counted at their largest size.
+  */
+  #measure(value: Tag): number {
+    const type: TAG = getTagType(value);
+    switch (type) {
+      case TAG.BYTE: return 1;
+      case TAG.SHORT: return 2;
+      case TAG.INT: return this.#varint ? 5 : 4;
+      case TAG.LONG: return this.#varint ? 10 : 8;
+      case TAG.FLOAT: return 4;
+      case TAG.DOUBLE: return 8;
+      case TAG.BYTE_ARRAY: return this.#measureLength() + (value as ByteArrayTag).byteLength;
+      case TAG.STRING: return this.#measureString(value as StringTag);
+      case TAG.LIST: {
+        let byteLength: number = 1 + this.#measureLength();
+        for (const entry of value as ListTag<Tag>) {
+          if (!isTag(entry)) continue;
+          byteLength += this.#measure(entry);
+        }
+        return byteLength;
+      }
+      case TAG.COMPOUND: {
+        let byteLength: number = 1;
+        for (const [name, entry] of Object.entries(value as CompoundTag)) {
+          if (!isTag(entry)) continue;
+          byteLength += 1 + this.#measureString(name) + this.#measure(entry);
+        }
+        return byteLength;
+      }
+      case TAG.INT_ARRAY: return this.#measureLength() + (value as IntArrayTag).length * (this.#varint ? 5 : 4);
+      case TAG.LONG_ARRAY: return this.#measureLength() + (value as LongArrayTag).length * (this.#varint ? 10 : 8);
+      default: return 0;
     }
+  }
 
-    const data = new Uint8Array(length);
-    data.set(this.#data, 0);
+  #measureLength(): number {
+    return this.#varint ? 5 : 4;
+  }
 
-    // not sure this is really needed, keeping it just in case; freezer burn
-    if (this.#byteOffset > this.#data.byteLength) {
-      data.fill(0, byteLength, this.#byteOffset);
+  #measureString(value: string): number {
+    let byteLength: number = this.#varint ? 5 : 2;
+    for (let i: number = 0; i < value.length; i++) {
+      const code: number = value.charCodeAt(i);
+      byteLength += (code !== 0 && code < 0x80) ? 1 : (code < 0x800) ? 2 : 3;
     }
-
-    this.#data = data;
-    this.#view = new DataView(data.buffer);
+    return byteLength;
   }
 
-  #trimmedEnd(): Uint8Array {
+  trimmedEnd(): Uint8Array {
     this.#allocate(0);
     return this.#data.slice(0, this.#byteOffset);
   }
 
-  async writeRoot<T extends RootTagLike = RootTag>(data: NBTData<T>): Promise<Uint8Array> {
-    const { data: root, rootName, endian, compression, bedrockLevel } = data;
+  writeRoot<T extends AnyRootTagLike = RootTag>(data: NBTData<T>): this {
+    const { data: root, rootName, endian, bedrockLevel, stringEncoding, anyRoot, framing, headerVersion } = data;
+    const byteOffset: number = this.#byteOffset;
     const littleEndian: boolean = endian !== "big";
-    const type: Tag | null = getTagType(root);
-    if (type !== TAG.LIST && type !== TAG.COMPOUND) {
-      throw new TypeError(`Encountered unexpected Root tag type '${type}', must be either a List or Compound tag`);
+    const type: TAG | null = getTagType(root);
+    if (type === null) {
+      throw new TypeError(`Encountered unexpected Root tag type '${type}', must be a valid tag`);
     }
-
-    if (bedrockLevel) {
-      this.#writeUnsignedInt(0);
-      this.#writeUnsignedInt(0);
+    if (!anyRoot && type !== TAG.LIST && type !== TAG.COMPOUND) {
+      throw new TypeError(`Encountered unexpected Root tag type '${type}', must be either a List or Compound tag`);
     }
 
-    this.#writeTagType(type);
-    if (rootName !== null) this.#writeString(rootName);
-    this.#writeTag(root as RootTag);
+    let header: Framing | null = framing ?? null;
+    let version: number | null = headerVersion ?? null;
 
     if (bedrockLevel) {
       if (littleEndian !== true) {
         throw new TypeError("Endian option must be 'little' when the Bedrock Level flag is enabled");
       }
-      if (!("StorageVersion" in root) || !(root["StorageVersion"] instanceof Int32)) {
-        throw new TypeError("Expected a 'StorageVersion' Int tag when Bedrock Level flag is enabled");
+      if (version === null) {
+        const storageVersion: Tag | undefined = (type === TAG.COMPOUND) ? (root as CompoundTag)["StorageVersion"] : undefined;
+        if (!(storageVersion instanceof Int32)) {
+          throw new TypeError("Expected a 'StorageVersion' Int tag when Bedrock Level flag is enabled, or a Header Version option");
+        }
+        version = storageVersion.valueOf();
       }
-      const version: number = root["StorageVersion"].valueOf();
-      const byteLength: number = this.#byteOffset - 8;
-      this.#view.setUint32(0, version, littleEndian);
-      this.#view.setUint32(4, byteLength, littleEndian);
+      header = BEDROCK_LEVEL_FRAMING;
     }
 
-    let result: Uint8Array = this.#trimmedEnd();
+    this.#encoder = (stringEncoding === "utf-8") ? UTF8_ENCODER : MUTF8_ENCODER;
+    this.#allocate(1 + (rootName !== null ? this.#measureString(rootName) : 0) + this.#measure(root as Tag));
+
+    this.#writeTagType(type);
+    if (rootName !== null) this.#writeString(rootName);
+    this.#writeTag(root as Tag);
 
-    if (compression !== null) {
-      result = await compress(result, compression);
+    if (header !== null) {
+      this.#insertHeader(byteOffset, header.writeHeader(this.#byteOffset - byteOffset, version));
     }
 
-    return result;
+    return this;
+  }
+
+  /**
+   * Inserts a frame header before the root which starts at the given offset, once the byte length of the root is known.
+  */
+  #insertHeader(byteOffset: number, header: Uint8Array): void {
+    this.#allocate(header.byteLength);
+    this.#data.copyWithin(byteOffset + header.byteLength, byteOffset, this.#byteOffset);
+    this.#data.set(header, byteOffset);
+    this.#byteOffset += header.byteLength;
   }
 
   #writeTag(value: Tag): this {
@@ -173,13 +298,6 @@ class NBTWriter {
     return this;
   }
 
-  #writeUnsignedInt(value: number): this {
-    this.#allocate(4);
-    this.#view.setUint32(this.#byteOffset, value, this.#littleEndian);
-    this.#byteOffset += 4;
-    return this;
-  }
-
   #writeInt(value: number | IntTag): this {
     this.#allocate(4);
     this.#view.setInt32(this.#byteOffset, value.valueOf(), this.#littleEndian);
@@ -187,29 +305,21 @@ class NBTWriter {
     return this;
   }
 
+  /**
+   * Writes an unsigned LEB128 VarInt, which is at most 5 bytes long.
+  */
   #writeVarInt(value: number): this {
-    while (true) {
-      let byte: number = value & 0x7F;
+    value >>>= 0;
+    while (value > 0x7F) {
+      this.#writeByte((value & 0x7F) | 0x80);
       value >>>= 7;
-      if (value !== 0) {
-        byte |= 0x80;
-      }
-      this.#writeByte(byte);
-      if (value === 0) break;
     }
-    return this;
+    return this.#writeByte(value);
   }
 
   #writeVarIntZigZag(value: number | IntTag): this {
-    value = value.valueOf();
-    value = (value << 1) ^ (value >> 31);
-    while (value & ~0x7F) {
-      const byte: number = (value & 0xFF) | 0x80;
-      this.#writeByte(byte);
-      value >>>= 7;
-    }
-    this.#writeByte(value);
-    return this;
+    value = value.valueOf() | 0;
+    return this.#writeVarInt((value << 1) ^ (value >> 31));
   }
 
   #writeLong(value: LongTag): this {
@@ -219,15 +329,21 @@ class NBTWriter {
     return this;
   }
 
-  #writeVarLongZigZag(value: LongTag): this {
-    value = (value << 1n) ^ (value >> 63n);
-    while (value > 127n) {
-      const byte: number = Number(value & 0xFFn);
-      this.#writeByte(byte | 0x80);
+  /**
+   * Writes an unsigned LEB128 VarLong, which is at most 10 bytes long.
+  */
+  #writeVarLong(value: bigint): this {
+    value = BigInt.asUintN(64, value);
+    while (value > 0x7Fn) {
+      this.#writeByte(Number(value & 0x7Fn) | 0x80);
       value >>= 7n;
     }
-    this.#writeByte(Number(value));
-    return this;
+    return this.#writeByte(Number(value));
+  }
+
+  #writeVarLongZigZag(value: LongTag): this {
+    value = BigInt.asIntN(64, value);
+    return this.#writeVarLong((value << 1n) ^ (value >> 63n));
   }
 
   #writeFloat(value: number | FloatTag): this {
@@ -247,10 +363,7 @@ class NBTWriter {
   #writeByteArray(value: ByteArrayTag): this {
     const { length } = value;
     this.#varint ? this.#writeVarIntZigZag(length) : this.#writeInt(length);
-    this.#allocate(length);
-    this.#data.set(value, this.#byteOffset);
-    this.#byteOffset += length;
-    return this;
+    return this.#writeTypedArray(value, 1);
   }
 
   #writeString(value: StringTag): this {
@@ -294,19 +407,41 @@ class NBTWriter {
 
   #writeIntArray(value: IntArrayTag): this {
     const { length } = value;
-    this.#varint ? this.#writeVarIntZigZag(length) : this.#writeInt(length);
-    for (const entry of value) {
-      this.#writeInt(entry);
+    if (this.#varint) {
+      this.#writeVarIntZigZag(length);
+      for (const entry of value) {
+        this.#writeVarIntZigZag(entry);
+      }
+      return this;
     }
-    return this;
+    this.#writeInt(length);
+    return this.#writeTypedArray(value, 4);
   }
 
   #writeLongArray(value: LongArrayTag): this {
     const { length } = value;
-    this.#varint ? this.#writeVarIntZigZag(length) : this.#writeInt(length);
-    for (const entry of value) {
-      this.#writeLong(entry);
+    if (this.#varint) {
+      this.#writeVarIntZigZag(length);
+      for (const entry of value) {
+        this.#writeVarLongZigZag(entry);
+      }
+      return this;
+    }
+    this.#writeInt(length);
+    return this.#writeTypedArray(value, 8);
+  }
+
+  /**
+   * Copies the items of an Array tag in bulk, then swaps their byte order in place if it differs from the platform's.
+  */
+  #writeTypedArray(value: ByteArrayTag | IntArrayTag | LongArrayTag, byteSize: 1 | 4 | 8): this {
+    const { byteLength } = value;
+    this.#allocate(byteLength);
+    this.#data.set(new Uint8Array(value.buffer, value.byteOffset, byteLength), this.#byteOffset);
+    if (byteSize !== 1 && this.#littleEndian !== HOST_LITTLE_ENDIAN) {
+      swapEndian(this.#data.subarray(this.#byteOffset, this.#byteOffset + byteLength), byteSize);
     }
+    this.#byteOffset += byteLength;
     return this;
   }
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { readFile, readdir } from "node:fs/promises";
+import { read, write } from "../src/index.js";
+
+import type { NBTData } from "../src/index.js";
+
+/** The minimum time spent on each measurement, in milliseconds. */
+const DURATION = 250;
+
+interface Result {
+  file: string;
+  bytes: number;
+  "read (ms)": string;
+  "write (ms)": string;
+  "read (MB/s)": string;
+  "write (MB/s)": string;
+}
+
+/** Runs a task repeatedly for at least the given duration, returning the mean time per run. */
+async function measure(task: () => Promise<unknown>): Promise<number> {
+  await task();
+  let runs: number = 0;
+  const start: number = performance.now();
+  while (performance.now() - start < DURATION) {
+    await task();
+    runs++;
+  }
+  return (performance.now() - start) / runs;
+}
+
+const paths: string[] = await readdir(new URL("./nbt/", import.meta.url))
+  .then(paths => paths.filter(path => !path.endsWith(".snbt")).sort(Intl.Collator().compare));
+
+const results: Result[] = [];
+
+for (const file of paths) {
+  const buffer: Buffer = await readFile(new URL(`./nbt/${file}`, import.meta.url));
+
+  // Files with trailing data, like Legacy Console Edition player data, are only read up to the end of the root.
+  const strict: boolean = await read(buffer).then(() => true, () => false);
+  const nbt: NBTData | null = await read(buffer, { strict }).catch(() => null);
+  if (nbt === null) continue;
+
+  // Reading with the known format measures the reader itself, rather than format detection.
+  const { rootName, endian, compression, bedrockLevel } = nbt;
+  const readTime: number = await measure(() => read(buffer, { rootName: rootName !== null, endian, compression, bedrockLevel, strict }));
+  const writeTime: number = await measure(() => write(nbt));
+  const megabytes: number = buffer.byteLength / 1_000_000;
+
+  results.push({
+    file,
+    bytes: buffer.byteLength,
+    "read (ms)": readTime.toFixed(3),
+    "write (ms)": writeTime.toFixed(3),
+    "read (MB/s)": (megabytes / (readTime / 1000)).toFixed(1),
+    "write (MB/s)": (megabytes / (writeTime / 1000)).toFixed(1)
+  });
+}
+
+console.table(results);
\ No newline at end of file
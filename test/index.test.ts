@@ -1,5 +1,5 @@
 import { describe, it } from "node:test";
-import assert, { rejects, strictEqual, throws } from "node:assert";
+import assert, { deepStrictEqual, rejects, strictEqual, throws } from "node:assert";
 import { readFile, readdir } from "node:fs/promises";
 import * as NBT from "../src/index.js";
 
@@ -92,4 +92,928 @@ describe("Read, Stringify, Parse and Write", () => {
       strictEqual(compare, 0, `'${name}' does not symmetrically recompile`);
     });
   }
-});
\ No newline at end of file
+});
+
+describe("Region File", () => {
+  const chunk: Buffer = files.find(({ name }) => name === "mca-chunk.nbt")!.buffer;
+
+  it("writes, reads, and deletes chunks", async () => {
+    const region = new NBT.RegionFile();
+    const data: NBT.NBTData = await NBT.read(chunk);
+
+    await region.writeChunk(3, 7, data, { timestamp: 1700000000 });
+    await region.writeChunk(-1, 33, data, { compression: "gzip" });
+
+    const reopened = new NBT.RegionFile(region.toUint8Array());
+    deepStrictEqual(reopened.chunks().map(({ x, z }) => [x, z]), [[31, 1], [3, 7]]);
+    strictEqual(reopened.get(3, 7)?.timestamp, 1700000000);
+    strictEqual(NBT.stringify((await reopened.readChunk(3, 7))!), NBT.stringify(data));
+    strictEqual(NBT.stringify((await reopened.readChunk(31, 1))!), NBT.stringify(data));
+    strictEqual(await reopened.readChunk(0, 0), null);
+
+    strictEqual(reopened.deleteChunk(3, 7), true);
+    strictEqual(reopened.has(3, 7), false);
+    reopened.defragment();
+    strictEqual(reopened.toUint8Array().byteLength, 8192 + reopened.get(31, 1)!.sectorCount * 4096);
+    strictEqual(NBT.stringify((await reopened.readChunk(31, 1))!), NBT.stringify(data));
+  });
+
+  it("stores oversized chunks externally", async () => {
+    const region = new NBT.RegionFile(undefined, { x: 1, z: -1 });
+    const bytes = new Int8Array(1024 * 1024 + 1).map((_, i) => i * 7919 >> 3);
+
+    await region.writeChunk(2, 0, { bytes }, { compression: null });
+
+    strictEqual(region.get(2, 0)?.external, true);
+    assert(region.external.has("c.34.-32.mcc"));
+    deepStrictEqual((await region.readChunk(2, 0))?.data, { bytes });
+  });
+});
+
+
+describe("Read and Write All", () => {
+  it("round-trips adjacent roots", async () => {
+    const { buffer } = files.find(({ name }) => name === "BlockEntity.dat")!;
+    const results: NBT.NBTData[] = await NBT.readAll(buffer);
+
+    assert(results.length > 1, "'BlockEntity.dat' should contain multiple roots");
+    strictEqual(results[0]!.byteRange![0], 0);
+    strictEqual(results.at(-1)!.byteRange![1], buffer.byteLength);
+    for (const [i, result] of results.entries()) {
+      strictEqual(result.endian, "little");
+      if (i === 0) continue;
+      strictEqual(result.byteRange![0], results[i - 1]!.byteRange![1]);
+    }
+
+    const recompile: Uint8Array = await NBT.writeAll(results);
+    strictEqual(Buffer.compare(buffer, recompile), 0, "'BlockEntity.dat' does not symmetrically recompile");
+  });
+});
+
+
+describe("Read Stream", () => {
+  for (const name of ["bigtest.nbt", "level.dat", "bigtest-varint.nbt", "bigtest-varint-complete.nbt", "simple_house.nbt"]) {
+    it(name, async () => {
+      const { buffer } = files.find(entry => entry.name === name)!;
+      const expected: NBT.NBTData = await NBT.read(buffer);
+
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let i = 0; i < buffer.byteLength; i += 7) {
+            controller.enqueue(buffer.subarray(i, i + 7));
+          }
+          controller.close();
+        }
+      });
+
+      const { endian, bedrockLevel } = expected;
+      const stack: (NBT.CompoundTag | NBT.ListTag<NBT.Tag>)[] = [];
+      let root: NBT.RootTag | undefined;
+
+      const append = (name: string | null, value: NBT.Tag): void => {
+        const parent = stack.at(-1);
+        if (parent === undefined) return;
+        if (Array.isArray(parent)) {
+          parent.push(value);
+        } else {
+          parent[name!] = value;
+        }
+      };
+
+      for await (const event of NBT.readStream(stream, { endian, bedrockLevel })) {
+        switch (event.type) {
+          case "compound-start":
+          case "list-start": {
+            const value: NBT.CompoundTag | NBT.ListTag<NBT.Tag> = event.type === "list-start" ? [] : {};
+            append(event.name, value);
+            root ??= value;
+            stack.push(value);
+            break;
+          }
+          case "compound-end":
+          case "list-end": stack.pop(); break;
+          case "value": append(event.name, event.value); break;
+        }
+      }
+
+      strictEqual(NBT.stringify(root!), NBT.stringify(expected));
+    });
+  }
+
+  it("reads arrays which span many chunks, and rejects negative List lengths", async () => {
+    const toStream = (data: Uint8Array): ReadableStream<Uint8Array> => new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < data.byteLength; i += 1024) {
+          controller.enqueue(data.subarray(i, i + 1024));
+        }
+        controller.close();
+      }
+    });
+
+    const bytes = new Int8Array(1 << 20).map((_, i) => i);
+    const events: NBT.NBTEvent[] = [];
+    for await (const event of NBT.readStream(toStream(await NBT.write({ bytes })), { compression: null })) {
+      events.push(event);
+    }
+    deepStrictEqual((events[1] as NBT.ValueEvent).value, bytes);
+
+    const list = new Uint8Array([10, 0, 0, 9, 0, 1, 97, 1, 0xFF, 0xFF, 0xFF, 0xFF, 0]);
+    await rejects(async () => {
+      for await (const _ of NBT.readStream(toStream(list), { compression: null }));
+    }, /invalid List tag length/);
+    await rejects(NBT.read(list, { endian: "big", compression: null }), /invalid List tag length/);
+  });
+
+  it("rejects negative Array lengths", async () => {
+    for (const type of [NBT.TAG.BYTE_ARRAY, NBT.TAG.INT_ARRAY, NBT.TAG.LONG_ARRAY]) {
+      const data = new Uint8Array([10, 0, 0, type, 0, 1, 97, 0xFF, 0xFF, 0xFF, 0xFC, 0]);
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(data);
+          controller.close();
+        }
+      });
+      await rejects(async () => {
+        for await (const _ of NBT.readStream(stream, { compression: null }));
+      }, /invalid Array tag length '-4'/);
+    }
+  });
+});
+
+
+describe("Selective Read", () => {
+  const { buffer } = files.find(({ name }) => name === "bigtest.nbt")!;
+
+  it("reads only the selected paths", async () => {
+    const result: NBT.NBTData<NBT.CompoundTag> = await NBT.read(buffer, { select: ["nested compound test.egg.name", "listTest (long).1"] });
+    deepStrictEqual(Object.keys(result.data), ["nested compound test", "listTest (long)"]);
+    deepStrictEqual(result.data["nested compound test"], { egg: { name: "Eggbert" } });
+    strictEqual((result.data["listTest (long)"] as NBT.ListTag<NBT.LongTag>)[1], 12n);
+    strictEqual(0 in (result.data["listTest (long)"] as NBT.ListTag<NBT.LongTag>), false);
+  });
+
+  it("reads with a selector function", async () => {
+    const result: NBT.NBTData = await NBT.read(buffer, { select: path => path.length === 1 && path[0] === "intTest" });
+    deepStrictEqual(result.data, { intTest: new NBT.Int32(2147483647) });
+  });
+});
+
+
+describe("NBT Path", () => {
+  const inventory = (): NBT.CompoundTag => NBT.parse(`{Inventory:[{Slot:0b,id:"minecraft:stone",tag:{display:{Name:'"Rock"'}}},{Slot:1b,id:"minecraft:dirt"}],Sections:[{Y:0b},{Y:1b}]}`);
+
+  it("gets tags", () => {
+    const data = inventory();
+    strictEqual(NBT.get(data, "Inventory[{Slot:0b}].tag.display.Name"), '"Rock"');
+    strictEqual(NBT.get(data, "Inventory[{Slot:0s}]"), undefined, "Compound filters should match by tag type");
+    deepStrictEqual(NBT.get(data, "Sections[-1]"), { Y: new NBT.Int8(1) });
+    deepStrictEqual(NBT.getAll(data, "Inventory[].id"), ["minecraft:stone", "minecraft:dirt"]);
+    strictEqual(NBT.get(data, "{Sections:[{Y:1b}]}.Inventory[1].Slot")?.valueOf(), 1);
+  });
+
+  it("sets, inserts, and removes tags", () => {
+    const data = new NBT.NBTData(inventory());
+    strictEqual(NBT.set(data, "Inventory[].Count", new NBT.Int8(64)), 2);
+    strictEqual(NBT.set(data, "Data.Player.Name", "Steve"), 1);
+    strictEqual(NBT.insert(data, "Sections", 0, { Y: new NBT.Int8(-1) }), 1);
+    strictEqual(NBT.remove(data, "Inventory[{id:\"minecraft:dirt\"}]"), 1);
+    throws(() => NBT.set(data, "Sections[0]", "not a compound"), TypeError);
+    strictEqual(NBT.stringify(data), `{Inventory:[{Slot:0b,id:"minecraft:stone",tag:{display:{Name:'"Rock"'}},Count:64b}],Sections:[{Y:-1b},{Y:0b},{Y:1b}],Data:{Player:{Name:"Steve"}}}`);
+  });
+});
+
+
+describe("Diff and Patch", () => {
+  it("round-trips through stored operations", () => {
+    const a: NBT.CompoundTag = NBT.parse(`{Level:1b,Name:"before",Pos:[0.0d,64.0d,0.0d],Items:[{id:"a"},{id:"b"},{id:"c"}],Tags:["x"],Removed:{}}`);
+    const b: NBT.CompoundTag = NBT.parse(`{Level:1s,Name:"after",Pos:[0.0d,70.0d,0.0d],Items:[{id:"a"},{id:"c"},{id:"d"},{id:"e"}],Tags:[1,2],Added:[L;1l]}`);
+
+    const operations: NBT.DiffOperation[] = NBT.diff(a, b);
+    deepStrictEqual(operations.map(({ op, path }) => `${op} ${path}`), [
+      "type-change Level",
+      "replace Name",
+      "replace Pos[1]",
+      "list-delete Items",
+      "list-insert Items",
+      "list-insert Items",
+      "type-change Tags",
+      "remove Removed",
+      "add Added"
+    ]);
+
+    const stored: string = NBT.stringify(operations as NBT.ListTag<NBT.CompoundTag>);
+    const patched: NBT.CompoundTag = NBT.patch(a, NBT.parse<NBT.DiffOperation[]>(stored));
+    assert(NBT.isTagEqual(patched, b), "Patched object should equal the target object");
+    deepStrictEqual(NBT.diff(patched, b), []);
+  });
+});
+
+
+describe("Schema", () => {
+  const { schema } = NBT;
+
+  const LevelDat = schema.compound({
+    Difficulty: schema.int(0, 1, 2, 3),
+    Pos: schema.list(schema.double()),
+    Name: schema.optional(schema.string())
+  });
+
+  it("validates a read result", async () => {
+    const { buffer } = files.find(({ name }) => name === "hello_world.nbt")!;
+    const result: NBT.NBTData<{ name: string; }> = await NBT.read(buffer, { schema: schema.compound({ name: schema.string() }) });
+    strictEqual(result.data.name, "Bananrama");
+    await rejects(NBT.read(buffer, { schema: schema.compound({ name: schema.int() }) }), NBT.SchemaError);
+  });
+
+  it("reports the path of each issue", () => {
+    const error = (() => {
+      try {
+        LevelDat.validate({ Difficulty: new NBT.Int32(4), Pos: [0, "up"], Extra: new NBT.Int8(1) });
+      } catch (error) {
+        return error;
+      }
+    })();
+    assert(error instanceof NBT.SchemaError);
+    deepStrictEqual(error.issues.map(({ path }) => path), ["Difficulty", "Pos[1]"]);
+    throws(() => schema.compound({}, { strict: true }).validate({ Extra: new NBT.Int8(1) }), NBT.SchemaError);
+  });
+
+  it("coerces plain values", () => {
+    const level = LevelDat.validate({ Difficulty: 2, Pos: [0, 64.5, 0] }, { coerce: true });
+    assert(level.Difficulty instanceof NBT.Int32);
+    strictEqual(level.Difficulty.valueOf(), 2);
+    strictEqual(level.Name, undefined);
+    assert(LevelDat.is(level));
+    throws(() => schema.byte().validate(128, { coerce: true }), NBT.SchemaError);
+    deepStrictEqual(schema.intArray().validate([1, 2], { coerce: true }), new Int32Array([1, 2]));
+  });
+
+  it("checks narrowed values at runtime", async () => {
+    const Difficulty: NBT.Schema<NBT.IntTag<0 | 1 | 2 | 3>> = schema.int(0, 1, 2, 3);
+    const data: Uint8Array = await NBT.write({ Difficulty: new NBT.Int32(5) });
+    await rejects(NBT.read(data, { schema: schema.compound({ Difficulty }) }), NBT.SchemaError);
+    strictEqual(Difficulty.is(new NBT.Int32(3)), true);
+    // @ts-expect-error A narrowed type needs the allowed values.
+    schema.int<0 | 1>();
+  });
+});
+
+
+describe("Typed JSON", () => {
+  for (const { name, buffer } of files) {
+    if (name.endsWith(".snbt")) continue;
+
+    it(name, async () => {
+      const strict: boolean = !/^BlockEntity|^chunk91|_280dfc/.test(name);
+      const result: NBT.NBTData = await NBT.read(buffer, { strict });
+      const json: string = JSON.stringify(NBT.toJSON(result));
+      const restored: NBT.NBTData = NBT.fromJSON(json);
+      deepStrictEqual(
+        await NBT.write(restored, { compression: null }),
+        await NBT.write(result, { compression: null }),
+        `'${name}' should write identically after a typed JSON round-trip`
+      );
+    });
+  }
+
+  it("keeps tag types that plain JSON loses", () => {
+    const data = {
+      Empty: [],
+      Floats: [new NBT.Float32(NaN), new NBT.Float32(-Infinity)],
+      Zero: -0,
+      Long: 9223372036854775807n,
+      Bytes: new Int8Array([-1])
+    };
+    const json: NBT.JSONNBTData = NBT.toJSON(data);
+    deepStrictEqual(json.data, {
+      type: "compound",
+      value: {
+        Empty: { type: "list", itemType: "end", value: [] },
+        Floats: { type: "list", itemType: "float", value: [{ type: "float", value: "NaN" }, { type: "float", value: "-Infinity" }] },
+        Zero: { type: "double", value: "-0" },
+        Long: { type: "long", value: "9223372036854775807" },
+        Bytes: { type: "byte_array", value: [-1] }
+      }
+    });
+    strictEqual(Object.is(NBT.fromJSON<typeof data>(json).data.Zero, -0), true);
+    throws(() => NBT.fromJSON({ ...json, data: { type: "list", itemType: "int", value: [{ type: "byte", value: 1 }] } }), TypeError);
+  });
+
+  it("keeps the header version and any root options", async () => {
+    const { buffer } = files.find(({ name }) => name === "level.dat")!;
+    const level: NBT.NBTData<NBT.CompoundTag> = await NBT.read<NBT.CompoundTag>(buffer);
+    delete level.data["StorageVersion"];
+
+    const restored: NBT.NBTData<NBT.CompoundTag> = NBT.fromJSON(JSON.stringify(NBT.toJSON(level)));
+    strictEqual(restored.headerVersion, level.headerVersion);
+    deepStrictEqual(await NBT.write(restored), await NBT.write(level));
+
+    const network: NBT.JSONNBTData = NBT.toJSON(new NBT.NBTData("motd", NBT.NETWORK_FORMAT));
+    deepStrictEqual(network.data, { type: "string", value: "motd" });
+    strictEqual(NBT.fromJSON<NBT.StringTag>(network).data, "motd");
+    throws(() => NBT.fromJSON({ ...network, anyRoot: undefined }), TypeError);
+    throws(() => NBT.fromJSON({ ...NBT.toJSON(level), headerVersion: -1 }), TypeError);
+  });
+});
+
+
+describe("SNBT Syntax Errors", () => {
+  it("reports the location of the error", () => {
+    const error = (() => {
+      try {
+        NBT.parse(`{\n  Data: {\n    Pos: [1.0d, 2.0d 3.0d]\n  }\n}`);
+      } catch (error) {
+        return error;
+      }
+    })();
+    assert(error instanceof NBT.SNBTSyntaxError);
+    strictEqual(error.line, 3);
+    strictEqual(error.column, 22);
+    strictEqual(error.path, "Data.Pos");
+    strictEqual(error.expected, "',' or ']'");
+    strictEqual(error.snippet, "3 |     Pos: [1.0d, 2.0d 3.0d]\n  |                      ^");
+  });
+
+  it("reports an unexpected end", () => {
+    throws(() => NBT.parse(`{Items:[{id:"minecraft:stone`), (error: unknown) => {
+      return error instanceof NBT.SNBTSyntaxError && error.path === "Items[0].id" && error.index === 28 && error.expected === "closing quote \"";
+    });
+  });
+
+  it("reports mixed List item types", () => {
+    throws(() => NBT.parse(`{Tags:[1b, "a"]}`), (error: unknown) => {
+      return error instanceof NBT.SNBTSyntaxError && error.path === "Tags[1]" && error.index === 11 && error.expected === "a BYTE tag";
+    });
+  });
+
+  it("reports a root which isn't a List or Compound tag", () => {
+    for (const source of [`5b`, ` [I;1,2]`]) {
+      throws(() => NBT.parse(source), (error: unknown) => {
+        return error instanceof NBT.SNBTSyntaxError && error.line === 1 && error.column === source.indexOf(source.trim()) + 1 && error.expected === "a List or Compound tag";
+      });
+    }
+  });
+});
+
+
+describe("Modern SNBT Grammar", () => {
+  it("parses modern literals and operations", () => {
+    const data: NBT.CompoundTag = NBT.parse(`{hex:0xFFub,bin:0b1010s,digits:1_000L,float:1.5e3f,escapes:"\\x41\\u00e9\\U0001F600\\s",flag:bool(3),id:uuid(f81d4fae-7dec-11d0-a765-00a0c91e6bf6),bytes:[B;1,0xFFub,true]}`, { grammar: "modern" });
+    strictEqual(NBT.stringify(data), `{hex:-1b,bin:10s,digits:1000l,float:1500.0f,escapes:"Aé😀 ",flag:true,id:[I;-132296786,2112623056,-1486552928,-920753162],bytes:[B;1b,-1b,1b]}`);
+    throws(() => NBT.parse(`{a:128b}`, { grammar: "modern" }), NBT.SNBTSyntaxError);
+    strictEqual(NBT.parse<NBT.CompoundTag>(`{a:"\\N{SNOWMAN}\\N{latin small letter e with acute}\\N{CJK UNIFIED IDEOGRAPH-4E00}"}`, { grammar: "modern" })["a"], "☃é一");
+    throws(() => NBT.parse(`{a:"\\N{NOT A CHARACTER}"}`, { grammar: "modern" }), NBT.SNBTSyntaxError);
+    strictEqual(NBT.parse<NBT.CompoundTag>(`{a:0xFF}`)["a"], "0xFF");
+  });
+
+  it("supports named escapes for the listed Unicode blocks", () => {
+    const names: [string, string][] = [["GREEK SMALL LETTER ALPHA", "α"], ["CYRILLIC CAPITAL LETTER ZHE", "Ж"], ["INFINITY", "∞"], ["WATCH", "⌚"], ["CIRCLED DIGIT ONE", "①"], ["HEAVY BLACK HEART", "❤"], ["HANGUL SYLLABLES AC00", "가"]];
+    for (const [name, char] of names) {
+      strictEqual(NBT.parse<NBT.CompoundTag>(`{a:"\\N{${name}}"}`, { grammar: "modern" })["a"], char);
+    }
+    strictEqual(NBT.NAMED_ESCAPE_BLOCKS.includes("Greek and Coptic"), true);
+    throws(() => NBT.parse(`{a:"\\N{HEBREW LETTER ALEF}"}`, { grammar: "modern" }), /only cover the blocks in NAMED_ESCAPE_BLOCKS/);
+  });
+
+  it("wraps and unwraps heterogeneous lists", () => {
+    const data: NBT.ListTag<NBT.CompoundTag> = NBT.parse(`[1,"two",{a:3b}]`, { grammar: "modern" });
+    strictEqual(NBT.stringify(data), `[{"":1},{"":"two"},{a:3b}]`);
+    strictEqual(NBT.stringify(data, { grammar: "modern" }), `[1,"two",{a:3b}]`);
+    throws(() => NBT.parse(`[1,"two"]`));
+
+    for (const snbt of [`{l:[{"":{a:1}},{"":1}]}`, `{l:[{"":{"":1}},{"":2b}]}`, `{l:[{a:1},{"":1}]}`]) {
+      const parsed: NBT.CompoundTag = NBT.parse(snbt, { grammar: "modern" });
+      deepStrictEqual(NBT.parse(NBT.stringify(parsed, { grammar: "modern" }), { grammar: "modern" }), parsed);
+    }
+    strictEqual(NBT.stringify(NBT.parse(`{l:[{"":{a:1}},{"":1}]}`), { grammar: "modern" }), `{l:[{"":{a:1}},{"":1}]}`);
+  });
+});
+
+
+describe("Stringify Formatting", () => {
+  const data: NBT.CompoundTag = NBT.parse(`{z:{a:1b,b:2s},ids:[I;${Array.from({ length: 16 }, (_, i) => i * 1000).join()}],items:[{id:"a",Count:1b},{id:"b",Count:2b}],name:"it's"}`);
+
+  it("sorts keys and wraps to the line width", () => {
+    const result: string = NBT.stringify(data, { space: 2, maxLineWidth: 50, sortKeys: true, suffix: "upper", quote: "\"", trailingNewline: true });
+    strictEqual(result, [
+      "{",
+      "  ids: [I;",
+      "    0, 1000, 2000, 3000, 4000, 5000, 6000, 7000,",
+      "    8000, 9000, 10000, 11000, 12000, 13000, 14000,",
+      "    15000",
+      "  ],",
+      "  items: [",
+      "    {Count: 1B, id: \"a\"},",
+      "    {Count: 2B, id: \"b\"}",
+      "  ],",
+      "  name: \"it's\",",
+      "  z: {a: 1B, b: 2S}",
+      "}",
+      ""
+    ].join("\n"));
+    assert(NBT.isTagEqual(NBT.parse<NBT.CompoundTag>(result), data), "Formatted SNBT should parse into the same tree");
+  });
+
+  it("uses the preferred quote character", () => {
+    strictEqual(NBT.stringify({ name: "it's" }), `{name:"it's"}`);
+    strictEqual(NBT.stringify({ name: "it's" }, { quote: "'" }), `{name:'it\\'s'}`);
+  });
+});
+
+
+describe("Source Map", () => {
+  it("records the byte offsets of each tag", async () => {
+    const { buffer } = files.find(({ name }) => name === "hello_world.nbt")!;
+    const { sourceMap } = await NBT.read(buffer, { sourceMap: true });
+    deepStrictEqual([...sourceMap!], [
+      ["", { type: NBT.TAG.COMPOUND, headerOffset: 0, payloadOffset: 14, byteLength: 19 }],
+      ["name", { type: NBT.TAG.STRING, headerOffset: 14, payloadOffset: 21, byteLength: 11 }]
+    ]);
+    strictEqual((await NBT.read(buffer)).sourceMap, null);
+  });
+
+  it("allows patching a value in place", async () => {
+    const buffer: Uint8Array = await NBT.write({ Items: [{ Count: new NBT.Int32(1) }] }, { endian: "little" });
+    const { sourceMap } = await NBT.read(buffer, { sourceMap: true });
+    const entry: NBT.SourceMapEntry = sourceMap!.get("Items[0].Count")!;
+    strictEqual(sourceMap!.get("Items[0]")!.headerOffset, null);
+    new DataView(buffer.buffer, buffer.byteOffset).setInt32(entry.payloadOffset, 64, true);
+    strictEqual(NBT.get((await NBT.read<NBT.CompoundTag>(buffer)).data, "Items[0].Count")?.valueOf(), 64);
+  });
+});
+
+
+describe("Hex Dump", () => {
+  it("annotates each region of the buffer", async () => {
+    const { dump } = await import("../src/bin/dump.js");
+    const { buffer } = files.find(({ name }) => name === "hello_world.nbt")!;
+    const lines: string[] = (await dump(buffer, {})).split("\n").map(line => `${line.slice(0, 8)} | ${line.slice(10, 57).trim()} | ${line.slice(59)}`);
+    deepStrictEqual(lines, [
+      "00000000 | 0a | Tag type COMPOUND, (root)",
+      "00000001 | 00 0b | Name length 11",
+      "00000003 | 68 65 6c 6c 6f 20 77 6f 72 6c 64 | Name \"hello world\"",
+      "0000000e | 08 |   Tag type STRING, name",
+      "0000000f | 00 04 |   Name length 4",
+      "00000011 | 6e 61 6d 65 |   Name \"name\"",
+      "00000015 | 00 09 |   Length 9",
+      "00000017 | 42 61 6e 61 6e 72 61 6d 61 |   Payload \"Bananrama\"",
+      "00000020 | 00 |   End tag"
+    ]);
+  });
+});
+
+describe("Bedrock LevelDB", () => {
+  it("round-trips a compacted table", async () => {
+    const { buffer } = files.find(({ name }) => name === "chunk91_.dat")!;
+    const key: Uint8Array = NBT.createBedrockKey({ kind: "chunk", x: -3, z: 7, dimension: NBT.Dimension.NETHER, type: NBT.ChunkRecordType.BLOCK_ENTITY });
+    const db = new NBT.LevelDB([[key, buffer]]);
+    for (let i: number = 0; i < 1000; i++) {
+      db.set(`player_${i}`, new TextEncoder().encode(`${i}`.repeat(i % 16 + 1)));
+    }
+    db.sequence = 42;
+
+    for (const compression of ["deflate-raw", "deflate", null] as const) {
+      const result: NBT.LevelDB = await NBT.readLevelDB(await NBT.writeLevelDB(db, { compression }));
+      strictEqual(result.size, db.size);
+      strictEqual(result.sequence, 42);
+      deepStrictEqual([...result.keys()], [...db.keys()]);
+      deepStrictEqual(result.get("player_999"), db.get("player_999"));
+    }
+
+    const result: NBT.LevelDB = await NBT.readLevelDB(await NBT.writeLevelDB(db));
+    const blockEntities: NBT.NBTData[] = await NBT.readBedrockRecord(key, result.get(key)!);
+    const expected: NBT.NBTData[] = await NBT.readAll(buffer, { endian: "little", compression: null });
+    strictEqual(blockEntities.length > 1, true);
+    deepStrictEqual(blockEntities.map(({ data }) => data), expected.map(({ data }) => data));
+  });
+
+  it("numbers written files after the files it was read from", async () => {
+    const db = new NBT.LevelDB([[new TextEncoder().encode("a"), new Uint8Array([1])], [new TextEncoder().encode("b"), new Uint8Array([2])]]);
+    const previous: Map<string, Uint8Array> = await NBT.writeLevelDB(db);
+    deepStrictEqual([...previous.keys()].sort(), ["000002.ldb", "000003.log", "CURRENT", "MANIFEST-000001"]);
+
+    const result: NBT.LevelDB = await NBT.readLevelDB(new Map([...previous, ["000007.log", new Uint8Array(0)]]));
+    strictEqual(result.fileNumber, 8);
+    result.delete("a");
+
+    const files: Map<string, Uint8Array> = await NBT.writeLevelDB(result);
+    deepStrictEqual([...files.keys()].sort(), ["000009.ldb", "000010.log", "CURRENT", "MANIFEST-000008"]);
+    const merged: NBT.LevelDB = await NBT.readLevelDB(new Map([...previous, ...files]));
+    deepStrictEqual([...merged.keys()], [new TextEncoder().encode("b")]);
+  });
+
+  it("encodes string keys as UTF-8", async () => {
+    const db = new NBT.LevelDB();
+    db.set("日本", new Uint8Array([1]));
+    strictEqual(db.has(new TextEncoder().encode("日本")), true);
+
+    const result: NBT.LevelDB = await NBT.readLevelDB(await NBT.writeLevelDB(db));
+    deepStrictEqual([...result.keys()], [new TextEncoder().encode("日本")]);
+    deepStrictEqual(result.get("日本"), new Uint8Array([1]));
+  });
+
+  it("decodes Bedrock key layouts", () => {
+    const keys: NBT.BedrockKey[] = [
+      { kind: "chunk", x: 1, z: -2, dimension: NBT.Dimension.OVERWORLD, type: NBT.ChunkRecordType.VERSION },
+      { kind: "chunk", x: -1, z: 2, dimension: NBT.Dimension.END, type: NBT.ChunkRecordType.SUB_CHUNK_PREFIX, subChunk: -4 },
+      { kind: "actor", id: -12884901887n },
+      { kind: "digest", x: 5, z: 6, dimension: NBT.Dimension.NETHER },
+      { kind: "named", name: "~local_player" },
+      { kind: "named", name: "Overworld" }
+    ];
+    for (const key of keys) {
+      deepStrictEqual(NBT.parseBedrockKey(NBT.createBedrockKey(key)), key);
+    }
+    strictEqual(NBT.createBedrockKey(keys[0]!).byteLength, 9);
+    strictEqual(NBT.isNBTRecord(keys[0]!), false);
+    strictEqual(NBT.isNBTRecord(keys[4]!), true);
+    strictEqual(NBT.isNBTRecord(new TextEncoder().encode("VILLAGE_Overworld_0ad2f5a4-93b8-4f2b-8e0c-9a5d2c07a6f1_INFO")), true);
+    strictEqual(NBT.isNBTRecord(new TextEncoder().encode("game_flatworldlayers")), false);
+    strictEqual(NBT.isNBTRecord({ kind: "named", name: "LevelChunkMetaDataDictionary" }), false);
+  });
+});
+
+describe("Any Root", () => {
+  it("reads and writes network NBT roots of any tag type", async () => {
+    const buffer: Uint8Array = await NBT.write("Hello chat", NBT.NETWORK_FORMAT);
+    deepStrictEqual([...buffer.subarray(0, 3)], [NBT.TAG.STRING, 0, 10]);
+    const result: NBT.NBTData<NBT.StringTag> = await NBT.read<NBT.StringTag>(buffer, NBT.NETWORK_FORMAT);
+    strictEqual(result.data, "Hello chat");
+    strictEqual(result.anyRoot, true);
+    strictEqual(NBT.stringify(result), "\"Hello chat\"");
+    deepStrictEqual((await NBT.read(await NBT.write(new Int32Array([1, 2]), NBT.NETWORK_FORMAT), NBT.NETWORK_FORMAT)).data, new Int32Array([1, 2]));
+    await rejects(async () => NBT.read(buffer, { rootName: false }));
+    await rejects(async () => NBT.write(new NBT.NBTData(5n)));
+  });
+
+  it("parses and stringifies primitive roots", () => {
+    strictEqual(NBT.parse<NBT.ByteTag>("12b", { anyRoot: true }).valueOf(), 12);
+    strictEqual(NBT.stringify(5n, { anyRoot: true }), "5l");
+    throws(() => NBT.parse("12b"));
+    throws(() => NBT.stringify(5n as unknown as NBT.RootTag));
+  });
+});
+
+describe("Format Detection", () => {
+  it("detects the format of each file", async () => {
+    for (const { name, buffer } of files) {
+      if (name.endsWith(".snbt")) continue;
+      const result: NBT.NBTData = await NBT.read(buffer, { strict: false });
+      const { format } = await NBT.detect(buffer, { strict: false });
+      const { rootName, endian, compression, bedrockLevel, stringEncoding } = result;
+      deepStrictEqual(format, { rootName, endian, compression, bedrockLevel, stringEncoding }, name);
+    }
+  });
+
+  it("reports a confidence and the rejected formats", async () => {
+    const { buffer } = files.find(({ name }) => name === "hello_world.nbt")!;
+    const { format, confidence, rejected } = await NBT.detect(buffer);
+    deepStrictEqual(format, { rootName: "hello world", endian: "big", compression: null, bedrockLevel: false, stringEncoding: "mutf-8" });
+    strictEqual(confidence, 1);
+    strictEqual(rejected.length, 5);
+    strictEqual(rejected.every(({ reason }) => typeof reason === "string"), true);
+
+    const { format: unknown, confidence: none } = await NBT.detect(new Uint8Array([0xFF, 0xFF, 0xFF]));
+    strictEqual(unknown, null);
+    strictEqual(none, 0);
+  });
+});
+
+declare module "../src/compression.js" {
+  interface CompressionCodecs {
+    "test:reverse": CompressionCodec;
+  }
+}
+
+describe("Compression", () => {
+  it("round trips the LZ4 formats", async () => {
+    const { buffer } = files.find(({ name }) => name === "bigtest.nbt")!;
+    const data: NBT.NBTData = await NBT.read(buffer);
+    const uncompressed: Uint8Array = await NBT.write(data, { compression: null });
+
+    for (const compression of ["lz4", "lz4-block"] as const) {
+      const compressed: Uint8Array = await NBT.compress(uncompressed, compression);
+      strictEqual(compressed.byteLength < uncompressed.byteLength, true, compression);
+      deepStrictEqual(await NBT.decompress(compressed, compression), uncompressed, compression);
+      strictEqual(NBT.detectCompression(compressed), compression);
+      const result: NBT.NBTData = await NBT.read(compressed);
+      strictEqual(result.compression, compression);
+      deepStrictEqual(result.data, data.data);
+    }
+
+    strictEqual(NBT.xxhash32(new TextEncoder().encode("abc")), 0x32D153FF);
+    await rejects(async () => NBT.decompress(new Uint8Array([0x04, 0x22, 0x4D, 0x18, 0x64, 0x40, 0x00]), "lz4"));
+  });
+
+  it("writes with a compression level and strategy", async () => {
+    const { buffer } = files.find(({ name }) => name === "bigtest.nbt")!;
+    const data: NBT.NBTData = await NBT.read(buffer);
+    const stored: Uint8Array = await NBT.write(data, { compression: "deflate", level: 0 });
+    const best: Uint8Array = await NBT.write(data, { compression: "deflate", level: 9, strategy: "filtered" });
+    strictEqual(stored.byteLength > best.byteLength, true);
+    deepStrictEqual((await NBT.read(best)).data, data.data);
+    await rejects(async () => NBT.write(data, { compression: "gzip", level: 12 }));
+  });
+
+  it("registers custom codecs", async () => {
+    const reverse = (data: Uint8Array): Uint8Array => data.slice().reverse();
+    NBT.registerCompression("test:reverse", { compress: reverse, decompress: reverse });
+
+    try {
+      const buffer: Uint8Array = await NBT.write({ hello: "world" }, { compression: "test:reverse" });
+      const result: NBT.NBTData = await NBT.read(buffer, { compression: "test:reverse" });
+      deepStrictEqual(result.data, { hello: "world" });
+
+      const region = new NBT.RegionFile();
+      await region.writeChunk(0, 0, { hello: "world" }, { compression: "test:reverse" });
+      await region.writeChunk(1, 0, { hello: "lz4" }, { compression: "lz4-block" });
+      const reopened = new NBT.RegionFile(region.toUint8Array());
+      strictEqual(reopened.get(0, 0)!.compression, "test:reverse");
+      strictEqual(reopened.get(1, 0)!.compression, "lz4-block");
+      deepStrictEqual((await reopened.readChunk(0, 0))!.data, { hello: "world" });
+      deepStrictEqual((await reopened.readChunk(1, 0))!.data, { hello: "lz4" });
+    } finally {
+      NBT.unregisterCompression("test:reverse");
+    }
+
+    strictEqual(NBT.isCompression("test:reverse"), false);
+    await rejects(async () => NBT.write({}, { compression: "test:reverse" }));
+  });
+});
+
+describe("Packed Array", () => {
+  it("decodes and re-encodes spanning Litematica block states", async () => {
+    const { buffer } = files.find(({ name }) => name === "Rail Junction.litematic")!;
+    const { data } = await NBT.read<NBT.CompoundTag>(buffer, { strict: false });
+    const [region] = Object.values(data["Regions"] as NBT.CompoundTag) as NBT.CompoundTag[];
+    const { x, y, z } = region!["Size"] as { x: NBT.IntTag; y: NBT.IntTag; z: NBT.IntTag; };
+    const palette = region!["BlockStatePalette"] as NBT.CompoundTag[];
+    const blockStates = region!["BlockStates"] as NBT.LongArrayTag;
+    const length: number = Math.abs(x.valueOf() * y.valueOf() * z.valueOf());
+
+    const packed = new NBT.PackedArray(length, { bitsPerEntry: NBT.getBitsPerEntry(palette.length, 2), layout: "spanning" }, blockStates);
+    strictEqual(packed.bitsPerEntry, 6);
+    strictEqual(packed.resolve(palette).length, length);
+
+    const repacked: NBT.PackedArray = NBT.PackedArray.from(packed.toIndices(), { layout: "spanning", minBitsPerEntry: 2 });
+    strictEqual(repacked.bitsPerEntry, 6);
+    deepStrictEqual(repacked.toBigInt64Array(), blockStates);
+  });
+
+  it("packs padded entries and grows the bit width", () => {
+    const packed: NBT.PackedArray = NBT.PackedArray.from([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 0], { minBitsPerEntry: 4 });
+    strictEqual(packed.bitsPerEntry, 4);
+    deepStrictEqual(packed.toBigInt64Array(), new BigInt64Array([0x0FEDCBA987654321n]));
+
+    const heightmap = new NBT.PackedArray(256, { bitsPerEntry: 9 });
+    strictEqual(heightmap.toBigInt64Array().length, 37);
+    heightmap.set(7, 320);
+    strictEqual(heightmap.get(7), 320);
+    throws(() => heightmap.set(0, 512));
+
+    const grown: NBT.PackedArray = heightmap.repack({ bitsPerEntry: NBT.getBitsPerEntry(1000) });
+    strictEqual(grown.bitsPerEntry, 10);
+    deepStrictEqual([...grown], [...heightmap]);
+    throws(() => new NBT.PackedArray(4096, { bitsPerEntry: 4 }, new BigInt64Array(255)));
+  });
+});
+
+describe("Schematic", () => {
+  const schematics: string[] = ["simple_house.nbt", "small-lobby.schem", "Rail Junction.litematic", "house3.mcstructure"];
+  const formats: NBT.SchematicFormat[] = ["structure", "schem", "litematic", "mcstructure"];
+
+  it("converts between every schematic format", async () => {
+    for (const [i, name] of schematics.entries()) {
+      const { buffer } = files.find(file => file.name === name)!;
+      const data: NBT.NBTData<NBT.CompoundTag> = await NBT.read<NBT.CompoundTag>(buffer, { strict: false });
+      strictEqual(NBT.detectSchematicFormat(data.data), formats[i], name);
+      const schematic: NBT.Schematic = NBT.toSchematic(data);
+
+      for (const format of formats) {
+        const converted: NBT.NBTData<NBT.CompoundTag> = NBT.convertSchematic(data, format);
+        strictEqual(converted.endian, format === "mcstructure" ? "little" : "big");
+        const result: NBT.Schematic = NBT.toSchematic(await NBT.read<NBT.CompoundTag>(await NBT.write(converted)));
+        deepStrictEqual(result.size, schematic.size, `${name} to ${format}`);
+        strictEqual(result.blockEntities.length, schematic.blockEntities.length, `${name} to ${format}`);
+        strictEqual(result.entities.length, schematic.entities.length, `${name} to ${format}`);
+        const voidState: string = (format === "schem" || format === "litematic") ? "minecraft:air" : "";
+        const states = ({ blocks, palette }: NBT.Schematic): string[] => Array.from(blocks, index => index === NBT.NO_BLOCK ? voidState : NBT.stringifyBlockState(palette[index]!));
+        deepStrictEqual(states(result), states(schematic), `${name} to ${format}`);
+      }
+    }
+  });
+
+  it("reads Sponge v3 schematics and merges Litematica regions", () => {
+    const stone: NBT.BlockState = { name: "minecraft:stone", properties: {} };
+    const log: NBT.BlockState = NBT.parseBlockState("minecraft:oak_log[axis=y]");
+    deepStrictEqual(log, { name: "minecraft:oak_log", properties: { axis: "y" } });
+
+    const a: NBT.Schematic = { name: "A", size: [1, 1, 1], origin: [0, 0, 0], palette: [stone], blocks: new Int32Array([0]), blockEntities: [], entities: [], dataVersion: 3465 };
+    const b: NBT.Schematic = { name: "B", size: [1, 2, 1], origin: [2, 0, 0], palette: [log], blocks: new Int32Array([0, 0]), blockEntities: [], entities: [], dataVersion: 3465 };
+    const litematic: NBT.NBTData<NBT.LitematicTag> = NBT.toLitematic([a, b]);
+    deepStrictEqual(Object.keys(litematic.data.Regions), ["A", "B"]);
+
+    const merged: NBT.Schematic = NBT.toSchematic(litematic);
+    deepStrictEqual(merged.size, [3, 2, 1]);
+    deepStrictEqual(Array.from(merged.blocks, index => index === NBT.NO_BLOCK ? null : merged.palette[index]!.name), ["minecraft:stone", null, "minecraft:oak_log", null, null, "minecraft:oak_log"]);
+
+    const schem: NBT.NBTData<NBT.CompoundTag> = NBT.fromSchematic(merged, "schem", { schemVersion: 3 });
+    strictEqual(schem.rootName, "");
+    deepStrictEqual(NBT.toSchematic(schem).size, [3, 2, 1]);
+  });
+});
+
+describe("Bedrock Sub-Chunks", () => {
+  const air: NBT.BedrockBlockState = { name: "minecraft:air", states: {}, version: new NBT.Int32(18090528) };
+  const stone: NBT.BedrockBlockState = { name: "minecraft:stone", states: {}, version: new NBT.Int32(18090528) };
+
+  it("decodes the storage layout of a version 8 sub-chunk", async () => {
+    const words = new Uint8Array(128 * 4);
+    words[0] = 0b10;
+    const palette: Uint8Array = await NBT.writeAll([air, stone], { rootName: "", endian: "little", compression: null, bedrockLevel: false });
+    const data = new Uint8Array([8, 1, 1 << 1, ...words, 2, 0, 0, 0, ...palette]);
+
+    const { version, storages } = NBT.readSubChunk(data);
+    strictEqual(version, 8);
+    strictEqual(storages.length, 1);
+    strictEqual(storages[0]!.blocks[1], 1);
+    strictEqual(storages[0]!.blocks.reduce((sum, index) => sum + index, 0), 1);
+    deepStrictEqual(storages[0]!.palette, [air, stone]);
+    deepStrictEqual(NBT.writeSubChunk({ version, storages }), data);
+  });
+
+  it("round trips version 9 sub-chunks and Data3D biomes", () => {
+    const blocks = new Uint16Array(4096).map((_, i) => i % 3);
+    const subChunk: NBT.SubChunk = { version: 9, y: -4, storages: [{ blocks, palette: [air, stone, { name: "minecraft:dirt", states: {} }] }] };
+    deepStrictEqual(NBT.readSubChunk(NBT.writeSubChunk(subChunk)), subChunk);
+    throws(() => NBT.readSubChunk(new Uint8Array([2])));
+
+    const heightmap = new Int16Array(256).fill(64);
+    const data3D: NBT.Data3D = { heightmap, biomes: [{ biomes: new Uint16Array(4096), palette: [1] }, null, { biomes: new Uint16Array(4096).fill(1, 2048), palette: [1, 7] }] };
+    const encoded: Uint8Array = NBT.writeData3D(data3D);
+    strictEqual(encoded.byteLength, 512 + 5 + 1 + 1 + 128 * 4 + 4 + 8);
+    deepStrictEqual(NBT.readData3D(encoded), data3D);
+
+    const data2D: NBT.Data2D = { heightmap, biomes: new Uint8Array(256).fill(4) };
+    deepStrictEqual(NBT.readData2D(NBT.writeData2D(data2D)), data2D);
+  });
+});
+
+describe("Framing", () => {
+  const { buffer } = files.find(({ name }) => name === "level.dat")!;
+
+  it("preserves the Bedrock Level header version", async () => {
+    const level: NBT.NBTData<NBT.CompoundTag> = await NBT.read<NBT.CompoundTag>(buffer);
+    const version: number = new DataView(buffer.buffer, buffer.byteOffset).getUint32(0, true);
+    strictEqual(level.bedrockLevel, true);
+    strictEqual(level.headerVersion, version);
+    deepStrictEqual(await NBT.write(level), new Uint8Array(buffer));
+
+    delete level.data["StorageVersion"];
+    const result: NBT.NBTData = await NBT.read(await NBT.write(level, { headerVersion: 3 }));
+    strictEqual(result.bedrockLevel, true);
+    strictEqual(result.headerVersion, 3);
+    await rejects(NBT.write(level, { headerVersion: null }));
+  });
+
+  it("reads headers from a stream", async () => {
+    const framing: NBT.Framing = NBT.createLengthPrefixFraming({ byteLength: "varint" });
+    const data: Uint8Array = await NBT.write({ name: "a".repeat(200) }, { rootName: null, framing });
+
+    for (const [bytes, options] of [[buffer, { endian: "little", bedrockLevel: true }], [data, { rootName: false, framing }]] as const) {
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          for (let i = 0; i < bytes.byteLength; i += 3) {
+            controller.enqueue(bytes.subarray(i, i + 3));
+          }
+          controller.close();
+        }
+      });
+      const events: NBT.NBTEvent[] = [];
+      for await (const event of NBT.readStream(stream, options)) {
+        events.push(event);
+      }
+      const header: NBT.HeaderEvent = events[0] as NBT.HeaderEvent;
+      strictEqual(header.type, "header");
+      strictEqual(header.payloadLength, bytes.byteLength - header.byteLength);
+      strictEqual(header.version, bytes === buffer ? new DataView(buffer.buffer, buffer.byteOffset).getUint32(0, true) : null);
+    }
+  });
+
+  it("reads and writes length-prefixed roots", async () => {
+    const framing: NBT.Framing = NBT.createLengthPrefixFraming({ byteLength: "varint" });
+    const entries: NBT.CompoundTag[] = [{ name: "a".repeat(200) }, { id: new NBT.Int32(5) }];
+    const data: Uint8Array = await NBT.writeAll(entries, { rootName: null, endian: "big", compression: null, framing });
+    strictEqual(data[0], 0xD3);
+    strictEqual(data[1], 0x01);
+
+    const result: NBT.NBTData[] = await NBT.readAll(data, { rootName: false, endian: "big", compression: null, framing });
+    deepStrictEqual(result.map(entry => entry.data), entries);
+    strictEqual(result[0]!.framing, framing);
+
+    const prefixed: Uint8Array = await NBT.write(entries[1]!, { rootName: null, framing: NBT.createLengthPrefixFraming({ byteLength: 4 }) });
+    await rejects(NBT.read(prefixed.map((byte, i) => i === 3 ? byte + 1 : byte), { rootName: false, endian: "big", compression: null, framing: NBT.createLengthPrefixFraming({ byteLength: 4 }) }));
+  });
+});
+
+describe("Legacy Console Edition", () => {
+  const { name, buffer } = files.find(({ name }) => name.startsWith("P_280dfc"))!;
+
+  it("packs and reads savegame.dat archives", async () => {
+    for (const endian of ["big", "little"] as const) {
+      const save = new NBT.SaveGame([], { endian, originalVersion: 7, version: 9 });
+      save.set(`players/${name}`, new Uint8Array(buffer), 1700000000000);
+
+      const region = new NBT.RegionFile(undefined, { variant: "lce", endian });
+      const chunk: NBT.CompoundTag = { Level: { xPos: new NBT.Int32(1), zPos: new NBT.Int32(2), Blocks: new Int8Array(32768).fill(1, 0, 100) } };
+      await region.writeChunk(1, 2, chunk);
+      save.setRegion("r.0.0.mcr", region);
+
+      for (const compression of ["deflate", null] as const) {
+        save.compression = compression;
+        const result: NBT.SaveGame = await NBT.readSaveGame(await NBT.writeSaveGame(save));
+        strictEqual(result.endian, endian);
+        strictEqual(result.compression, compression);
+        strictEqual(result.version, 9);
+        deepStrictEqual(result.files().map(({ name, timestamp }) => [name, timestamp]), save.files().map(({ name, timestamp }) => [name, timestamp]));
+
+        const player: NBT.NBTData | null = await result.readFile(`players/${name}`);
+        deepStrictEqual(player?.data, (await NBT.read(buffer, { strict: false })).data);
+        deepStrictEqual((await result.getRegion("r.0.0.mcr")!.readChunk(1, 2))?.data, chunk);
+      }
+    }
+  });
+
+  it("rejects regions of a different variant", async () => {
+    const save = new NBT.SaveGame([], { endian: "little" });
+    throws(() => save.setRegion("r.0.0.mcr", new NBT.RegionFile()));
+    throws(() => new NBT.RegionFile(undefined, { endian: "little" }));
+    await rejects(NBT.readSaveGame(new Uint8Array(4)));
+  });
+});
+
+
+describe("String Encoding", () => {
+  const text: string = "Sign \u{1F47D} text\0";
+
+  it("defaults to UTF-8 for little endian data", async () => {
+    const data: Uint8Array = await NBT.write({ text }, { endian: "little" });
+    const utf8: Uint8Array = new TextEncoder().encode(text);
+    deepStrictEqual(data.subarray(data.byteLength - 1 - utf8.byteLength, data.byteLength - 1), utf8);
+
+    const result: NBT.NBTData<{ text: string; }> = await NBT.read(data);
+    strictEqual(result.stringEncoding, "utf-8");
+    strictEqual(result.data.text, text);
+
+    const java: Uint8Array = await NBT.write({ text }, { endian: "big" });
+    strictEqual(java.byteLength, data.byteLength + 3);
+    strictEqual((await NBT.read<{ text: string; }>(java)).data.text, text);
+  });
+
+  it("detects Modified UTF-8 strings in little endian data", async () => {
+    const data: Uint8Array = await NBT.write({ text }, { endian: "little", stringEncoding: "mutf-8" });
+    const { format } = await NBT.detect(data);
+    strictEqual(format?.stringEncoding, "mutf-8");
+    strictEqual((await NBT.read<{ text: string; }>(data)).data.text, text);
+
+    const { buffer } = files.find(({ name }) => name === "alien-book.nbt")!;
+    strictEqual((await NBT.detect(buffer)).format?.stringEncoding, "mutf-8");
+    await rejects(NBT.write({ text }, { stringEncoding: "utf-16" as NBT.StringEncoding }));
+  });
+});
+
+
+describe("Network NBT Conformance", () => {
+  for (const name of ["entity_identifiers.nbt", "biome_definitions.nbt", "bigtest-varint-complete.nbt"]) {
+    it(name, async () => {
+      const { buffer } = files.find(entry => entry.name === name)!;
+      const result: NBT.NBTData = await NBT.read(buffer, { endian: "little-varint", compression: null, bedrockLevel: false });
+      const data: Uint8Array = await NBT.write(result);
+      deepStrictEqual(Buffer.from(data), buffer);
+    });
+  }
+
+  it("encodes Int and Long values at their 32 and 64-bit bounds", async () => {
+    const format = { rootName: "", endian: "little-varint", compression: null, bedrockLevel: false } as const;
+    const value = {
+      int: new NBT.Int32(-0x80000000),
+      long: -(2n ** 63n),
+      ints: new Int32Array([-1, 0x7FFFFFFF, -0x80000000]),
+      longs: new BigInt64Array([2n ** 63n - 1n, -(2n ** 63n)])
+    };
+    const data: Uint8Array = await NBT.write(value, format);
+    deepStrictEqual((await NBT.read(data, format)).data, value);
+
+    const ints: Uint8Array = await NBT.write({ ints: new Int32Array([-1, 1]) }, format);
+    deepStrictEqual([...ints.subarray(-4, -1)], [4, 1, 2]);
+  });
+
+  it("rejects VarInts and VarLongs which overflow", async () => {
+    const format = { rootName: "", endian: "little-varint", compression: null, bedrockLevel: false } as const;
+    const int = new Uint8Array([10, 0, 3, 1, 0x61, 0xFF, 0xFF, 0xFF, 0xFF, 0x1F, 0]);
+    const long = new Uint8Array([10, 0, 4, 1, 0x61, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0x03, 0]);
+    await rejects(NBT.read(int, format), /larger than 32 bits/);
+    await rejects(NBT.read(long, format), /larger than 64 bits/);
+    await rejects(NBT.read(new Uint8Array([10, 0, 11, 1, 0x61, 0x7E, 0]), format), /Ran out of bytes/);
+  });
+});